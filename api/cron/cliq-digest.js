@@ -0,0 +1,40 @@
+const { sendDigests } = require('../lib/cliq/digest');
+const { isBotConfigured } = require('../lib/cliq/bot');
+const { tokensMatch } = require('../lib/secrets');
+
+/**
+ * GET - scheduled by the `crons` entries in vercel.json, which send `Authorization: Bearer <CRON_SECRET>`.
+ * Posts the daily digest to every linked Cliq channel, or the weekly summary with ?weekly=1.
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+        console.error('[Cliq] CRON_SECRET is not set; rejecting digest run');
+        return res.status(503).json({ error: 'Scheduled digests are not configured' });
+    }
+
+    const header = req.headers.authorization || '';
+    const token = header.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!tokensMatch(token, cronSecret)) {
+        return res.status(401).json({ error: 'Invalid cron secret' });
+    }
+
+    if (!isBotConfigured()) {
+        return res.status(503).json({ error: 'CLIQ_BOT_NAME and CLIQ_BOT_TOKEN must be set to post digests' });
+    }
+
+    const { weekly } = req.query || {};
+    try {
+        const results = await sendDigests({ weekly: weekly === '1' || weekly === 'true' });
+        const count = (status) => results.filter(r => r.status === status).length;
+        res.status(200).json({ posted: count('posted'), skipped: count('skipped'), failed: count('failed'), results });
+    } catch (error) {
+        console.error('[Cliq] Digest run failed:', error);
+        res.status(500).json({ error: 'Digest run failed. Please try again.' });
+    }
+};
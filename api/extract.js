@@ -0,0 +1,139 @@
+const { parseTranscript, isValidTimeZone } = require('@meetingmind/extraction');
+const { verifyRequestUser, AuthError } = require('./lib/auth');
+const { getProvider } = require('./lib/providers');
+const { extractInChunks } = require('./lib/chunkedExtract');
+const { loadExtractionSettings } = require('./lib/teamSettings');
+const { resolvePromptVersion } = require('./lib/prompts');
+const { extractionCacheKey, getCachedExtraction, cacheExtraction } = require('./lib/extractionCache');
+
+module.exports = async (req, res) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // Verify the caller before spending any model quota
+    let supabase;
+    let user;
+    try {
+        ({ supabase, user } = await verifyRequestUser(req));
+    } catch (error) {
+        const status = error instanceof AuthError ? error.status : 401;
+        return res.status(status).json({ error: error.message });
+    }
+
+    const body = req.body || {};
+    const notes = typeof body.notes === 'string' ? body.notes : '';
+    const teamMembers = Array.isArray(body.teamMembers) ? body.teamMembers : [];
+
+    if (!notes.trim()) {
+        return res.status(400).json({ error: 'Please provide meeting notes to extract tasks from.' });
+    }
+
+    // Each team picks its provider and model in settings
+    const settings = await loadExtractionSettings(supabase, body.teamId);
+
+    // A request can name a prompt version to reproduce an earlier extraction;
+    // otherwise the team's pinned version, or the latest
+    let provider;
+    let promptVersion;
+    try {
+        provider = getProvider(settings.provider);
+        promptVersion = resolvePromptVersion(body.promptVersion || settings.promptVersion);
+    } catch (error) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    // Relative due dates count from the meeting day in the team's time zone. Teams that have
+    // not set one use the caller's browser zone; the server's own zone is UTC.
+    const meetingDate = /^\d{4}-\d{2}-\d{2}$/.test(body.meetingDate || '') ? body.meetingDate : undefined;
+    const timeZone = settings.dates?.timeZone || (isValidTimeZone(body.timeZone) ? body.timeZone : undefined);
+
+    const options = {
+        model: settings.model || provider.defaultModel,
+        teamMembers,
+        rules: settings.rules,
+        dates: { ...settings.dates, timeZone, meetingDate },
+        promptVersion,
+        instructions: settings.instructions,
+    };
+
+    // Speaker turns are read once here and shared by every chunk and provider
+    const transcript = parseTranscript(notes);
+
+    // The same notes under the same settings return the stored result instead of calling the
+    // model again; `refresh` forces a new run. The heuristic costs nothing, so it is not cached.
+    const cacheKey = provider.id === 'heuristic' ? null : extractionCacheKey(notes, provider.id, options);
+    const cached = cacheKey && !body.refresh ? await getCachedExtraction(supabase, user.id, cacheKey) : null;
+    if (cached) {
+        const result = { ...cached, metadata: { ...cached.metadata, cached: true } };
+        if (body.stream) return sendCachedStream(res, result);
+        return res.status(200).json(result);
+    }
+    const store = (result) => (cacheKey ? cacheExtraction(supabase, user.id, cacheKey, result) : undefined);
+
+    if (body.stream) {
+        return streamExtraction(req, res, provider, transcript, options, store);
+    }
+
+    try {
+        const result = await extractInChunks(provider, transcript, options);
+        await store(result);
+        res.status(200).json(result);
+    } catch (error) {
+        console.error(`[Extract] ${provider.id} extraction failed:`, error);
+        res.status(502).json({ error: 'Task extraction failed. Please try again.' });
+    }
+};
+
+/**
+ * Stream tasks back as newline-delimited JSON events while the model is still generating:
+ *   { type: 'task', index, task }  - a new task, or an update to the task at an earlier index
+ *   { type: 'done', metadata }
+ *   { type: 'error', error }
+ */
+async function streamExtraction(req, res, provider, transcript, options, store) {
+    // Stop spending quota once the user cancels or closes the tab
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    beginStream(res);
+
+    const send = (event) => {
+        if (!controller.signal.aborted) res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    try {
+        const result = await extractInChunks(
+            provider,
+            transcript,
+            { ...options, signal: controller.signal },
+            (task, index) => send({ type: 'task', index, task })
+        );
+        send({ type: 'done', metadata: result.metadata });
+        // Only complete runs are cached; the client already has its tasks
+        if (!controller.signal.aborted) await store(result);
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error(`[Extract] ${provider.id} streaming extraction failed:`, error);
+            send({ type: 'error', error: 'Task extraction failed. Please try again.' });
+        }
+    }
+    res.end();
+}
+
+function beginStream(res) {
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+}
+
+/** A cached result as the same events a live stream sends */
+function sendCachedStream(res, result) {
+    beginStream(res);
+    result.tasks.forEach((task, index) => res.write(`${JSON.stringify({ type: 'task', index, task })}\n`));
+    res.write(`${JSON.stringify({ type: 'done', metadata: result.metadata })}\n`);
+    res.end();
+}
@@ -0,0 +1,52 @@
+/**
+ * Supabase JWT verification for serverless functions
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+class AuthError extends Error {
+    constructor(message, status = 401) {
+        super(message);
+        this.name = 'AuthError';
+        this.status = status;
+    }
+}
+
+function getBearerToken(req) {
+    const header = req.headers.authorization || req.headers.Authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
+
+/**
+ * Resolve the Supabase user behind the request's `Authorization: Bearer <jwt>` header.
+ * Throws AuthError when the token is missing, expired or forged.
+ */
+async function verifyRequestUser(req) {
+    if (!supabaseUrl || !supabaseAnonKey) {
+        throw new AuthError('Missing Supabase environment variables', 500);
+    }
+
+    const token = getBearerToken(req);
+    if (!token) {
+        throw new AuthError('Missing bearer token');
+    }
+
+    // Scope the client to the caller so any follow-up queries run under their RLS policies
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: `Bearer ${token}` } },
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data?.user) {
+        throw new AuthError('Invalid or expired session');
+    }
+
+    return { user: data.user, supabase };
+}
+
+module.exports = { verifyRequestUser, AuthError };
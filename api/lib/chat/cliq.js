@@ -0,0 +1,45 @@
+/**
+ * Zoho Cliq adapter. Cliq's own routes (api/cliq.js) add subcommands, card buttons and forms
+ * on top; this covers the parts every platform shares.
+ */
+
+const { verifyCliqRequest } = require('../cliq/verify');
+const { extractionCard, textMessage, errorCard, linkChannelNote } = require('../cliq/cards');
+const { APP_URL } = require('./command');
+
+function parseCommand(body) {
+    const user = body.user || {};
+    const chat = body.chat || {};
+    return {
+        platform: 'cliq',
+        text: body.arguments || '',
+        user: {
+            id: user.id ? String(user.id) : null,
+            name: [user.first_name, user.last_name].filter(Boolean).join(' ') || user.name || null,
+            email: user.email || null,
+        },
+        channel: { id: chat.id || null, name: chat.title || null },
+    };
+}
+
+/**
+ * Read-only card; in a channel linked to a team, api/lib/cliq/handlers.js sends one with buttons instead
+ */
+function renderTasks(tasks, command) {
+    const note = command.channel.id
+        ? linkChannelNote(command.channel.id)
+        : `[Review and create in Zoho Projects](${APP_URL}/teams)`;
+    return extractionCard(tasks, { note });
+}
+
+module.exports = {
+    name: 'cliq',
+    label: 'Cliq',
+    usage: '/meetingmind <notes>',
+    verify: (req) => verifyCliqRequest(req),
+    parseBody: (rawBody) => JSON.parse(rawBody || '{}'),
+    parseCommand,
+    renderTasks,
+    renderText: textMessage,
+    renderError: errorCard,
+};
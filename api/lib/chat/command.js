@@ -0,0 +1,58 @@
+/**
+ * Platform-neutral slash commands. Each adapter (./slack, ./msteams, ./cliq) turns its platform's
+ * payload into a ChatCommand and renders the reply in that platform's message format.
+ */
+
+const { mockExtractTasks } = require('@meetingmind/extraction');
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+
+const PRIORITY_ICONS = { high: '🔴', medium: '🟡', low: '⚪' };
+
+/**
+ * @typedef {Object} ChatCommand
+ * @property {'cliq' | 'slack' | 'msteams'} platform
+ * @property {string} text - the command's arguments, i.e. the meeting notes
+ * @property {{ id: string | null, name: string | null, email: string | null }} user
+ * @property {{ id: string | null, name: string | null }} channel
+ */
+
+/**
+ * @typedef {Object} ChatAdapter
+ * @property {string} name
+ * @property {string} label - for logs
+ * @property {string} usage - how to invoke the command on this platform
+ * @property {(req: object, rawBody: string) => ({ ok: true } | { ok: false, reason: string })} verify
+ * @property {(rawBody: string) => object} parseBody
+ * @property {(body: object) => ChatCommand} parseCommand
+ * @property {(tasks: object[], command: ChatCommand) => object} renderTasks
+ * @property {(text: string) => object} renderText
+ * @property {(text: string) => object} renderError
+ */
+
+/**
+ * Extract tasks from a command's notes
+ * @returns {{ tasks: object[] } | { message: string }} the tasks, or a message to reply with instead
+ */
+function extractCommandTasks(command, usage) {
+    const notes = command.text.trim();
+    if (!notes) {
+        return { message: `Please provide meeting notes to extract tasks from. Usage: \`${usage}\`` };
+    }
+
+    const { tasks } = mockExtractTasks(notes);
+    if (tasks.length === 0) {
+        return { message: 'No action items found in those notes.' };
+    }
+    return { tasks };
+}
+
+/**
+ * Run a parsed command and render the reply with the adapter
+ */
+async function runCommand(adapter, command) {
+    const result = extractCommandTasks(command, adapter.usage);
+    return result.message ? adapter.renderText(result.message) : adapter.renderTasks(result.tasks, command);
+}
+
+module.exports = { extractCommandTasks, runCommand, APP_URL, PRIORITY_ICONS };
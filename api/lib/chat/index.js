@@ -0,0 +1,60 @@
+/**
+ * Chat platform adapters for the /meetingmind command
+ */
+
+const { runCommand, extractCommandTasks } = require('./command');
+const slack = require('./slack');
+const msteams = require('./msteams');
+const cliq = require('./cliq');
+
+const ADAPTERS = { slack, msteams, cliq };
+
+/**
+ * The unparsed request body, which Slack and Teams signatures are computed over.
+ * Express servers keep it as `req.rawBody` (see cliq-extension/server.js). @vercel/node
+ * reads the body before the handler runs and replays it to `data` and `end` listeners,
+ * so the stream still yields the bytes the platform signed.
+ */
+function readRawBody(req) {
+    if (req.rawBody !== undefined) {
+        return Promise.resolve(Buffer.isBuffer(req.rawBody) ? req.rawBody.toString('utf8') : String(req.rawBody));
+    }
+    return new Promise((resolve, reject) => {
+        const chunks = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Verify, parse and answer a slash command with the given adapter
+ */
+async function handleChatRequest(adapter, req, res) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const rawBody = await readRawBody(req);
+    const verification = adapter.verify(req, rawBody);
+    if (!verification.ok) {
+        return res.status(401).json(adapter.renderError(verification.reason));
+    }
+
+    let command;
+    try {
+        command = adapter.parseCommand(adapter.parseBody(rawBody));
+    } catch (error) {
+        return res.status(400).json(adapter.renderError('The request body could not be read.'));
+    }
+
+    try {
+        res.status(200).json(await runCommand(adapter, command));
+    } catch (error) {
+        console.error(`[${adapter.label}] Request failed:`, error);
+        res.status(200).json(adapter.renderText('⚠️ Something went wrong while handling that. Please try again.'));
+    }
+}
+
+module.exports = { ADAPTERS, handleChatRequest, runCommand, extractCommandTasks, readRawBody };
@@ -0,0 +1,112 @@
+/**
+ * Microsoft Teams outgoing webhook adapter: @mentioning the webhook in a channel posts a
+ * message activity, signed with the webhook's security token; the reply is an Adaptive Card.
+ * https://learn.microsoft.com/microsoftteams/platform/webhooks-and-connectors/how-to/add-outgoing-webhook
+ */
+
+const crypto = require('crypto');
+const { tokensMatch } = require('../secrets');
+const { APP_URL } = require('./command');
+
+const CARD_COLORS = { high: 'attention', medium: 'warning', low: 'default' };
+
+const ENTITIES = { '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+/**
+ * Teams sends the message as HTML, starting with the webhook's <at> mention
+ */
+function toPlainText(html) {
+    return String(html || '')
+        .replace(/<at>.*?<\/at>/gi, '')
+        .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => ENTITIES[entity])
+        .trim();
+}
+
+function verify(req, rawBody) {
+    const secret = process.env.MSTEAMS_WEBHOOK_SECRET;
+    if (!secret) {
+        console.error('[Teams] MSTEAMS_WEBHOOK_SECRET is not set; rejecting request');
+        return { ok: false, reason: 'This MeetingMind server is not configured to accept Microsoft Teams requests yet.' };
+    }
+
+    // Authorization: HMAC <base64 HMAC-SHA256 of the body, keyed with the base64-decoded token>
+    const header = req.headers.authorization || '';
+    const signature = header.match(/^HMAC\s+(.+)$/i)?.[1];
+    const expected = crypto.createHmac('sha256', Buffer.from(secret, 'base64')).update(rawBody, 'utf8').digest('base64');
+    if (!tokensMatch(signature, expected)) {
+        return { ok: false, reason: 'This request could not be verified as coming from Microsoft Teams.' };
+    }
+
+    return { ok: true };
+}
+
+const parseBody = (rawBody) => JSON.parse(rawBody || '{}');
+
+function parseCommand(activity) {
+    const from = activity.from || {};
+    const channel = (activity.channelData && activity.channelData.channel) || {};
+    return {
+        platform: 'msteams',
+        text: toPlainText(activity.text),
+        user: { id: from.aadObjectId || from.id || null, name: from.name || null, email: null },
+        channel: { id: channel.id || (activity.conversation && activity.conversation.id) || null, name: channel.name || null },
+    };
+}
+
+const adaptiveCard = (body, actions = []) => ({
+    type: 'message',
+    attachments: [
+        {
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: {
+                $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                type: 'AdaptiveCard',
+                version: '1.4',
+                body,
+                actions,
+            },
+        },
+    ],
+});
+
+function renderTasks(tasks) {
+    return adaptiveCard(
+        [
+            { type: 'TextBlock', text: '📝 Extracted Tasks', size: 'Large', weight: 'Bolder' },
+            ...tasks.map(task => ({
+                type: 'Container',
+                separator: true,
+                items: [
+                    { type: 'TextBlock', text: task.title, weight: 'Bolder', wrap: true, color: CARD_COLORS[task.priority] || 'default' },
+                    {
+                        type: 'FactSet',
+                        facts: [
+                            { title: 'Assignee', value: task.assignee || 'Unassigned' },
+                            { title: 'Due', value: task.dueDate || 'No date' },
+                            { title: 'Priority', value: task.priority || 'low' },
+                        ],
+                    },
+                ],
+            })),
+        ],
+        [{ type: 'Action.OpenUrl', title: 'Review and create in MeetingMind', url: `${APP_URL}/teams` }],
+    );
+}
+
+const renderText = (text) => ({ type: 'message', text });
+
+const renderError = (text) => renderText(`⚠️ ${text}`);
+
+module.exports = {
+    name: 'msteams',
+    label: 'Teams',
+    usage: '@MeetingMind <notes>',
+    verify,
+    parseBody,
+    parseCommand,
+    renderTasks,
+    renderText,
+    renderError,
+};
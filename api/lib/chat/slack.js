@@ -0,0 +1,85 @@
+/**
+ * Slack slash command adapter: signed form posts in, Block Kit out.
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+
+const crypto = require('crypto');
+const { tokensMatch } = require('../secrets');
+const { APP_URL, PRIORITY_ICONS } = require('./command');
+
+// Slack recommends rejecting requests older than five minutes to stop replays
+const MAX_AGE_SECONDS = 5 * 60;
+
+// Slack mrkdwn treats these as control characters
+const escape = (text) => String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function verify(req, rawBody) {
+    const secret = process.env.SLACK_SIGNING_SECRET;
+    if (!secret) {
+        console.error('[Slack] SLACK_SIGNING_SECRET is not set; rejecting request');
+        return { ok: false, reason: 'This MeetingMind server is not configured to accept Slack requests yet.' };
+    }
+
+    const timestamp = Number(req.headers['x-slack-request-timestamp']);
+    if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > MAX_AGE_SECONDS) {
+        return { ok: false, reason: 'This request has expired. Please run the command again.' };
+    }
+
+    const expected = `v0=${crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${rawBody}`).digest('hex')}`;
+    if (!tokensMatch(req.headers['x-slack-signature'], expected)) {
+        return { ok: false, reason: 'This request could not be verified as coming from Slack.' };
+    }
+
+    return { ok: true };
+}
+
+const parseBody = (rawBody) => Object.fromEntries(new URLSearchParams(rawBody));
+
+function parseCommand(body) {
+    return {
+        platform: 'slack',
+        text: body.text || '',
+        user: { id: body.user_id || null, name: body.user_name || null, email: null },
+        channel: { id: body.channel_id || null, name: body.channel_name || null },
+    };
+}
+
+function renderTasks(tasks) {
+    return {
+        response_type: 'in_channel',
+        text: `Extracted ${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`,
+        blocks: [
+            { type: 'header', text: { type: 'plain_text', text: '📝 Extracted Tasks' } },
+            ...tasks.map(task => ({
+                type: 'section',
+                text: {
+                    type: 'mrkdwn',
+                    text: `${PRIORITY_ICONS[task.priority] || PRIORITY_ICONS.low} *${escape(task.title)}*\n`
+                        + `👤 ${escape(task.assignee || 'Unassigned')} | 📅 ${task.dueDate || 'No date'}`,
+                },
+            })),
+            { type: 'divider' },
+            {
+                type: 'context',
+                elements: [{ type: 'mrkdwn', text: `<${APP_URL}/teams|Review and create in MeetingMind>` }],
+            },
+        ],
+    };
+}
+
+// Only the caller sees plain replies and errors
+const renderText = (text) => ({ response_type: 'ephemeral', text });
+
+const renderError = (text) => renderText(`⚠️ ${text}`);
+
+module.exports = {
+    name: 'slack',
+    label: 'Slack',
+    usage: '/meetingmind <notes>',
+    verify,
+    parseBody,
+    parseCommand,
+    renderTasks,
+    renderText,
+    renderError,
+};
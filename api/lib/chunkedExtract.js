@@ -0,0 +1,65 @@
+/**
+ * Chunked extraction
+ *
+ * Long transcripts overflow the model's output cap in a single call, so they are
+ * split on speaker turns, extracted chunk by chunk, and merged back into one list.
+ */
+
+const { splitTranscript, parseTranscript, addTask } = require('@meetingmind/extraction');
+
+const MAX_CHUNK_CHARS = parseInt(process.env.EXTRACTION_CHUNK_CHARS, 10) || undefined;
+
+/**
+ * Run `provider.extract` over each chunk of the transcript and merge the results.
+ * Chunks are runs of whole lines, so each is parsed into the same turns it held in the full transcript.
+ * Similar tasks from different chunks are folded together, keeping every chunk's sourceText as evidence.
+ *
+ * With `onTask`, tasks are reported as they stream in as (task, index). A later chunk can
+ * report an index again when it folds new evidence or fields into an earlier task.
+ *
+ * @param {import('./providers').ExtractionProvider} provider
+ * @param {import('@meetingmind/extraction').Transcript} transcript
+ * @param {import('./providers').ExtractOptions} options
+ * @param {(task: Object, index: number) => void} [onTask]
+ */
+async function extractInChunks(provider, transcript, options, onTask) {
+    const chunks = splitTranscript(transcript.text, { maxChars: MAX_CHUNK_CHARS });
+    if (chunks.length === 1) {
+        let count = 0;
+        return provider.extract(transcript, {
+            ...options,
+            onTask: onTask && (task => onTask(task, count++)),
+        });
+    }
+
+    const merged = [];
+    const fold = (task) => {
+        const { index } = addTask(merged, task);
+        if (onTask) onTask(merged[index], index);
+    };
+
+    // Sequential on purpose: parallel calls burn through per-minute quota on free tiers
+    const results = [];
+    for (const chunk of chunks) {
+        const result = await provider.extract(parseTranscript(chunk), { ...options, onTask: onTask && fold });
+        if (!onTask) result.tasks.forEach(fold);
+        results.push(result);
+    }
+
+    const validationErrors = results.flatMap((result, i) =>
+        (result.metadata.validationErrors || []).map(error => `Chunk ${i + 1}: ${error}`)
+    );
+
+    return {
+        tasks: merged,
+        metadata: {
+            ...results[0].metadata,
+            processedAt: new Date().toISOString(),
+            transcriptLength: transcript.text.length,
+            chunks: chunks.length,
+            validationErrors,
+        },
+    };
+}
+
+module.exports = { extractInChunks };
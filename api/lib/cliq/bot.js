@@ -0,0 +1,51 @@
+/**
+ * Outbound messages from the MeetingMind bot to Cliq chats (digests and reminders).
+ * Authenticates with a Cliq webhook token (zapikey) created by the bot's owner.
+ */
+
+class CliqApiError extends Error {
+    constructor(message, status, body) {
+        super(message);
+        this.name = 'CliqApiError';
+        this.status = status;
+        this.body = body;
+    }
+}
+
+function getCliqBotConfig() {
+    return {
+        // Other data centres: https://cliq.zoho.eu/api/v2, https://cliq.zoho.in/api/v2, ...
+        apiUrl: (process.env.CLIQ_API_URL || 'https://cliq.zoho.com/api/v2').replace(/\/+$/, ''),
+        botName: process.env.CLIQ_BOT_NAME,
+        token: process.env.CLIQ_BOT_TOKEN,
+    };
+}
+
+const isBotConfigured = () => {
+    const { botName, token } = getCliqBotConfig();
+    return Boolean(botName && token);
+};
+
+/**
+ * Post a message (text plus optional card and slides) to a chat as the bot
+ */
+async function postToChat(chatId, message) {
+    const { apiUrl, botName, token } = getCliqBotConfig();
+    if (!botName || !token) {
+        throw new Error('CLIQ_BOT_NAME and CLIQ_BOT_TOKEN environment variables must be set');
+    }
+
+    const query = new URLSearchParams({ bot_unique_name: botName, zapikey: token });
+    const response = await fetch(`${apiUrl}/chats/${encodeURIComponent(chatId)}/message?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new CliqApiError(body.message || `Cliq request failed with status ${response.status}`, response.status, body);
+    }
+}
+
+module.exports = { postToChat, isBotConfigured, getCliqBotConfig, CliqApiError };
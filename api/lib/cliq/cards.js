@@ -0,0 +1,331 @@
+/**
+ * Zoho Cliq message, card and form payloads for /meetingmind
+ */
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+const THUMBNAIL = 'https://www.zoho.com/sites/default/files/cliq/images/extensions/default-extension-icon.png';
+
+// Extension functions (plugin-manifest.json) that forward button clicks and form submits to /cliq/action and /cliq/form
+const ACTION_FUNCTION = 'meetingmindaction';
+const FORM_FUNCTION = 'meetingmindform';
+
+const PRIORITY_ICONS = { high: '🔴', medium: '🟡', low: '⚪' };
+
+const button = (label, type, key) => ({
+    label,
+    type,
+    key,
+    action: { type: 'invoke.function', data: { name: ACTION_FUNCTION } },
+});
+
+// Button keys carry the action, extraction and row: "create:<extractionId>:<index>"
+const actionKey = (action, extractionId, index) => `${action}:${extractionId}:${index}`;
+
+function parseActionKey(key) {
+    const [action, extractionId, index] = String(key || '').split(':');
+    if (!action || !extractionId || !/^\d+$/.test(index || '')) return null;
+    return { action, extractionId, index: Number(index) };
+}
+
+function describeTask(task) {
+    const details = [
+        task.assignee ? `👤 ${task.assignee}` : '👤 Unassigned',
+        task.dueDate ? `📅 ${task.dueDate}` : '📅 No date',
+    ];
+    if (task.status === 'creating') details.push('⏳ Creating');
+    if (task.status === 'created') details.push('✅ Created');
+    if (task.status === 'discarded') details.push('🗑️ Discarded');
+    return details.join(' | ');
+}
+
+/**
+ * Card listing extracted tasks. With an extraction ID, pending rows get
+ * Create task / Change assignee / Set due date / Discard buttons.
+ *
+ * @param {Object[]} tasks - extracted tasks, optionally with status/taskId from cliq_extractions
+ * @param {{ extractionId?: string, note?: string }} [options]
+ */
+function extractionCard(tasks, { extractionId, note } = {}) {
+    const taskList = tasks.map(t => {
+        const icon = PRIORITY_ICONS[t.priority] || PRIORITY_ICONS.low;
+        const title = t.status === 'discarded' ? `~${t.title}~` : `*${t.title}*`;
+        return `${icon} ${title}\n${describeTask(t)}`;
+    }).join('\n\n');
+
+    return {
+        text: `### 📝 Extracted Tasks\n\n${taskList}${note ? `\n\n${note}` : ''}`,
+        card: {
+            title: 'MeetingMind AI - Extracted Tasks',
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+        slides: tasks.map((t, index) => ({
+            type: 'text',
+            title: `${PRIORITY_ICONS[t.priority] || PRIORITY_ICONS.low} ${t.title}`,
+            data: describeTask(t),
+            buttons: extractionId && (t.status || 'pending') === 'pending'
+                ? [
+                    button('Create task', '+', actionKey('create', extractionId, index)),
+                    button('Change assignee', '+', actionKey('assign', extractionId, index)),
+                    button('Set due date', '+', actionKey('due', extractionId, index)),
+                    button('Discard', '-', actionKey('discard', extractionId, index)),
+                ]
+                : [],
+        })),
+    };
+}
+
+function assigneeForm(extractionId, index, task, members) {
+    return {
+        type: 'form',
+        title: 'Change assignee',
+        name: 'assign',
+        hint: task.title,
+        button_label: 'Assign',
+        inputs: [
+            {
+                type: 'select',
+                name: 'assignee',
+                label: 'Assignee',
+                placeholder: 'Pick a team member',
+                mandatory: true,
+                options: members.map(m => ({ label: m.name, value: m.user_id })),
+            },
+            { type: 'hidden', name: 'key', value: actionKey('assign', extractionId, index) },
+        ],
+        action: { type: 'invoke.function', name: FORM_FUNCTION },
+    };
+}
+
+function dueDateForm(extractionId, index, task) {
+    return {
+        type: 'form',
+        title: 'Set due date',
+        name: 'due',
+        hint: task.title,
+        button_label: 'Save',
+        inputs: [
+            { type: 'date', name: 'due_date', label: 'Due date', mandatory: true, value: task.dueDate || undefined },
+            { type: 'hidden', name: 'key', value: actionKey('due', extractionId, index) },
+        ],
+        action: { type: 'invoke.function', name: FORM_FUNCTION },
+    };
+}
+
+const STATUS_LABELS = { pending: 'Pending', 'in-progress': 'In progress', completed: 'Completed', deleted: 'Deleted' };
+
+// Commands refer to tasks by the first characters of their ID
+const shortId = (taskId) => String(taskId).slice(0, 8);
+
+const taskTitle = (task) => task.title || task.description || 'Untitled task';
+
+/**
+ * `/meetingmind tasks` - the caller's open tasks as a table
+ */
+function myTasksCard(tasks, { teamName } = {}) {
+    const scope = teamName ? ` in ${teamName}` : '';
+    if (tasks.length === 0) {
+        return { text: `🎉 You have no open tasks${scope}.` };
+    }
+
+    return {
+        text: `You have ${tasks.length} open ${tasks.length === 1 ? 'task' : 'tasks'}${scope}. Complete one with \`/meetingmind done <id>\`.`,
+        card: {
+            title: `My open tasks${scope}`,
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+        slides: [
+            {
+                type: 'table',
+                title: '',
+                data: {
+                    headers: ['ID', 'Task', 'Status', 'Due'],
+                    rows: tasks.map(t => ({
+                        ID: shortId(t.id),
+                        Task: `${PRIORITY_ICONS[t.priority] || PRIORITY_ICONS.low} ${taskTitle(t)}`,
+                        Status: STATUS_LABELS[t.status] || t.status,
+                        Due: t.due_date || '-',
+                    })),
+                },
+            },
+        ],
+    };
+}
+
+/**
+ * `/meetingmind done` and `/meetingmind assign` - one task after the change
+ */
+function taskUpdatedCard(title, task, note) {
+    return {
+        text: note,
+        card: {
+            title,
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+        slides: [
+            {
+                type: 'label',
+                title: taskTitle(task),
+                data: [
+                    { ID: shortId(task.id) },
+                    { Status: STATUS_LABELS[task.status] || task.status },
+                    { Assignee: task.assigned_to_name || 'Unassigned' },
+                    { Due: task.due_date || '-' },
+                ],
+            },
+        ],
+    };
+}
+
+/**
+ * `/meetingmind team` - the caller's teams, marking the default one
+ */
+function teamsCard(teams, defaultTeamId, note) {
+    return {
+        text: note,
+        card: {
+            title: 'Your MeetingMind teams',
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+        slides: [
+            {
+                type: 'list',
+                title: 'Switch with `/meetingmind team <name>`',
+                data: teams.map(t => (t.id === defaultTeamId ? `*${t.name}* (default)` : t.name)),
+            },
+        ],
+    };
+}
+
+function helpCard() {
+    return {
+        text: [
+            '`/meetingmind <notes>` - extract tasks from meeting notes',
+            '`/meetingmind tasks` - list your open tasks',
+            '`/meetingmind done <id>` - complete one of your tasks',
+            '`/meetingmind assign <id> @user` - reassign a task',
+            '`/meetingmind team <name>` - set your default team',
+            '`/meetingmind link <code>` / `unlink` - connect your MeetingMind account',
+        ].join('\n'),
+        card: {
+            title: 'MeetingMind AI - Commands',
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+    };
+}
+
+/**
+ * Daily digest: open tasks per member, plus overdue tasks with their assignees mentioned
+ * @param {{ name: string, pending: number, inProgress: number }[]} members
+ * @param {{ mention: string, title: string, dueDate: string }[]} overdue
+ */
+function dailyDigestCard(teamName, members, overdue) {
+    const lines = [`Good morning! Here is where *${teamName}* stands today.`];
+    if (overdue.length > 0) {
+        lines.push('', `⏰ *${overdue.length} overdue:*`);
+        overdue.forEach(o => lines.push(`${o.mention} - "${o.title}" was due ${o.dueDate}`));
+    }
+    lines.push('', `[Open the team board](${APP_URL}/teams)`);
+
+    return {
+        text: lines.join('\n'),
+        card: {
+            title: `MeetingMind AI - Daily digest for ${teamName}`,
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+        slides: members.length === 0 ? [] : [
+            {
+                type: 'table',
+                title: 'Open tasks',
+                data: {
+                    headers: ['Member', 'Pending', 'In progress'],
+                    rows: members.map(m => ({ Member: m.name, Pending: String(m.pending), 'In progress': String(m.inProgress) })),
+                },
+            },
+        ],
+    };
+}
+
+/**
+ * Weekly summary built on the team's task stats
+ * @param {{ total: number, pending: number, inProgress: number, completed: number }} stats
+ * @param {{ name: string, completed: number }[]} completers - members who completed tasks this week, most first
+ */
+function weeklySummaryCard(teamName, stats, completedThisWeek, completers) {
+    const rate = stats.total > 0 ? Math.round((stats.completed / stats.total) * 100) : 0;
+    const slides = [
+        {
+            type: 'label',
+            title: 'This week',
+            data: [
+                { 'Completed this week': String(completedThisWeek) },
+                { Pending: String(stats.pending) },
+                { 'In progress': String(stats.inProgress) },
+                { 'Completed overall': `${stats.completed} of ${stats.total} (${rate}%)` },
+            ],
+        },
+    ];
+    if (completers.length > 0) {
+        slides.push({
+            type: 'list',
+            title: 'Completed by',
+            data: completers.map(c => `${c.name}: ${c.completed}`),
+        });
+    }
+
+    return {
+        text: completedThisWeek > 0
+            ? `🎉 *${teamName}* completed ${completedThisWeek} ${completedThisWeek === 1 ? 'task' : 'tasks'} this week.`
+            : `*${teamName}* did not complete any tasks this week.`,
+        card: {
+            title: `MeetingMind AI - Weekly summary for ${teamName}`,
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+        slides,
+    };
+}
+
+const textMessage = (text) => ({ text });
+
+function errorCard(text) {
+    return {
+        text: `⚠️ ${text}`,
+        card: {
+            title: 'MeetingMind AI - Request rejected',
+            theme: 'modern-inline',
+            thumbnail: THUMBNAIL,
+        },
+    };
+}
+
+const linkAccountNote = () =>
+    `Link your MeetingMind account first: open [Account Settings](${APP_URL}/profile) > Connected Apps, create a code and send \`/meetingmind link <code>\` here.`;
+
+const linkChannelNote = (chatId) =>
+    `_To create these tasks from chat, link this channel to a team: in MeetingMind open your team dashboard > Cliq Channels and add \`${chatId}\`._\n[Open MeetingMind](${APP_URL}/teams)`;
+
+module.exports = {
+    extractionCard,
+    myTasksCard,
+    taskUpdatedCard,
+    teamsCard,
+    helpCard,
+    dailyDigestCard,
+    weeklySummaryCard,
+    shortId,
+    taskTitle,
+    assigneeForm,
+    dueDateForm,
+    textMessage,
+    errorCard,
+    linkChannelNote,
+    linkAccountNote,
+    parseActionKey,
+    APP_URL,
+};
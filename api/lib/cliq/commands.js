@@ -0,0 +1,199 @@
+/**
+ * /meetingmind subcommands: tasks, done, assign, team, help, link and unlink.
+ * Anything that doesn't match one is treated as meeting notes to extract.
+ */
+
+const { getAdminClient } = require('../supabaseAdmin');
+const { getTasks, updateTask, updateTaskStatus, getAssignableMembers, matchMember } = require('../tasksService');
+const { getUserTeams } = require('../teamsService');
+const { redeemLinkCode, getLinkedUser, setDefaultTeam, unlinkCliqUser } = require('./store');
+const {
+    myTasksCard,
+    taskUpdatedCard,
+    teamsCard,
+    helpCard,
+    textMessage,
+    linkAccountNote,
+    shortId,
+    taskTitle,
+    APP_URL,
+} = require('./cards');
+
+const OPEN_STATUSES = ['pending', 'in-progress'];
+const MIN_ID_PREFIX = 4;
+// Codes as CliqService.createLinkCode makes them: 8 of A-Z and 2-9 without I, O, 0 or 1, in
+// capitals, so notes like "link backend" or "link payments" are not taken for a code
+const LINK_CODE = /^link\s+([A-HJ-NP-Z2-9]{8})$/;
+
+/**
+ * `/meetingmind link <code>` - link the Cliq user to the MeetingMind user who created the code
+ */
+async function handleLink(body, [code]) {
+    if (!body.user || !body.user.id) {
+        return textMessage('Cliq did not say who sent this command, so it cannot be linked.');
+    }
+    const name = await redeemLinkCode(code, body.user);
+    if (!name) {
+        return textMessage(`That code is invalid or has expired. Create a new one in [Account Settings](${APP_URL}/profile).`);
+    }
+    return textMessage(`🔗 Linked! Your MeetingMind commands now act as *${name}*.`);
+}
+
+async function handleUnlink(body) {
+    const removed = body.user && body.user.id ? await unlinkCliqUser(body.user) : false;
+    return textMessage(removed ? 'Your Cliq account is no longer linked to MeetingMind.' : 'Your Cliq account was not linked.');
+}
+
+/**
+ * The default team, if the user still belongs to it
+ */
+async function getDefaultTeam(actor) {
+    if (!actor.default_team_id) return null;
+    const teams = await getUserTeams(getAdminClient(), actor.user_id);
+    return teams.find(t => t.id === actor.default_team_id) || null;
+}
+
+/**
+ * Find a task by ID prefix among the candidates; errors when none or several match
+ */
+function findTask(candidates, idPrefix) {
+    const prefix = idPrefix.toLowerCase();
+    if (prefix.length < MIN_ID_PREFIX) {
+        return { error: `Use at least ${MIN_ID_PREFIX} characters of the task ID, as shown by \`/meetingmind tasks\`.` };
+    }
+    const matches = candidates.filter(t => t.id.toLowerCase().startsWith(prefix));
+    if (matches.length === 0) {
+        return { error: `None of your tasks has ID \`${idPrefix}\`. Run \`/meetingmind tasks\` to see them.` };
+    }
+    if (matches.length > 1) {
+        return { error: `\`${idPrefix}\` matches ${matches.length} tasks; use more of the ID.` };
+    }
+    return { task: matches[0] };
+}
+
+/**
+ * `/meetingmind tasks` - open tasks assigned to me, in my default team if I have one
+ */
+async function listMyTasks(body, args, actor) {
+    const team = await getDefaultTeam(actor);
+    const tasks = await getTasks(getAdminClient(), {
+        userId: actor.user_id,
+        teamId: team ? team.id : undefined,
+        status: OPEN_STATUSES,
+    });
+    return myTasksCard(tasks, { teamName: team ? team.name : undefined });
+}
+
+/**
+ * `/meetingmind done <id>` - complete one of my tasks
+ */
+async function completeTask(body, [idPrefix], actor) {
+    const mine = await getTasks(getAdminClient(), { userId: actor.user_id, status: OPEN_STATUSES });
+    const { task, error } = findTask(mine, idPrefix);
+    if (error) return textMessage(error);
+
+    const updated = await updateTaskStatus(getAdminClient(), task.id, 'completed');
+    const note = updated.status === 'completed'
+        ? `✅ Completed "${taskTitle(task)}".`
+        : `"${taskTitle(task)}" was changed more recently in Zoho Projects, so it stays ${updated.status}.`;
+    return taskUpdatedCard('Task completed', updated, note);
+}
+
+/**
+ * Who `@user` refers to: Cliq's resolved mention (linked account, then email), or the typed name
+ */
+async function resolveAssignee(body, members, typed) {
+    const mention = (body.mentions || []).find(m => !m.type || m.type === 'user');
+    if (mention) {
+        const linked = await getLinkedUser(mention);
+        const byLink = linked && members.find(m => m.user_id === linked.user_id);
+        if (byLink) return byLink;
+        const email = String(mention.email || '').toLowerCase();
+        const byEmail = email && members.find(m => String(m.email || '').toLowerCase() === email);
+        if (byEmail) return byEmail;
+    }
+    return matchMember(members, typed.replace(/^@/, '').replace(/^\{@.*\}$/, '').trim());
+}
+
+/**
+ * `/meetingmind assign <id> @user` - reassign a task I'm assigned or a task in a team I own
+ */
+async function reassignTask(body, [idPrefix, assignee], actor) {
+    const admin = getAdminClient();
+    const owned = (await getUserTeams(admin, actor.user_id)).filter(t => t.created_by === actor.user_id);
+    const [mine, ...teamTasks] = await Promise.all([
+        getTasks(admin, { userId: actor.user_id, status: OPEN_STATUSES }),
+        ...owned.map(team => getTasks(admin, { teamId: team.id, status: OPEN_STATUSES })),
+    ]);
+    const candidates = [...new Map([...mine, ...teamTasks.flat()].map(t => [t.id, t])).values()];
+
+    const { task, error } = findTask(candidates, idPrefix);
+    if (error) return textMessage(error);
+
+    const members = await getAssignableMembers(admin, task.team_id);
+    const member = await resolveAssignee(body, members, assignee);
+    if (!member) {
+        return textMessage(`No one in that team matches ${assignee}. Members: ${members.map(m => m.name).join(', ')}.`);
+    }
+
+    const updated = await updateTask(admin, task.id, {
+        assigned_to: member.user_id,
+        assigned_to_name: member.name,
+        unassigned_reason: null,
+    });
+    return taskUpdatedCard('Task reassigned', updated, `👤 "${taskTitle(task)}" (\`${shortId(task.id)}\`) is now assigned to ${member.name}.`);
+}
+
+/**
+ * `/meetingmind team [name]` - show my teams, or set the one commands default to
+ */
+async function switchTeam(body, [name], actor) {
+    const teams = await getUserTeams(getAdminClient(), actor.user_id);
+    if (teams.length === 0) {
+        return textMessage(`You are not in any MeetingMind team yet. [Open MeetingMind](${APP_URL}/teams)`);
+    }
+    if (!name) {
+        return teamsCard(teams, actor.default_team_id, 'Your teams:');
+    }
+
+    const wanted = name.trim().toLowerCase();
+    const exact = teams.filter(t => t.name.toLowerCase() === wanted);
+    const matches = exact.length > 0 ? exact : teams.filter(t => t.name.toLowerCase().includes(wanted));
+    if (matches.length !== 1) {
+        const problem = matches.length === 0 ? `No team matches "${name.trim()}".` : `"${name.trim()}" matches several teams.`;
+        return teamsCard(teams, actor.default_team_id, problem);
+    }
+
+    await setDefaultTeam(body.user, matches[0].id);
+    return teamsCard(teams, matches[0].id, `Commands now default to *${matches[0].name}*.`);
+}
+
+const SUBCOMMANDS = [
+    { pattern: /^help$/i, run: () => helpCard(), requiresLink: false },
+    { pattern: LINK_CODE, run: handleLink, requiresLink: false },
+    { pattern: /^unlink$/i, run: handleUnlink, requiresLink: false },
+    { pattern: /^tasks$/i, run: listMyTasks, requiresLink: true },
+    { pattern: /^done\s+(\S+)$/i, run: completeTask, requiresLink: true },
+    { pattern: /^assign\s+(\S+)\s+(.+)$/i, run: reassignTask, requiresLink: true },
+    { pattern: /^team(?:\s+(.+))?$/i, run: switchTeam, requiresLink: true },
+];
+
+/**
+ * Run the subcommand the arguments name, or return null when they are meeting notes
+ */
+async function runSubcommand(body, text) {
+    for (const { pattern, run, requiresLink } of SUBCOMMANDS) {
+        const match = text.match(pattern);
+        if (!match) continue;
+
+        const args = match.slice(1);
+        if (!requiresLink) return run(body, args);
+
+        const actor = await getLinkedUser(body.user);
+        if (!actor) return textMessage(linkAccountNote());
+        return run(body, args, actor);
+    }
+    return null;
+}
+
+module.exports = { runSubcommand };
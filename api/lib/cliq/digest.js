@@ -0,0 +1,139 @@
+/**
+ * Scheduled Cliq digests for every team with a linked channel:
+ * a daily digest of open tasks per member (mentioning owners of overdue tasks)
+ * and a weekly completion summary.
+ */
+
+const { todayIn } = require('@meetingmind/extraction');
+const { getAdminClient } = require('../supabaseAdmin');
+const { getTasks, getAssignableMembers } = require('../tasksService');
+const { getTeamStats } = require('../teamsService');
+const { getAllChannelLinks, getCliqUserIds } = require('./store');
+const { postToChat } = require('./bot');
+const { dailyDigestCard, weeklySummaryCard, taskTitle } = require('./cards');
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Cliq renders {@<user id>} as a mention; unlinked users get their name in bold
+const mention = (cliqUserId, name) => (cliqUserId ? `{@${cliqUserId}}` : `*${name}*`);
+
+/**
+ * @returns {Promise<object | null>} the message, or null when the team has no open tasks
+ */
+async function buildDailyDigest(supabase, team, now) {
+    // Overdue by the team's calendar, the one its due dates were resolved in
+    const timeZone = team.extraction_settings && team.extraction_settings.dates && team.extraction_settings.dates.timeZone;
+    const today = todayIn(timeZone || 'UTC', now);
+    const [tasks, members] = await Promise.all([
+        getTasks(supabase, { teamId: team.id, status: ['pending', 'in-progress'] }),
+        getAssignableMembers(supabase, team.id),
+    ]);
+    if (tasks.length === 0) return null;
+
+    const rows = members
+        .map(member => {
+            const mine = tasks.filter(t => t.assigned_to === member.user_id);
+            return {
+                name: member.name,
+                pending: mine.filter(t => t.status === 'pending').length,
+                inProgress: mine.filter(t => t.status === 'in-progress').length,
+            };
+        })
+        .filter(row => row.pending + row.inProgress > 0);
+
+    const unassigned = tasks.filter(t => !t.assigned_to);
+    if (unassigned.length > 0) {
+        rows.push({
+            name: 'Unassigned',
+            pending: unassigned.filter(t => t.status === 'pending').length,
+            inProgress: unassigned.filter(t => t.status === 'in-progress').length,
+        });
+    }
+
+    const overdueTasks = tasks
+        .filter(t => t.due_date && t.due_date < today)
+        .sort((a, b) => a.due_date.localeCompare(b.due_date));
+    const cliqIds = await getCliqUserIds([...new Set(overdueTasks.map(t => t.assigned_to).filter(Boolean))]);
+    const overdue = overdueTasks.map(t => ({
+        mention: t.assigned_to ? mention(cliqIds.get(t.assigned_to), t.assigned_to_name || 'Unknown') : '*Unassigned*',
+        title: taskTitle(t),
+        dueDate: t.due_date,
+    }));
+
+    return dailyDigestCard(team.name, rows, overdue);
+}
+
+/**
+ * @returns {Promise<object | null>} the message, or null when the team has no tasks at all
+ */
+async function buildWeeklySummary(supabase, team, now) {
+    const since = new Date(now.getTime() - WEEK_MS).toISOString();
+    const [stats, { data: completed, error }] = await Promise.all([
+        getTeamStats(supabase, team.id),
+        supabase
+            .from('tasks')
+            .select('assigned_to, assigned_to_name')
+            .eq('team_id', team.id)
+            .eq('status', 'completed')
+            .gte('status_updated_at', since),
+    ]);
+    if (error) throw error;
+    if (stats.total === 0) return null;
+
+    const byMember = new Map();
+    (completed || []).forEach(t => {
+        const name = t.assigned_to_name || 'Unassigned';
+        byMember.set(name, (byMember.get(name) || 0) + 1);
+    });
+    const completers = [...byMember]
+        .map(([name, count]) => ({ name, completed: count }))
+        .sort((a, b) => b.completed - a.completed);
+
+    return weeklySummaryCard(team.name, stats, (completed || []).length, completers);
+}
+
+/**
+ * Post the daily digest (or, with `weekly`, the weekly summary) to every linked channel.
+ * One team or channel failing does not stop the others.
+ * @returns {Promise<{ teamId: string, chatId: string, status: 'posted' | 'skipped' | 'failed', error?: string }[]>}
+ */
+async function sendDigests({ weekly = false, now = new Date() } = {}) {
+    const supabase = getAdminClient();
+    const links = await getAllChannelLinks();
+    const teamIds = [...new Set(links.map(l => l.team_id))];
+    if (teamIds.length === 0) return [];
+
+    const { data: teams, error } = await supabase.from('teams').select('id, name, extraction_settings').in('id', teamIds);
+    if (error) throw error;
+
+    const results = [];
+    for (const team of teams || []) {
+        const chatIds = links.filter(l => l.team_id === team.id).map(l => l.chat_id);
+
+        let message;
+        try {
+            message = weekly ? await buildWeeklySummary(supabase, team, now) : await buildDailyDigest(supabase, team, now);
+        } catch (err) {
+            console.error(`[Cliq] Failed to build digest for team ${team.id}:`, err);
+            chatIds.forEach(chatId => results.push({ teamId: team.id, chatId, status: 'failed', error: err.message }));
+            continue;
+        }
+
+        for (const chatId of chatIds) {
+            if (!message) {
+                results.push({ teamId: team.id, chatId, status: 'skipped' });
+                continue;
+            }
+            try {
+                await postToChat(chatId, message);
+                results.push({ teamId: team.id, chatId, status: 'posted' });
+            } catch (err) {
+                console.error(`[Cliq] Failed to post digest to ${chatId}:`, err);
+                results.push({ teamId: team.id, chatId, status: 'failed', error: err.message });
+            }
+        }
+    }
+    return results;
+}
+
+module.exports = { sendDigests, buildDailyDigest, buildWeeklySummary };
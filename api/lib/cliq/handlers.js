@@ -0,0 +1,202 @@
+/**
+ * /meetingmind command, card button and form handlers.
+ * Each returns the Cliq response payload; api/cliq.js routes requests to them.
+ */
+
+const { getAdminClient } = require('../supabaseAdmin');
+const { createTasks, getAssignableMembers } = require('../tasksService');
+const { getConnection, pushTasksToZoho } = require('../zoho');
+const {
+    getChannelLink,
+    saveExtraction,
+    getExtraction,
+    updateExtractionTask,
+    getLinkedUser,
+    isTeamMember,
+} = require('./store');
+const {
+    extractionCard,
+    assigneeForm,
+    dueDateForm,
+    textMessage,
+    linkAccountNote,
+    parseActionKey,
+} = require('./cards');
+const { runSubcommand } = require('./commands');
+const { extractCommandTasks } = require('../chat/command');
+const cliq = require('../chat/cliq');
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const handledNote = (task) => (task.status === 'creating'
+    ? `"${task.title}" is already being created.`
+    : `"${task.title}" was already ${task.status}.`);
+
+/**
+ * Another click got to the task first; say what became of it
+ */
+async function alreadyHandled(extraction, index) {
+    const current = await getExtraction(extraction.id);
+    return textMessage(handledNote(current.tasks[index]));
+}
+
+/**
+ * POST /cliq/command - run a subcommand (see ./commands), or extract tasks from the arguments.
+ * In a channel linked to a team the card gets action buttons; elsewhere it is read-only.
+ */
+async function handleCommand(body) {
+    const command = cliq.parseCommand(body);
+    const notes = command.text.trim();
+    if (!notes) {
+        return textMessage('Please provide meeting notes to extract tasks from. Usage: `/meetingmind <notes>`, or `/meetingmind help` for commands.');
+    }
+
+    const reply = await runSubcommand(body, notes);
+    if (reply) return reply;
+
+    const result = extractCommandTasks(command, cliq.usage);
+    if (result.message) return textMessage(result.message);
+
+    const chatId = command.channel.id;
+    // Without a database the command still works, just read-only
+    const link = await getChannelLink(chatId).catch(error => {
+        console.error('[Cliq] Failed to look up channel link:', error);
+        return null;
+    });
+    if (!link) {
+        return cliq.renderTasks(result.tasks, command);
+    }
+
+    const extraction = await saveExtraction({ chatId, teamId: link.team_id, cliqUser: body.user, notes: command.text, tasks: result.tasks });
+    return extractionCard(extraction.tasks, { extractionId: extraction.id });
+}
+
+/**
+ * Resolve a button/form key to its extraction and row, checking it belongs to this chat
+ * and that the Cliq user is linked to a member of the channel's team
+ */
+async function loadTarget(key, chat, cliqUser) {
+    const parsed = parseActionKey(key);
+    if (!parsed) return { error: 'That action is no longer valid.' };
+
+    const extraction = await getExtraction(parsed.extractionId);
+    const task = extraction && extraction.tasks[parsed.index];
+    if (!task || extraction.chat_id !== (chat && chat.id)) {
+        return { error: 'Those tasks could not be found. Run `/meetingmind` again.' };
+    }
+    if (task.status !== 'pending') {
+        return { error: handledNote(task) };
+    }
+
+    const link = await getChannelLink(extraction.chat_id);
+    if (!link || link.team_id !== extraction.team_id) {
+        return { error: 'This channel is no longer linked to the team these tasks were extracted for.' };
+    }
+
+    const actor = await getLinkedUser(cliqUser);
+    if (!actor) {
+        return { error: linkAccountNote() };
+    }
+    if (!(await isTeamMember(extraction.team_id, actor.user_id))) {
+        return { error: 'Your MeetingMind account is not a member of the team linked to this channel.' };
+    }
+
+    return { ...parsed, extraction, task, actor };
+}
+
+async function createFromChat(extraction, index, task, actor) {
+    // Claim the row before creating anything, so a second click on Create finds it taken
+    const claimed = await updateExtractionTask(extraction, index, { status: 'creating' });
+    if (!claimed) return alreadyHandled(extraction, index);
+
+    let row;
+    try {
+        [row] = await createTasks(getAdminClient(), [task], extraction.team_id, actor.user_id);
+    } catch (error) {
+        // Release the claim so the button can be tried again
+        await updateExtractionTask(extraction, index, { status: 'pending' }, 'creating').catch(releaseError => {
+            console.error('[Cliq] Failed to release the task after a failed create:', releaseError);
+        });
+        throw error;
+    }
+    const updated = await updateExtractionTask(extraction, index, { status: 'created', taskId: row.id }, 'creating');
+
+    let note = `✅ Created "${task.title}" in MeetingMind.`;
+    const connection = await getConnection(extraction.team_id).catch(() => null);
+    if (connection && connection.project_id) {
+        try {
+            const { created, errors } = await pushTasksToZoho(extraction.team_id, [row]);
+            if (created[0] && created[0].url) note += ` [Open in Zoho Projects](${created[0].url})`;
+            if (errors.length > 0) note += ` Zoho Projects: ${errors[0].error}`;
+        } catch (error) {
+            console.error('[Cliq] Failed to push task to Zoho:', error);
+            note += ' It could not be created in Zoho Projects.';
+        }
+    }
+
+    return extractionCard(updated.tasks, { extractionId: updated.id, note });
+}
+
+/**
+ * POST /cliq/action - a card button was clicked; `arguments.key` identifies it
+ */
+async function handleAction(body) {
+    const key = (body.arguments && body.arguments.key) || body.key;
+    const target = await loadTarget(key, body.chat, body.user);
+    if (target.error) return textMessage(target.error);
+
+    const { action, extraction, index, task, actor } = target;
+
+    switch (action) {
+        case 'create':
+            return createFromChat(extraction, index, task, actor);
+        case 'assign':
+            return assigneeForm(extraction.id, index, task, await getAssignableMembers(getAdminClient(), extraction.team_id));
+        case 'due':
+            return dueDateForm(extraction.id, index, task);
+        case 'discard': {
+            const updated = await updateExtractionTask(extraction, index, { status: 'discarded' });
+            if (!updated) return alreadyHandled(extraction, index);
+            return extractionCard(updated.tasks, { extractionId: updated.id, note: `🗑️ Discarded "${task.title}".` });
+        }
+        default:
+            return textMessage('That action is no longer valid.');
+    }
+}
+
+// Cliq sends select values as { label, value }
+const formValue = (value) => (value && typeof value === 'object' ? value.value : value);
+
+/**
+ * POST /cliq/form - the Change assignee or Set due date form was submitted
+ */
+async function handleForm(body) {
+    const values = (body.form && body.form.values) || {};
+    const target = await loadTarget(formValue(values.key), body.chat, body.user);
+    if (target.error) return textMessage(target.error);
+
+    const { action, extraction, index, task } = target;
+
+    if (action === 'assign') {
+        const members = await getAssignableMembers(getAdminClient(), extraction.team_id);
+        const member = members.find(m => m.user_id === formValue(values.assignee));
+        if (!member) return textMessage('Pick someone from the team.');
+
+        const updated = await updateExtractionTask(extraction, index, { assignee: member.name, assigneeId: member.user_id });
+        if (!updated) return alreadyHandled(extraction, index);
+        return extractionCard(updated.tasks, { extractionId: updated.id, note: `👤 "${task.title}" is now assigned to ${member.name}.` });
+    }
+
+    if (action === 'due') {
+        const dueDate = String(formValue(values.due_date) || '').slice(0, 10);
+        if (!DATE_ONLY.test(dueDate)) return textMessage('Please pick a valid due date.');
+
+        const updated = await updateExtractionTask(extraction, index, { dueDate });
+        if (!updated) return alreadyHandled(extraction, index);
+        return extractionCard(updated.tasks, { extractionId: updated.id, note: `📅 "${task.title}" is now due ${dueDate}.` });
+    }
+
+    return textMessage('That form is no longer valid.');
+}
+
+module.exports = { handleCommand, handleAction, handleForm };
@@ -0,0 +1,180 @@
+/**
+ * Cliq channel links and pending extractions, read and written with the service role
+ */
+
+const { getAdminClient } = require('../supabaseAdmin');
+
+async function getChannelLink(chatId) {
+    if (!chatId) return null;
+    const { data, error } = await getAdminClient()
+        .from('cliq_channel_links')
+        .select('chat_id, channel_name, team_id, linked_by')
+        .eq('chat_id', chatId)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Every linked channel, for the scheduled digests
+ */
+async function getAllChannelLinks() {
+    const { data, error } = await getAdminClient()
+        .from('cliq_channel_links')
+        .select('chat_id, channel_name, team_id');
+    if (error) throw error;
+    return data || [];
+}
+
+async function saveExtraction({ chatId, teamId, cliqUser, notes, tasks }) {
+    const { data, error } = await getAdminClient()
+        .from('cliq_extractions')
+        .insert({
+            chat_id: chatId,
+            team_id: teamId,
+            cliq_user: cliqUser || {},
+            notes,
+            tasks: tasks.map(task => ({ ...task, status: 'pending' })),
+        })
+        .select()
+        .single();
+    if (error) throw error;
+    return data;
+}
+
+async function getExtraction(extractionId) {
+    const { data, error } = await getAdminClient()
+        .from('cliq_extractions')
+        .select('*')
+        .eq('id', extractionId)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Merge changes into one task of an extraction, if the task still has `expectedStatus`.
+ * The check and the write are one statement (see update_cliq_extraction_task), so when two
+ * clicks race only one gets the updated extraction; the other gets null.
+ */
+async function updateExtractionTask(extraction, index, changes, expectedStatus = 'pending') {
+    const { data, error } = await getAdminClient()
+        .rpc('update_cliq_extraction_task', {
+            extraction_id: extraction.id,
+            task_index: index,
+            changes,
+            expected_status: expectedStatus,
+        })
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Redeem a one-time code from Account Settings, linking the Cliq user to its creator.
+ * Returns the MeetingMind user's display name, or null when the code is unknown or expired.
+ */
+async function redeemLinkCode(code, cliqUser) {
+    const admin = getAdminClient();
+    // Delete-and-return so a code is single use even when redeemed twice at once, expired or not
+    const { data: linkCode, error } = await admin
+        .from('cliq_link_codes')
+        .delete()
+        .eq('code', code.toUpperCase())
+        .select('code, user_id, expires_at')
+        .maybeSingle();
+    if (error) throw error;
+    if (!linkCode || Date.parse(linkCode.expires_at) < Date.now()) return null;
+
+    const name = [cliqUser.first_name, cliqUser.last_name].filter(Boolean).join(' ') || cliqUser.name || null;
+    const { error: linkError } = await admin
+        .from('cliq_user_links')
+        .upsert({
+            cliq_user_id: String(cliqUser.id),
+            user_id: linkCode.user_id,
+            cliq_user_name: name,
+            cliq_user_email: cliqUser.email || null,
+            linked_at: new Date().toISOString(),
+        });
+    if (linkError) throw linkError;
+
+    const { data: profile } = await admin
+        .from('user_profiles')
+        .select('full_name, username')
+        .eq('id', linkCode.user_id)
+        .maybeSingle();
+    return (profile && (profile.full_name || profile.username)) || 'your MeetingMind account';
+}
+
+/**
+ * The MeetingMind user a Cliq user is linked to
+ * @returns {Promise<{ user_id: string, default_team_id: string | null } | null>}
+ */
+async function getLinkedUser(cliqUser) {
+    if (!cliqUser || !cliqUser.id) return null;
+    const { data, error } = await getAdminClient()
+        .from('cliq_user_links')
+        .select('user_id, default_team_id')
+        .eq('cliq_user_id', String(cliqUser.id))
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+}
+
+async function setDefaultTeam(cliqUser, teamId) {
+    const { error } = await getAdminClient()
+        .from('cliq_user_links')
+        .update({ default_team_id: teamId })
+        .eq('cliq_user_id', String(cliqUser.id));
+    if (error) throw error;
+}
+
+/**
+ * Cliq user IDs of linked MeetingMind users, for @mentions
+ * @returns {Promise<Map<string, string>>} user_id -> cliq_user_id
+ */
+async function getCliqUserIds(userIds) {
+    if (userIds.length === 0) return new Map();
+    const { data, error } = await getAdminClient()
+        .from('cliq_user_links')
+        .select('cliq_user_id, user_id')
+        .in('user_id', userIds);
+    if (error) throw error;
+    return new Map((data || []).map(link => [link.user_id, link.cliq_user_id]));
+}
+
+async function unlinkCliqUser(cliqUser) {
+    const { data, error } = await getAdminClient()
+        .from('cliq_user_links')
+        .delete()
+        .eq('cliq_user_id', String(cliqUser.id))
+        .select();
+    if (error) throw error;
+    return (data || []).length > 0;
+}
+
+/**
+ * Owners and accepted members may act on a team's tasks
+ */
+async function isTeamMember(teamId, userId) {
+    const admin = getAdminClient();
+    const [{ data: team }, { data: member }] = await Promise.all([
+        admin.from('teams').select('created_by').eq('id', teamId).maybeSingle(),
+        admin.from('team_members').select('status').eq('team_id', teamId).eq('user_id', userId).maybeSingle(),
+    ]);
+    return Boolean((team && team.created_by === userId) || (member && member.status === 'accepted'));
+}
+
+module.exports = {
+    getChannelLink,
+    getAllChannelLinks,
+    saveExtraction,
+    getExtraction,
+    updateExtractionTask,
+    redeemLinkCode,
+    getLinkedUser,
+    setDefaultTeam,
+    getCliqUserIds,
+    unlinkCliqUser,
+    isTeamMember,
+};
@@ -0,0 +1,27 @@
+/**
+ * Cliq request verification.
+ * The extension's handler URLs carry CLIQ_WEBHOOK_SECRET as `?token=`; functions that forward
+ * button clicks and form submits may send it as an `X-Cliq-Token` header instead.
+ */
+
+const { tokensMatch } = require('../secrets');
+
+/**
+ * @returns {{ ok: true } | { ok: false, reason: string }}
+ */
+function verifyCliqRequest(req) {
+    const secret = process.env.CLIQ_WEBHOOK_SECRET;
+    if (!secret) {
+        console.error('[Cliq] CLIQ_WEBHOOK_SECRET is not set; rejecting request');
+        return { ok: false, reason: 'This MeetingMind server is not configured to accept Cliq requests yet.' };
+    }
+
+    const token = (req.query && req.query.token) || req.headers['x-cliq-token'];
+    if (!tokensMatch(token, secret)) {
+        return { ok: false, reason: 'This request could not be verified as coming from the MeetingMind Cliq extension.' };
+    }
+
+    return { ok: true };
+}
+
+module.exports = { verifyCliqRequest };
@@ -0,0 +1,70 @@
+/**
+ * Extraction result cache (extraction_cache table)
+ *
+ * The key hashes the notes together with everything else that shapes the result -
+ * provider, model, prompt version, team instructions and rules, team members and the
+ * meeting day - so changing any of them misses the cache instead of returning stale tasks.
+ * Cache failures are logged and never block an extraction.
+ */
+
+const crypto = require('crypto');
+const { todayIn } = require('@meetingmind/extraction');
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * @param {string} notes
+ * @param {string} providerId
+ * @param {import('./providers').ExtractOptions} options
+ */
+function extractionCacheKey(notes, providerId, options) {
+    const dates = options.dates || {};
+    const input = {
+        notes,
+        provider: providerId,
+        model: options.model,
+        promptVersion: options.promptVersion || null,
+        instructions: options.instructions || null,
+        rules: options.rules || null,
+        // Relative due dates count from this day, so "by Friday" cached last week is not reused
+        dates: { ...dates, meetingDate: dates.meetingDate || todayIn(dates.timeZone) },
+        teamMembers: (options.teamMembers || []).map(m => m.full_name || m.name || m.username || null),
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(input)).digest('hex');
+}
+
+/** @returns {Promise<{ tasks: Object[], metadata: Object } | null>} */
+async function getCachedExtraction(supabase, userId, key) {
+    const { data, error } = await supabase
+        .from('extraction_cache')
+        .select('result')
+        .eq('user_id', userId)
+        .eq('input_hash', key)
+        .gte('created_at', new Date(Date.now() - CACHE_TTL_MS).toISOString())
+        .maybeSingle();
+
+    if (error) {
+        console.error('[ExtractionCache] Lookup failed:', error);
+        return null;
+    }
+    return data?.result || null;
+}
+
+async function cacheExtraction(supabase, userId, key, result) {
+    const { error } = await supabase
+        .from('extraction_cache')
+        .upsert({ user_id: userId, input_hash: key, result, created_at: new Date().toISOString() });
+    if (error) {
+        console.error('[ExtractionCache] Store failed:', error);
+        return;
+    }
+
+    // Expired rows are only ever skipped, so clear the caller's out while we are here
+    await supabase
+        .from('extraction_cache')
+        .delete()
+        .eq('user_id', userId)
+        .lt('created_at', new Date(Date.now() - CACHE_TTL_MS).toISOString());
+}
+
+module.exports = { extractionCacheKey, getCachedExtraction, cacheExtraction };
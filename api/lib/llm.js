@@ -0,0 +1,190 @@
+/**
+ * Prompt construction and response validation shared by the LLM extraction providers
+ */
+
+const { areSimilarTasks, attributeTask, renderTranscript, reconcileDueDate, todayIn } = require('@meetingmind/extraction');
+const { validateTask, validateExtractionResponse, formatValidationErrors } = require('./taskSchema');
+const { createTaskStreamParser } = require('./taskStreamParser');
+const { renderPrompt } = require('./prompts');
+
+/**
+ * The meeting day in the team's time zone, which relative dates count from
+ * @param {import('@meetingmind/extraction').DateContext} dates
+ */
+function describeMeetingDay(dates = {}) {
+    const day = typeof dates.meetingDate === 'string' ? dates.meetingDate : todayIn(dates.timeZone, dates.meetingDate ? new Date(dates.meetingDate) : new Date());
+    const weekday = new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+    const holidays = (dates.holidays || []).filter(h => h >= day);
+    return `The meeting was on ${weekday}, ${day}${dates.timeZone ? ` (${dates.timeZone})` : ''}.`
+        + ` Due dates should fall on working days${holidays.length > 0 ? `; these days are holidays: ${holidays.join(', ')}` : ''}.`;
+}
+
+function buildTeamContext(teamMembers = []) {
+    if (!teamMembers || teamMembers.length === 0) return '';
+
+    const memberNames = teamMembers.map(m => m.full_name || m.name || m.username).filter(Boolean).join(', ');
+    return `\n\nAvailable Team Members for Assignment: [${memberNames}]\nIMPORTANT: Try to assign tasks to these specific members if their names (or variations) appear in the text.`;
+}
+
+/**
+ * @param {import('@meetingmind/extraction').Transcript} transcript
+ * @param {Object[]} [teamMembers]
+ * @param {import('@meetingmind/extraction').DateContext} [dates]
+ * @param {{ version?: string, instructions?: import('./prompts').TeamInstructions|null }} [prompt] - template version (default: latest) and the team's additions
+ */
+function buildPrompt(transcript, teamMembers = [], dates = {}, { version, instructions } = {}) {
+    return renderPrompt(version, {
+        meetingDay: describeMeetingDay(dates),
+        instructions,
+        teamMembers: buildTeamContext(teamMembers),
+        transcript: renderTranscript(transcript),
+    });
+}
+
+function buildRepairPrompt(errors) {
+    return `Your previous response did not match the required schema. Fix these errors and return the complete corrected JSON object (all tasks, not just the broken ones):\n${formatValidationErrors(errors).map(e => `- ${e}`).join('\n')}`;
+}
+
+/**
+ * Run a provider's model call, validate every task, and retry once with the
+ * validation errors fed back to the model when the response is malformed.
+ *
+ * `generate(messages)` receives [{ role: 'user' | 'model', text }] and resolves to the raw response text.
+ * The first response's valid tasks are kept; the retry only adds tasks it newly validated, and
+ * when the retry itself fails the first response's tasks are returned as they are.
+ * Tasks that still fail validation are dropped and reported in `validationErrors`.
+ * Valid tasks are attributed to their turn in `context.transcript` and their due dates
+ * re-checked against `context.dates` (see finalizeTask).
+ */
+async function generateValidatedTasks(generate, prompt, context) {
+    const normalize = (task) => finalizeTask(task, context);
+    const messages = [{ role: 'user', text: prompt }];
+
+    const text = await generate(messages);
+    const first = validateExtractionResponse(text);
+    const tasks = first.tasks.map(normalize);
+    if (first.errors.length === 0) {
+        return { tasks, validationErrors: [] };
+    }
+
+    console.warn('[LLM] Response failed validation, retrying:', formatValidationErrors(first.errors));
+    messages.push({ role: 'model', text }, { role: 'user', text: buildRepairPrompt(first.errors) });
+
+    let result;
+    try {
+        result = validateExtractionResponse(await generate(messages));
+    } catch (error) {
+        console.error('[LLM] Retry failed, keeping the valid tasks from the first response:', error.message);
+        return { tasks, validationErrors: formatValidationErrors(first.errors) };
+    }
+    if (result.errors.length > 0) {
+        console.error('[LLM] Response still invalid after retry:', formatValidationErrors(result.errors));
+    }
+
+    // The repaired response repeats the tasks that were already valid
+    for (const task of result.tasks.map(normalize)) {
+        if (!tasks.some(existing => areSimilarTasks(existing, task))) {
+            tasks.push(task);
+        }
+    }
+
+    return {
+        tasks,
+        validationErrors: formatValidationErrors(result.errors),
+    };
+}
+
+/**
+ * Streaming variant of generateValidatedTasks.
+ *
+ * `generateStream(messages, onText)` feeds response fragments to `onText` and resolves to the full text.
+ * Each task is validated and passed to `onTask` as soon as its object closes in the stream.
+ * If the full response is malformed, the repair retry runs unstreamed and only reports tasks not already sent.
+ */
+async function streamValidatedTasks(generateStream, generate, prompt, onTask, context) {
+    const normalize = (task) => finalizeTask(task, context);
+    const messages = [{ role: 'user', text: prompt }];
+    const emitted = [];
+    const emit = (task) => {
+        emitted.push(task);
+        onTask(task);
+    };
+
+    const parser = createTaskStreamParser((task, index) => {
+        if (validateTask(task, index).length === 0) {
+            emit(normalize(task));
+        }
+    });
+
+    const text = await generateStream(messages, fragment => parser.push(fragment));
+    let result = validateExtractionResponse(text);
+    if (result.errors.length === 0) {
+        return { tasks: emitted, validationErrors: [] };
+    }
+
+    console.warn('[LLM] Streamed response failed validation, retrying:', formatValidationErrors(result.errors));
+    messages.push({ role: 'model', text }, { role: 'user', text: buildRepairPrompt(result.errors) });
+
+    try {
+        result = validateExtractionResponse(await generate(messages));
+    } catch (error) {
+        console.error('[LLM] Retry failed, keeping the tasks already streamed:', error.message);
+        return { tasks: emitted, validationErrors: formatValidationErrors(result.errors) };
+    }
+    if (result.errors.length > 0) {
+        console.error('[LLM] Response still invalid after retry:', formatValidationErrors(result.errors));
+    }
+
+    // The repaired response repeats the tasks that already streamed out
+    for (const task of result.tasks.map(normalize)) {
+        if (!emitted.some(existing => areSimilarTasks(existing, task))) {
+            emit(task);
+        }
+    }
+
+    return {
+        tasks: emitted,
+        validationErrors: formatValidationErrors(result.errors),
+    };
+}
+
+/**
+ * Normalize validated task objects (including optional and inferred detection)
+ */
+function normalizeTask(task) {
+    let title = String(task.title || 'Untitled task').trim();
+    const optionalFlag = task.optional === true || /(optional|nice to have|if possible|later|future)/i.test(title);
+    const inferredFlag = task.inferred === true;
+
+    if (optionalFlag && !/^\(optional\)/i.test(title)) {
+        title = `(optional) ${title.replace(/^(optional\s*[:-]\s*)/i, '').trim()}`;
+    }
+
+    return {
+        title,
+        description: String(task.description || 'Extracted from meeting transcript').trim(),
+        assignee: task.assignee ? String(task.assignee).trim() : undefined,
+        priority: task.priority,
+        dueDate: task.dueDate || undefined,
+        optional: optionalFlag,
+        inferred: inferredFlag,
+        confidence: task.confidence ? String(task.confidence) : (inferredFlag ? 'medium' : 'high'),
+        sourceText: task.sourceText ? String(task.sourceText).trim() : undefined,
+        evidenceContext: task.evidenceContext ? String(task.evidenceContext).trim() : undefined,
+        timestamp: task.timestamp ? String(task.timestamp).trim() : undefined,
+    };
+}
+
+/**
+ * Normalize a validated task, tie it to its transcript turn, and re-check the model's due
+ * date with the shared resolver instead of trusting its date arithmetic
+ * @param {Object} task
+ * @param {{ transcript: import('@meetingmind/extraction').Transcript, dates?: import('@meetingmind/extraction').DateContext }} context
+ */
+function finalizeTask(task, { transcript, dates } = {}) {
+    const normalized = normalizeTask(task);
+    const attributed = transcript ? attributeTask(normalized, transcript) : normalized;
+    return reconcileDueDate(attributed, dates);
+}
+
+module.exports = { buildPrompt, generateValidatedTasks, streamValidatedTasks, normalizeTask, finalizeTask };
@@ -0,0 +1,118 @@
+/**
+ * Versioned extraction prompt templates
+ *
+ * Every extraction records the prompt version it used (and the team instructions it was
+ * given), so re-running with that version rebuilds the same prompt. A published template
+ * is therefore never edited: new wording goes into a new version, which then becomes the
+ * default. Teams can pin an older version in their extraction settings.
+ *
+ * Templates fill {{meetingDay}}, {{teamInstructions}}, {{teamMembers}} and {{transcript}}.
+ *
+ * @typedef {Object} TeamInstructions
+ * @property {{ term: string, meaning: string }[]} [glossary] - team jargon the model should understand
+ * @property {string} [titleStyle] - how task titles should read, e.g. "Bug: <area> - <symptom>"
+ * @property {string} [priorityRules] - e.g. "Anything a customer reported is high"
+ * @property {string[]} [ignoreTerms] - topics that never become tasks
+ */
+
+const PROMPTS = {
+    'extract-v1': require('./extract-v1'),
+    'extract-v2': require('./extract-v2'),
+};
+
+const DEFAULT_PROMPT_VERSION = 'extract-v2';
+
+// Instructions are the team's own text; keep one team from crowding out the transcript
+const MAX_INSTRUCTION_CHARS = 500;
+const MAX_GLOSSARY_TERMS = 50;
+const MAX_IGNORE_TERMS = 50;
+
+/**
+ * @param {string} [version] - defaults to DEFAULT_PROMPT_VERSION
+ * @returns {string} the version id that will be used
+ */
+function resolvePromptVersion(version) {
+    const id = version || DEFAULT_PROMPT_VERSION;
+    if (!PROMPTS[id]) {
+        throw new Error(`Unknown prompt version: ${id}`);
+    }
+    return id;
+}
+
+const clip = (value) => String(value || '').replace(/\s+/g, ' ').trim().slice(0, MAX_INSTRUCTION_CHARS);
+
+/**
+ * Keep only well-formed, non-empty instructions, or null when nothing is left
+ * @param {TeamInstructions} [instructions]
+ * @returns {TeamInstructions|null}
+ */
+function normalizeInstructions(instructions) {
+    if (!instructions || typeof instructions !== 'object') return null;
+
+    const glossary = (Array.isArray(instructions.glossary) ? instructions.glossary : [])
+        .map(entry => ({ term: clip(entry?.term), meaning: clip(entry?.meaning) }))
+        .filter(entry => entry.term && entry.meaning)
+        .slice(0, MAX_GLOSSARY_TERMS);
+    const ignoreTerms = (Array.isArray(instructions.ignoreTerms) ? instructions.ignoreTerms : [])
+        .map(clip)
+        .filter(Boolean)
+        .slice(0, MAX_IGNORE_TERMS);
+
+    const normalized = {};
+    if (glossary.length > 0) normalized.glossary = glossary;
+    if (clip(instructions.titleStyle)) normalized.titleStyle = clip(instructions.titleStyle);
+    if (clip(instructions.priorityRules)) normalized.priorityRules = clip(instructions.priorityRules);
+    if (ignoreTerms.length > 0) normalized.ignoreTerms = ignoreTerms;
+
+    return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+function renderTeamInstructions(rawInstructions) {
+    const instructions = normalizeInstructions(rawInstructions);
+    if (!instructions) return '';
+
+    const lines = [];
+    if (instructions.glossary) {
+        lines.push(`*   **Glossary**: ${instructions.glossary.map(({ term, meaning }) => `"${term}" means ${meaning}`).join('; ')}.`);
+    }
+    if (instructions.titleStyle) lines.push(`*   **Task Titles**: ${instructions.titleStyle}`);
+    if (instructions.priorityRules) lines.push(`*   **Priorities**: ${instructions.priorityRules}`);
+    if (instructions.ignoreTerms) {
+        lines.push(`*   **Ignore**: Do not create tasks about ${instructions.ignoreTerms.map(term => `"${term}"`).join(', ')}.`);
+    }
+    return `\n\nTeam Instructions (these take precedence over the rules above):\n${lines.join('\n')}`;
+}
+
+/**
+ * Fill a prompt version's template
+ * @param {string} version
+ * @param {{ meetingDay: string, teamMembers: string, transcript: string, instructions?: TeamInstructions|null }} values
+ */
+function renderPrompt(version, { instructions, ...values }) {
+    const all = { ...values, teamInstructions: renderTeamInstructions(instructions) };
+    return PROMPTS[resolvePromptVersion(version)].replace(/\{\{(\w+)\}\}/g, (_, key) => all[key] ?? '');
+}
+
+/**
+ * What an extraction records about its prompt, enough to rebuild it later
+ * @param {string} [version]
+ * @param {TeamInstructions} [instructions]
+ */
+function promptMetadata(version, instructions) {
+    const promptVersion = resolvePromptVersion(version);
+    // Older templates have no place for instructions, so none were given
+    const normalized = PROMPTS[promptVersion].includes('{{teamInstructions}}') ? normalizeInstructions(instructions) : null;
+    return {
+        promptVersion,
+        ...(normalized ? { instructions: normalized } : {}),
+    };
+}
+
+module.exports = {
+    PROMPT_VERSIONS: Object.keys(PROMPTS),
+    DEFAULT_PROMPT_VERSION,
+    resolvePromptVersion,
+    normalizeInstructions,
+    renderPrompt,
+    promptMetadata,
+};
@@ -0,0 +1,88 @@
+/**
+ * Gemini extraction provider
+ *
+ * Uses JSON response mode with a declared schema, so output is never scraped out of prose.
+ */
+
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+const { buildPrompt, generateValidatedTasks, streamValidatedTasks } = require('../llm');
+const { GEMINI_RESPONSE_SCHEMA } = require('../taskSchema');
+const { promptMetadata } = require('../prompts');
+
+// Lazy initialize to ensure env vars are loaded
+let genAI = null;
+function getGenAI() {
+    if (!genAI) {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) {
+            throw new Error('GEMINI_API_KEY environment variable is not set');
+        }
+        genAI = new GoogleGenerativeAI(apiKey);
+    }
+    return genAI;
+}
+
+/** @type {import('./index').ExtractionProvider} */
+const geminiProvider = {
+    id: 'gemini',
+    defaultModel: 'gemini-2.5-flash',
+
+    /** Raw model calls: messages in, response text out */
+    createGenerators({ model = geminiProvider.defaultModel, signal } = {}) {
+        const generativeModel = getGenAI().getGenerativeModel({
+            model,
+            generationConfig: {
+                temperature: 0.2,
+                topK: 40,
+                topP: 0.95,
+                maxOutputTokens: 8192,
+                responseMimeType: 'application/json',
+                responseSchema: GEMINI_RESPONSE_SCHEMA,
+            },
+        });
+
+        const toRequest = (messages) => ({
+            contents: messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+        });
+
+        const generate = async (messages) => {
+            const result = await generativeModel.generateContent(toRequest(messages), { signal });
+            return result.response.text();
+        };
+
+        const generateStream = async (messages, onText) => {
+            const result = await generativeModel.generateContentStream(toRequest(messages), { signal });
+            let text = '';
+            for await (const chunk of result.stream) {
+                const fragment = chunk.text();
+                text += fragment;
+                onText(fragment);
+            }
+            return text;
+        };
+
+        return { generate, generateStream };
+    },
+
+    async extract(transcript, { model = geminiProvider.defaultModel, teamMembers = [], dates, promptVersion, instructions, onTask, signal } = {}) {
+        const { generate, generateStream } = geminiProvider.createGenerators({ model, signal });
+        const prompt = buildPrompt(transcript, teamMembers, dates, { version: promptVersion, instructions });
+        const { tasks, validationErrors } = onTask
+            ? await streamValidatedTasks(generateStream, generate, prompt, onTask, { transcript, dates })
+            : await generateValidatedTasks(generate, prompt, { transcript, dates });
+
+        return {
+            tasks,
+            metadata: {
+                processedAt: new Date().toISOString(),
+                provider: geminiProvider.id,
+                model,
+                ...promptMetadata(promptVersion, instructions),
+                transcriptLength: transcript.text.length,
+                validationErrors,
+            },
+        };
+    },
+};
+
+module.exports = geminiProvider;
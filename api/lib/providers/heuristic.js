@@ -0,0 +1,28 @@
+/**
+ * Rule-based extraction provider - no model calls, works offline
+ */
+
+const { mockExtractTasks, HEURISTIC_MODEL } = require('@meetingmind/extraction');
+
+/** @type {import('./index').ExtractionProvider} */
+const heuristicProvider = {
+    id: 'heuristic',
+    defaultModel: HEURISTIC_MODEL,
+
+    async extract(transcript, { model = heuristicProvider.defaultModel, rules, dates, onTask } = {}) {
+        const { tasks } = mockExtractTasks(transcript, { rules, dates });
+        if (onTask) tasks.forEach(task => onTask(task));
+
+        return {
+            tasks,
+            metadata: {
+                processedAt: new Date().toISOString(),
+                provider: heuristicProvider.id,
+                model,
+                transcriptLength: transcript.text.length,
+            },
+        };
+    },
+};
+
+module.exports = heuristicProvider;
@@ -0,0 +1,58 @@
+/**
+ * Extraction provider registry
+ *
+ * @typedef {Object} ExtractOptions
+ * @property {string} [model] - Model name; falls back to the provider's defaultModel
+ * @property {Object[]} [teamMembers] - Members the model may assign tasks to
+ * @property {Object} [rules] - Team rule configuration for the heuristic provider
+ * @property {import('@meetingmind/extraction').DateContext} [dates] - Meeting day and team calendar that due dates resolve against
+ * @property {string} [promptVersion] - Prompt template version for model-backed providers; defaults to the latest
+ * @property {import('../prompts').TeamInstructions} [instructions] - The team's additions to the prompt
+ * @property {(task: Object) => void} [onTask] - When set, the provider streams and reports each task as soon as it is complete
+ * @property {AbortSignal} [signal] - Aborts the model call, e.g. when the client disconnects
+ *
+ * @typedef {Object} ExtractionProvider
+ * @property {string} id
+ * @property {string} defaultModel
+ * @property {(transcript: import('@meetingmind/extraction').Transcript, options?: ExtractOptions) => Promise<{ tasks: Object[], metadata: Object }>} extract
+ * @property {(options?: { model?: string, signal?: AbortSignal }) => { generate: Function, generateStream: Function }} [createGenerators] - Raw model calls, for model-backed providers
+ */
+
+const geminiProvider = require('./gemini');
+const heuristicProvider = require('./heuristic');
+const { createOpenAICompatibleProvider } = require('./openai');
+
+const DEFAULT_PROVIDER = 'gemini';
+
+/** @type {Record<string, ExtractionProvider>} */
+const PROVIDERS = {
+    gemini: geminiProvider,
+    openai: createOpenAICompatibleProvider({
+        id: 'openai',
+        defaultModel: 'gpt-4o-mini',
+        getConfig: () => ({
+            apiKey: process.env.OPENAI_API_KEY,
+            baseURL: process.env.OPENAI_BASE_URL || undefined,
+        }),
+    }),
+    // Ollama / llama.cpp server; neither checks the key, but the SDK requires one
+    local: createOpenAICompatibleProvider({
+        id: 'local',
+        defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        getConfig: () => ({
+            apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+            baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        }),
+    }),
+    heuristic: heuristicProvider,
+};
+
+function getProvider(id) {
+    const provider = PROVIDERS[id || process.env.EXTRACTION_PROVIDER || DEFAULT_PROVIDER];
+    if (!provider) {
+        throw new Error(`Unknown extraction provider: ${id}`);
+    }
+    return provider;
+}
+
+module.exports = { getProvider, PROVIDERS };
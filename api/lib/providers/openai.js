@@ -0,0 +1,90 @@
+/**
+ * OpenAI-compatible extraction provider
+ *
+ * Works against api.openai.com as well as local servers that speak the same
+ * chat completions API (Ollama, llama.cpp server) by pointing baseURL at them.
+ */
+
+const OpenAI = require('openai');
+const { buildPrompt, generateValidatedTasks, streamValidatedTasks } = require('../llm');
+const { JSON_RESPONSE_SCHEMA } = require('../taskSchema');
+const { promptMetadata } = require('../prompts');
+
+/**
+ * @param {{ id: string, defaultModel: string, getConfig: () => { apiKey?: string, baseURL?: string } }} options
+ * @returns {import('./index').ExtractionProvider}
+ */
+function createOpenAICompatibleProvider({ id, defaultModel, getConfig }) {
+    let client = null;
+
+    // Lazy initialize to ensure env vars are loaded
+    function getClient() {
+        if (!client) {
+            const { apiKey, baseURL } = getConfig();
+            if (!apiKey) {
+                throw new Error(`No API key configured for the '${id}' extraction provider`);
+            }
+            client = new OpenAI({ apiKey, baseURL });
+        }
+        return client;
+    }
+
+    /** Raw model calls: messages in, response text out */
+    function createGenerators({ model = defaultModel, signal } = {}) {
+        const toRequest = (messages) => ({
+            model,
+            temperature: 0.2,
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'extracted_tasks', schema: JSON_RESPONSE_SCHEMA, strict: true },
+            },
+            messages: messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+        });
+
+        const generate = async (messages) => {
+            const completion = await getClient().chat.completions.create(toRequest(messages), { signal });
+            return completion.choices[0]?.message?.content || '';
+        };
+
+        const generateStream = async (messages, onText) => {
+            const stream = await getClient().chat.completions.create({ ...toRequest(messages), stream: true }, { signal });
+            let text = '';
+            for await (const chunk of stream) {
+                const fragment = chunk.choices[0]?.delta?.content || '';
+                text += fragment;
+                onText(fragment);
+            }
+            return text;
+        };
+
+        return { generate, generateStream };
+    }
+
+    return {
+        id,
+        defaultModel,
+        createGenerators,
+
+        async extract(transcript, { model = defaultModel, teamMembers = [], dates, promptVersion, instructions, onTask, signal } = {}) {
+            const { generate, generateStream } = createGenerators({ model, signal });
+            const prompt = buildPrompt(transcript, teamMembers, dates, { version: promptVersion, instructions });
+            const { tasks, validationErrors } = onTask
+                ? await streamValidatedTasks(generateStream, generate, prompt, onTask, { transcript, dates })
+                : await generateValidatedTasks(generate, prompt, { transcript, dates });
+
+            return {
+                tasks,
+                metadata: {
+                    processedAt: new Date().toISOString(),
+                    provider: id,
+                    model,
+                    ...promptMetadata(promptVersion, instructions),
+                    transcriptLength: transcript.text.length,
+                    validationErrors,
+                },
+            };
+        },
+    };
+}
+
+module.exports = { createOpenAICompatibleProvider };
@@ -0,0 +1,17 @@
+/**
+ * Shared-secret checks for inbound webhooks
+ */
+
+const crypto = require('crypto');
+
+/**
+ * Constant-time comparison of a received token with the configured secret
+ */
+function tokensMatch(received, expected) {
+    if (!received || !expected) return false;
+    const a = Buffer.from(String(received));
+    const b = Buffer.from(String(expected));
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+module.exports = { tokensMatch };
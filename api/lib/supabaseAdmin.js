@@ -0,0 +1,24 @@
+/**
+ * Service-role Supabase client for server-only tables (integration tokens, audit logs).
+ * Never expose this client's results to callers without checking their access first.
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+
+let adminClient = null;
+
+function getAdminClient() {
+    if (!adminClient) {
+        const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+        if (!url || !serviceRoleKey) {
+            throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables must be set');
+        }
+        adminClient = createClient(url, serviceRoleKey, {
+            auth: { persistSession: false, autoRefreshToken: false },
+        });
+    }
+    return adminClient;
+}
+
+module.exports = { getAdminClient };
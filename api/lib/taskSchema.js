@@ -0,0 +1,157 @@
+/**
+ * Declared response schema for LLM extraction and the runtime validator every task goes through
+ */
+
+const { SchemaType } = require('@google/generative-ai');
+
+const PRIORITIES = ['high', 'medium', 'low'];
+const CONFIDENCES = ['high', 'medium', 'low'];
+const TIMESTAMP = /^\d{1,2}:\d{2}(?::\d{2})?$/;
+
+// Gemini responseSchema (OpenAPI subset) - mirrors ExtractedTask
+const GEMINI_RESPONSE_SCHEMA = {
+    type: SchemaType.OBJECT,
+    properties: {
+        tasks: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    title: { type: SchemaType.STRING, description: 'Actionable task title' },
+                    description: { type: SchemaType.STRING, description: 'Detailed description including context' },
+                    assignee: { type: SchemaType.STRING, nullable: true, description: 'Name or username (best guess)' },
+                    priority: { type: SchemaType.STRING, format: 'enum', enum: PRIORITIES },
+                    dueDate: { type: SchemaType.STRING, nullable: true, description: 'YYYY-MM-DD' },
+                    optional: { type: SchemaType.BOOLEAN },
+                    inferred: { type: SchemaType.BOOLEAN },
+                    confidence: { type: SchemaType.STRING, format: 'enum', enum: CONFIDENCES },
+                    sourceText: { type: SchemaType.STRING, nullable: true, description: 'Exact quote from the transcript' },
+                    timestamp: { type: SchemaType.STRING, nullable: true, description: 'mm:ss of the source turn' },
+                },
+                required: ['title', 'description', 'priority', 'optional', 'inferred', 'confidence'],
+            },
+        },
+    },
+    required: ['tasks'],
+};
+
+// JSON Schema for OpenAI-compatible structured outputs (strict mode needs every key required)
+const JSON_RESPONSE_SCHEMA = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        tasks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    assignee: { type: ['string', 'null'] },
+                    priority: { type: 'string', enum: PRIORITIES },
+                    dueDate: { type: ['string', 'null'], description: 'YYYY-MM-DD' },
+                    optional: { type: 'boolean' },
+                    inferred: { type: 'boolean' },
+                    confidence: { type: 'string', enum: CONFIDENCES },
+                    sourceText: { type: ['string', 'null'] },
+                    timestamp: { type: ['string', 'null'], description: 'mm:ss of the source turn' },
+                },
+                required: ['title', 'description', 'assignee', 'priority', 'dueDate', 'optional', 'inferred', 'confidence', 'sourceText', 'timestamp'],
+            },
+        },
+    },
+    required: ['tasks'],
+};
+
+const isBlank = (value) => value === undefined || value === null;
+
+function isValidIsoDate(value) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Validate one raw task. Returns a list of { path, message } errors, empty when valid.
+ */
+function validateTask(task, index) {
+    const path = (field) => `tasks[${index}]${field ? `.${field}` : ''}`;
+    const errors = [];
+
+    if (!task || typeof task !== 'object' || Array.isArray(task)) {
+        return [{ path: path(), message: 'must be an object' }];
+    }
+
+    if (typeof task.title !== 'string' || !task.title.trim()) {
+        errors.push({ path: path('title'), message: 'must be a non-empty string' });
+    }
+    if (!isBlank(task.description) && typeof task.description !== 'string') {
+        errors.push({ path: path('description'), message: 'must be a string' });
+    }
+    if (!isBlank(task.assignee) && typeof task.assignee !== 'string') {
+        errors.push({ path: path('assignee'), message: 'must be a string or null' });
+    }
+    if (!PRIORITIES.includes(task.priority)) {
+        errors.push({ path: path('priority'), message: `must be one of ${PRIORITIES.join(', ')}` });
+    }
+    if (!isBlank(task.dueDate) && (typeof task.dueDate !== 'string' || !isValidIsoDate(task.dueDate))) {
+        errors.push({ path: path('dueDate'), message: 'must be a real date in YYYY-MM-DD format or null' });
+    }
+    for (const field of ['optional', 'inferred']) {
+        if (!isBlank(task[field]) && typeof task[field] !== 'boolean') {
+            errors.push({ path: path(field), message: 'must be a boolean' });
+        }
+    }
+    if (!isBlank(task.confidence) && !CONFIDENCES.includes(task.confidence)) {
+        errors.push({ path: path('confidence'), message: `must be one of ${CONFIDENCES.join(', ')}` });
+    }
+    if (!isBlank(task.sourceText) && typeof task.sourceText !== 'string') {
+        errors.push({ path: path('sourceText'), message: 'must be a string or null' });
+    }
+    if (!isBlank(task.timestamp) && (typeof task.timestamp !== 'string' || !TIMESTAMP.test(task.timestamp))) {
+        errors.push({ path: path('timestamp'), message: 'must be a mm:ss or hh:mm:ss timestamp or null' });
+    }
+
+    return errors;
+}
+
+/**
+ * Parse and validate a raw model response.
+ * Returns the tasks that passed validation plus every per-field error found.
+ */
+function validateExtractionResponse(text) {
+    let parsed;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        return { tasks: [], errors: [{ path: '$', message: `is not valid JSON (${error.message})` }] };
+    }
+
+    if (!parsed || !Array.isArray(parsed.tasks)) {
+        return { tasks: [], errors: [{ path: 'tasks', message: 'must be an array' }] };
+    }
+
+    const tasks = [];
+    const errors = [];
+    parsed.tasks.forEach((task, index) => {
+        const taskErrors = validateTask(task, index);
+        if (taskErrors.length === 0) {
+            tasks.push(task);
+        } else {
+            errors.push(...taskErrors);
+        }
+    });
+
+    return { tasks, errors };
+}
+
+const formatValidationErrors = (errors) => errors.map(e => `${e.path} ${e.message}`);
+
+module.exports = {
+    GEMINI_RESPONSE_SCHEMA,
+    JSON_RESPONSE_SCHEMA,
+    validateTask,
+    validateExtractionResponse,
+    formatValidationErrors,
+};
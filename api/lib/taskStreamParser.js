@@ -0,0 +1,73 @@
+/**
+ * Incremental parser for streamed `{"tasks":[...]}` responses.
+ *
+ * Model output arrives in arbitrary text fragments; this scans them as they come
+ * and hands back each task object as soon as its closing brace arrives.
+ */
+
+const TASKS_ARRAY_START = /"tasks"\s*:\s*\[/;
+
+/**
+ * @param {(task: Object, index: number) => void} onTask - Called once per complete task object
+ * @returns {{ push: (fragment: string) => void }}
+ */
+function createTaskStreamParser(onTask) {
+    let buffer = '';
+    let pos = 0;
+    let phase = 'seek'; // seek -> array -> done
+    let depth = 0;
+    let objectStart = -1;
+    let inString = false;
+    let escaped = false;
+    let count = 0;
+
+    function scan() {
+        if (phase === 'seek') {
+            const match = TASKS_ARRAY_START.exec(buffer);
+            if (!match) return;
+            pos = match.index + match[0].length;
+            phase = 'array';
+        }
+
+        for (; phase === 'array' && pos < buffer.length; pos++) {
+            const char = buffer[pos];
+
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (char === '\\') escaped = true;
+                else if (char === '"') inString = false;
+                continue;
+            }
+
+            if (char === '"') {
+                inString = true;
+            } else if (char === '{') {
+                if (depth === 0) objectStart = pos;
+                depth++;
+            } else if (char === '}') {
+                depth--;
+                if (depth === 0) {
+                    const raw = buffer.slice(objectStart, pos + 1);
+                    try {
+                        onTask(JSON.parse(raw), count);
+                    } catch (error) {
+                        // Left for the full-response validation to report
+                        console.warn('[TaskStream] Skipping unparseable task object:', error.message);
+                    }
+                    count++;
+                }
+            } else if (char === ']' && depth === 0) {
+                phase = 'done';
+            }
+        }
+    }
+
+    return {
+        push(fragment) {
+            buffer += fragment;
+            scan();
+        },
+    };
+}
+
+module.exports = { createTaskStreamParser };
@@ -0,0 +1,103 @@
+/**
+ * Server-side task service for integrations that act without a browser session (Cliq, webhooks).
+ * The queries are shared with the web app's TasksService (@meetingmind/data); pass the admin
+ * client, or a user-scoped one to keep RLS.
+ */
+
+const { resolveAssignee } = require('@meetingmind/extraction');
+const { getTeamRoster, buildTaskRow, insertTasks, getTasks, saveTask } = require('@meetingmind/data');
+const { syncTaskStatusToZoho } = require('./zoho');
+
+/**
+ * Members who can be assigned tasks: accepted or pending members plus the team owner
+ * @returns {Promise<{ user_id: string, name: string, email: string | null, aliases: string[], status: string }[]>}
+ */
+async function getAssignableMembers(supabase, teamId) {
+    const { members, ownerId } = await getTeamRoster(supabase, teamId);
+
+    const assignable = members.filter(m => m.status === 'accepted' || m.status === 'pending');
+    const userIds = [...new Set([...assignable.map(m => m.user_id), ownerId].filter(Boolean))];
+
+    const { data: profiles } = userIds.length > 0
+        ? await supabase.from('user_profiles').select('id, full_name, username, email, aliases').in('id', userIds)
+        : { data: [] };
+    const profileById = new Map((profiles || []).map(p => [p.id, p]));
+
+    return userIds.map(userId => {
+        const member = assignable.find(m => m.user_id === userId);
+        const profile = profileById.get(userId) || {};
+        return {
+            user_id: userId,
+            name: member?.name || profile.full_name || profile.username || 'Team owner',
+            email: profile.email || null,
+            aliases: profile.aliases || [],
+            status: member?.status || 'accepted',
+        };
+    });
+}
+
+/**
+ * Same resolver the web app uses for extracted assignee names (aliases, initials, edit distance).
+ * There is no one to ask here, so an ambiguous name matches nobody.
+ */
+function matchMember(members, assignee) {
+    return resolveAssignee(assignee, members).match;
+}
+
+/**
+ * Insert extracted tasks for a team.
+ * Tasks may carry `assigneeId` (a member's user ID) or just an `assignee` name to match.
+ */
+async function createTasks(supabase, tasks, teamId, assignedBy, meetingId) {
+    const members = await getAssignableMembers(supabase, teamId);
+
+    const rows = tasks.map(task => {
+        const member = task.assigneeId
+            ? members.find(m => m.user_id === task.assigneeId)
+            : matchMember(members, task.assignee);
+
+        let unassignedReason = null;
+        if (!member) {
+            unassignedReason = task.assignee || task.assigneeId ? 'User is not a member of this team' : 'No assignee specified';
+        }
+
+        return buildTaskRow(task, {
+            assigned_to: member ? member.user_id : null,
+            assigned_to_name: member ? member.name : null,
+            unassigned_reason: unassignedReason,
+        }, teamId, assignedBy, meetingId);
+    });
+
+    return insertTasks(supabase, rows);
+}
+
+/**
+ * Mirror a status change to the linked Zoho task; Zoho wins when it changed last.
+ * A failed sync never fails the local update.
+ */
+async function syncZohoStatus(task) {
+    if (!task || !task.zoho_task_id) return task;
+    try {
+        const { status } = await syncTaskStatusToZoho(task);
+        return { ...task, status };
+    } catch (error) {
+        console.error('Failed to sync task status to Zoho Projects:', error);
+        return task;
+    }
+}
+
+async function updateTask(supabase, taskId, updates) {
+    const data = await saveTask(supabase, taskId, updates);
+    return 'status' in updates ? syncZohoStatus(data) : data;
+}
+
+const updateTaskStatus = (supabase, taskId, status) => updateTask(supabase, taskId, { status });
+
+module.exports = {
+    getAssignableMembers,
+    matchMember,
+    createTasks,
+    getTasks,
+    updateTask,
+    updateTaskStatus,
+};
@@ -0,0 +1,32 @@
+/**
+ * Team access checks for serverless functions, run with the caller's RLS-scoped client
+ */
+
+const { AuthError } = require('./auth');
+
+/**
+ * Load a team the caller can see. Throws AuthError(403) when RLS hides it or it does not exist.
+ * With `ownerOnly`, the caller must also be the team's creator.
+ */
+async function requireTeamAccess(supabase, user, teamId, { ownerOnly = false } = {}) {
+    if (!teamId) {
+        throw new AuthError('teamId is required', 400);
+    }
+
+    const { data: team, error } = await supabase
+        .from('teams')
+        .select('id, name, created_by')
+        .eq('id', teamId)
+        .maybeSingle();
+
+    if (error || !team) {
+        throw new AuthError('You do not have access to this team', 403);
+    }
+    if (ownerOnly && team.created_by !== user.id) {
+        throw new AuthError('Only the team owner can change this setting', 403);
+    }
+
+    return team;
+}
+
+module.exports = { requireTeamAccess };
@@ -0,0 +1,22 @@
+/**
+ * Per-team extraction settings stored on teams.extraction_settings
+ */
+
+async function loadExtractionSettings(supabase, teamId) {
+    if (!teamId) return {};
+
+    const { data, error } = await supabase
+        .from('teams')
+        .select('extraction_settings')
+        .eq('id', teamId)
+        .single();
+
+    if (error) {
+        console.error('[TeamSettings] Failed to load extraction settings:', error);
+        return {};
+    }
+
+    return data?.extraction_settings || {};
+}
+
+module.exports = { loadExtractionSettings };
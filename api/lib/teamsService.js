@@ -0,0 +1,16 @@
+/**
+ * Server-side team queries for integrations, shared with the web app's TeamsService (@meetingmind/data)
+ */
+
+const { getUserTeams: getTeams, getTeamStats } = require('@meetingmind/data');
+
+/**
+ * Teams a user owns or has accepted membership of, by name
+ * @returns {Promise<{ id: string, name: string, created_by: string }[]>}
+ */
+async function getUserTeams(supabase, userId) {
+    const teams = await getTeams(supabase, userId);
+    return teams.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+module.exports = { getUserTeams, getTeamStats };
@@ -0,0 +1,19 @@
+/**
+ * Turns transcription segments into the "[mm:ss] Name: text" lines the extractors parse.
+ * Segments are speaker turns, so the formatting is shared with imported transcripts.
+ */
+
+const { formatTranscript, formatTimestamp } = require('@meetingmind/extraction');
+
+/**
+ * @typedef {Object} TranscriptSegment
+ * @property {number} start - seconds from the start of the recording
+ * @property {number} end
+ * @property {string} speaker - a single word, so it can be renamed to a member's first name on the page
+ * @property {string} text
+ */
+
+// Placeholder names for speakers the backend can tell apart but not identify: SpeakerA, SpeakerB, ...
+const speakerLabel = (index) => `Speaker${String.fromCharCode(65 + (index % 26))}`;
+
+module.exports = { formatTranscript, formatTimestamp, speakerLabel };
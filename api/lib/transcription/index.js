@@ -0,0 +1,42 @@
+/**
+ * Transcription backend registry
+ *
+ * @typedef {import('./format').TranscriptSegment} TranscriptSegment
+ *
+ * @typedef {Object} TranscribeOptions
+ * @property {string} [language] - ISO code, or 'auto' to detect
+ * @property {number} [speakers] - How many people speak, for backends that only detect speaker turns
+ *
+ * @typedef {Object} TranscriptionBackend
+ * @property {string} id
+ * @property {(filePath: string, options?: TranscribeOptions) => Promise<{ segments: TranscriptSegment[], metadata: Object }>} transcribe
+ */
+
+const mockBackend = require('./mock');
+const { whisperBackend, TranscriptionError } = require('./whisper');
+const { formatTranscript, formatTimestamp, speakerLabel } = require('./format');
+
+const DEFAULT_BACKEND = 'whisper';
+
+/** @type {Record<string, TranscriptionBackend>} */
+const BACKENDS = {
+    whisper: whisperBackend,
+    mock: mockBackend,
+};
+
+function getTranscriptionBackend(id) {
+    const backend = BACKENDS[id || process.env.TRANSCRIPTION_BACKEND || DEFAULT_BACKEND];
+    if (!backend) {
+        throw new Error(`Unknown transcription backend: ${id || process.env.TRANSCRIPTION_BACKEND}`);
+    }
+    return backend;
+}
+
+module.exports = {
+    getTranscriptionBackend,
+    BACKENDS,
+    TranscriptionError,
+    formatTranscript,
+    formatTimestamp,
+    speakerLabel,
+};
@@ -0,0 +1,35 @@
+/**
+ * Mock transcription backend for tests and offline demos. Returns the segments in
+ * TRANSCRIPTION_MOCK_FIXTURE (a JSON array of TranscriptSegment) or a short built-in standup.
+ */
+
+const fs = require('fs/promises');
+
+const SAMPLE_SEGMENTS = [
+    { start: 0, end: 6, speaker: 'Sarah', text: "Morning everyone, let's go through the release blockers." },
+    { start: 6, end: 14, speaker: 'John', text: 'I will review the payment PR by tomorrow.' },
+    { start: 14, end: 22, speaker: 'Mike', text: 'I will fix the login bug today, it is blocking QA.' },
+    { start: 22, end: 31, speaker: 'Sarah', text: 'I can update the API documentation by Friday.' },
+];
+
+/** @type {import('./index').TranscriptionBackend} */
+const mockBackend = {
+    id: 'mock',
+
+    async transcribe() {
+        const fixture = process.env.TRANSCRIPTION_MOCK_FIXTURE;
+        const segments = fixture ? JSON.parse(await fs.readFile(fixture, 'utf8')) : SAMPLE_SEGMENTS;
+
+        return {
+            segments,
+            metadata: {
+                backend: mockBackend.id,
+                model: 'mock',
+                language: 'en',
+                durationSeconds: segments.length > 0 ? segments[segments.length - 1].end : 0,
+            },
+        };
+    },
+};
+
+module.exports = mockBackend;
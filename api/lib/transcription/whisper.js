@@ -0,0 +1,107 @@
+/**
+ * Local transcription with a whisper.cpp-compatible CLI (`whisper-cli`, or the older `main`).
+ * ffmpeg first converts the upload, audio or video, to the 16 kHz mono WAV whisper.cpp reads.
+ *
+ * Speakers: with WHISPER_CPP_DIARIZE=true and a tinydiarize model (e.g. ggml-small.en-tdrz.bin),
+ * whisper.cpp marks speaker turns; turns cycle through `speakers` placeholder labels. It cannot
+ * tell who is speaking, so the labels are SpeakerA, SpeakerB, ... for the user to rename.
+ */
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const fs = require('fs/promises');
+const path = require('path');
+const { speakerLabel } = require('./format');
+
+const execFileAsync = promisify(execFile);
+
+const TURN_MARKER = /\s*\[SPEAKER_TURN\]\s*/g;
+const ENDS_TURN = /\[SPEAKER_TURN\]/;
+
+class TranscriptionError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'TranscriptionError';
+    }
+}
+
+function getWhisperConfig() {
+    return {
+        bin: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+        model: process.env.WHISPER_CPP_MODEL,
+        ffmpeg: process.env.FFMPEG_BIN || 'ffmpeg',
+        diarize: process.env.WHISPER_CPP_DIARIZE === 'true',
+        threads: process.env.WHISPER_CPP_THREADS,
+        timeoutMs: Number(process.env.TRANSCRIPTION_TIMEOUT_SECONDS || 1800) * 1000,
+    };
+}
+
+async function runTool(bin, args, timeoutMs) {
+    try {
+        return await execFileAsync(bin, args, { timeout: timeoutMs, maxBuffer: 64 * 1024 * 1024 });
+    } catch (error) {
+        if (error.code === 'ENOENT') {
+            throw new TranscriptionError(`${bin} was not found; install it or set its path in the environment`);
+        }
+        const detail = String(error.stderr || error.message).trim().split('\n').pop();
+        throw new TranscriptionError(`${path.basename(bin)} failed: ${detail}`);
+    }
+}
+
+/**
+ * whisper.cpp `-oj` output: { result: { language }, transcription: [{ offsets: { from, to }, text }] } (offsets in ms)
+ */
+function toSegments(output, { diarize, speakers }) {
+    let turn = 0;
+    return (output.transcription || []).map(item => {
+        const text = item.text || '';
+        const segment = {
+            start: item.offsets.from / 1000,
+            end: item.offsets.to / 1000,
+            speaker: speakerLabel(diarize ? turn % speakers : 0),
+            text: text.replace(TURN_MARKER, ' ').trim(),
+        };
+        // The marker ends the segment before the next speaker starts
+        if (diarize && ENDS_TURN.test(text)) turn += 1;
+        return segment;
+    });
+}
+
+/** @type {import('./index').TranscriptionBackend} */
+const whisperBackend = {
+    id: 'whisper',
+
+    async transcribe(filePath, { language = 'auto', speakers = 2 } = {}) {
+        const config = getWhisperConfig();
+        if (!config.model) {
+            throw new TranscriptionError('WHISPER_CPP_MODEL must point at a ggml model file');
+        }
+
+        // Work next to the upload so the caller's temp-dir cleanup removes everything
+        const dir = path.dirname(filePath);
+        const wavPath = path.join(dir, 'audio.wav');
+        const outputBase = path.join(dir, 'transcript');
+
+        await runTool(config.ffmpeg, ['-y', '-i', filePath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath], config.timeoutMs);
+
+        const args = ['-m', config.model, '-f', wavPath, '-l', language, '-oj', '-of', outputBase, '-np'];
+        if (config.diarize) args.push('-tdrz');
+        if (config.threads) args.push('-t', String(config.threads));
+        await runTool(config.bin, args, config.timeoutMs);
+
+        const output = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8'));
+        const segments = toSegments(output, { diarize: config.diarize, speakers: Math.max(1, speakers) });
+
+        return {
+            segments,
+            metadata: {
+                backend: whisperBackend.id,
+                model: path.basename(config.model),
+                language: (output.result && output.result.language) || language,
+                durationSeconds: segments.length > 0 ? segments[segments.length - 1].end : 0,
+            },
+        };
+    },
+};
+
+module.exports = { whisperBackend, TranscriptionError, toSegments };
@@ -0,0 +1,143 @@
+/**
+ * Minimal Zoho Projects REST client (v1 restapi)
+ */
+
+const { getZohoConfig } = require('./config');
+const { getAccessToken } = require('./connections');
+
+class ZohoApiError extends Error {
+    constructor(message, status, body) {
+        super(message);
+        this.name = 'ZohoApiError';
+        this.status = status;
+        this.body = body;
+    }
+}
+
+// Zoho Projects v1 takes dates as MM-DD-YYYY
+const toZohoDate = (isoDate) => {
+    const [year, month, day] = isoDate.slice(0, 10).split('-');
+    return `${month}-${day}-${year}`;
+};
+
+const ZOHO_PRIORITIES = { low: 'Low', medium: 'Medium', high: 'High' };
+
+const toTaskStatus = (task) => ({
+    id: String(task.id_string || task.id),
+    status: {
+        id: task.status?.id ? String(task.status.id) : '',
+        name: task.status?.name || '',
+        type: task.status?.type || '',
+    },
+    updatedAt: task.last_updated_time_long ? Number(task.last_updated_time_long) : null,
+});
+
+/**
+ * Client bound to a team's connection. Refreshes the token once and retries
+ * when Zoho rejects it before its recorded expiry (e.g. revoked and re-issued).
+ */
+function createZohoClient(teamId) {
+    const { projectsApiUrl } = getZohoConfig();
+
+    async function request(method, path, { query, form } = {}, retried = false) {
+        const accessToken = await getAccessToken(teamId, { force: retried });
+        const url = `${projectsApiUrl}${path}${query ? `?${new URLSearchParams(query)}` : ''}`;
+
+        const response = await fetch(url, {
+            method,
+            headers: {
+                Authorization: `Zoho-oauthtoken ${accessToken}`,
+                ...(form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+            },
+            body: form ? new URLSearchParams(form) : undefined,
+        });
+
+        if (response.status === 401 && !retried) {
+            return request(method, path, { query, form }, true);
+        }
+
+        // 204 is how Zoho says "empty list"
+        const body = response.status === 204 ? {} : await response.json().catch(() => ({}));
+        if (!response.ok) {
+            const message = body?.error?.message || `Zoho Projects request failed with status ${response.status}`;
+            throw new ZohoApiError(message, response.status, body);
+        }
+        return body;
+    }
+
+    return {
+        request,
+
+        async listPortals() {
+            const body = await request('GET', '/portals/');
+            return (body.portals || []).map(p => ({ id: String(p.id_string || p.id), name: p.name }));
+        },
+
+        async listProjects(portalId) {
+            const body = await request('GET', `/portal/${portalId}/projects/`, { query: { status: 'active' } });
+            return (body.projects || []).map(p => ({ id: String(p.id_string || p.id), name: p.name }));
+        },
+
+        async listProjectUsers(portalId, projectId) {
+            const body = await request('GET', `/portal/${portalId}/projects/${projectId}/users/`);
+            return (body.users || []).map(u => ({ id: String(u.id), name: u.name, email: u.email }));
+        },
+
+        /**
+         * @param {{ name: string, description?: string, priority?: string, dueDate?: string, ownerIds?: string[] }} task
+         * @returns {Promise<{ id: string, url: string | null }>}
+         */
+        async createTask(portalId, projectId, task) {
+            const form = { name: task.name };
+            if (task.description) form.description = task.description;
+            if (task.priority) form.priority = ZOHO_PRIORITIES[task.priority] || 'None';
+            if (task.dueDate) form.end_date = toZohoDate(task.dueDate);
+            if (task.ownerIds && task.ownerIds.length > 0) form.person_responsible = task.ownerIds.join(',');
+
+            const body = await request('POST', `/portal/${portalId}/projects/${projectId}/tasks/`, { form });
+            const created = body.tasks && body.tasks[0];
+            if (!created) {
+                throw new ZohoApiError('Zoho Projects did not return the created task', 502, body);
+            }
+
+            return {
+                id: String(created.id_string || created.id),
+                url: created.link?.web?.url || created.link?.self?.url || null,
+            };
+        },
+
+        /**
+         * @returns {Promise<{ id: string, status: { id: string, name: string, type: string }, updatedAt: number | null }>}
+         */
+        async getTask(portalId, projectId, taskId) {
+            const body = await request('GET', `/portal/${portalId}/projects/${projectId}/tasks/${taskId}/`);
+            const task = body.tasks && body.tasks[0];
+            if (!task) {
+                throw new ZohoApiError(`Zoho task ${taskId} was not found`, 404, body);
+            }
+            return toTaskStatus(task);
+        },
+
+        /**
+         * Task statuses configured for the project (Zoho statuses are customizable per layout)
+         * @returns {Promise<{ id: string, name: string, type: string }[]>}
+         */
+        async listTaskStatuses(portalId, projectId) {
+            const body = await request('GET', `/portal/${portalId}/projects/${projectId}/tasklayouts/`);
+            return (body.status_details || []).map(s => ({ id: String(s.id), name: s.name, type: s.type || '' }));
+        },
+
+        async updateTaskStatus(portalId, projectId, taskId, statusId) {
+            const body = await request('POST', `/portal/${portalId}/projects/${projectId}/tasks/${taskId}/`, {
+                form: { custom_status: statusId },
+            });
+            const task = body.tasks && body.tasks[0];
+            if (!task) {
+                throw new ZohoApiError('Zoho Projects did not return the updated task', 502, body);
+            }
+            return toTaskStatus(task);
+        },
+    };
+}
+
+module.exports = { createZohoClient, ZohoApiError, toZohoDate };
@@ -0,0 +1,31 @@
+/**
+ * Zoho endpoints and OAuth client settings.
+ * The URLs are configurable so other data centres (zoho.eu, zoho.in) and the
+ * local mock server in scripts/zoho-mock-server.js can stand in for zoho.com.
+ */
+
+const trimSlash = (url) => url.replace(/\/+$/, '');
+
+function getZohoConfig() {
+    return {
+        clientId: process.env.ZOHO_CLIENT_ID,
+        clientSecret: process.env.ZOHO_CLIENT_SECRET,
+        redirectUri: process.env.ZOHO_REDIRECT_URI,
+        accountsUrl: trimSlash(process.env.ZOHO_ACCOUNTS_URL || 'https://accounts.zoho.com'),
+        projectsApiUrl: trimSlash(process.env.ZOHO_PROJECTS_API_URL || 'https://projectsapi.zoho.com/restapi'),
+        // Where the browser goes once the OAuth callback has stored the tokens
+        appUrl: trimSlash(process.env.APP_URL || ''),
+        stateSecret: process.env.ZOHO_STATE_SECRET || process.env.ZOHO_CLIENT_SECRET,
+        // Shared token Zoho Projects webhooks must send to /api/zoho/webhook
+        webhookSecret: process.env.ZOHO_WEBHOOK_SECRET,
+    };
+}
+
+const ZOHO_SCOPES = [
+    'ZohoProjects.portals.READ',
+    'ZohoProjects.projects.READ',
+    'ZohoProjects.users.READ',
+    'ZohoProjects.tasks.ALL',
+];
+
+module.exports = { getZohoConfig, ZOHO_SCOPES };
@@ -0,0 +1,104 @@
+/**
+ * Per-team Zoho connection: OAuth tokens plus the selected portal and project.
+ * Stored in zoho_connections, which only the service role can read.
+ */
+
+const { getAdminClient } = require('../supabaseAdmin');
+const { refreshAccessToken } = require('./oauth');
+
+// Refresh a little early so a token never expires mid-request
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+async function getConnection(teamId) {
+    const { data, error } = await getAdminClient()
+        .from('zoho_connections')
+        .select('*')
+        .eq('team_id', teamId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data;
+}
+
+async function saveTokens(teamId, tokens, connectedBy) {
+    const row = {
+        team_id: teamId,
+        access_token: tokens.accessToken,
+        expires_at: tokens.expiresAt,
+        api_domain: tokens.apiDomain || null,
+        updated_at: new Date().toISOString(),
+    };
+    // Zoho only returns a refresh token on the initial consent
+    if (tokens.refreshToken) row.refresh_token = tokens.refreshToken;
+    if (connectedBy) {
+        row.connected_by = connectedBy;
+        row.connected_at = row.updated_at;
+    }
+
+    const { error } = await getAdminClient().from('zoho_connections').upsert(row);
+    if (error) throw error;
+}
+
+async function saveProjectSelection(teamId, { portalId, portalName, projectId, projectName }) {
+    const { error } = await getAdminClient()
+        .from('zoho_connections')
+        .update({
+            portal_id: portalId,
+            portal_name: portalName || null,
+            project_id: projectId,
+            project_name: projectName || null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('team_id', teamId);
+
+    if (error) throw error;
+}
+
+async function deleteConnection(teamId) {
+    const { error } = await getAdminClient().from('zoho_connections').delete().eq('team_id', teamId);
+    if (error) throw error;
+}
+
+/**
+ * Current access token for a team, refreshed and persisted when it is about to expire.
+ * Pass `force` after Zoho rejects a token that has not reached its expiry yet.
+ */
+async function getAccessToken(teamId, { force = false } = {}) {
+    const connection = await getConnection(teamId);
+    if (!connection) {
+        throw new Error('Zoho Projects is not connected for this team');
+    }
+
+    const expiresAt = connection.expires_at ? new Date(connection.expires_at).getTime() : 0;
+    if (!force && connection.access_token && expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+        return connection.access_token;
+    }
+
+    const tokens = await refreshAccessToken(connection.refresh_token);
+    await saveTokens(teamId, tokens);
+    return tokens.accessToken;
+}
+
+/**
+ * Connection details that are safe to return to the browser
+ */
+function toPublicConnection(connection) {
+    if (!connection) return { connected: false };
+    return {
+        connected: true,
+        portalId: connection.portal_id,
+        portalName: connection.portal_name,
+        projectId: connection.project_id,
+        projectName: connection.project_name,
+        connectedAt: connection.connected_at,
+    };
+}
+
+module.exports = {
+    getConnection,
+    saveTokens,
+    saveProjectSelection,
+    deleteConnection,
+    getAccessToken,
+    toPublicConnection,
+};
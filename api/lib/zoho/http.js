@@ -0,0 +1,24 @@
+/**
+ * Error responses shared by the api/zoho/* functions
+ */
+
+const { AuthError } = require('../auth');
+const { ZohoApiError } = require('./client');
+const { ZohoNotConfiguredError } = require('./taskSync');
+
+function sendZohoError(res, error, context) {
+    if (error instanceof AuthError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ZohoNotConfiguredError) {
+        return res.status(409).json({ error: error.message });
+    }
+
+    console.error(`[Zoho] ${context} failed:`, error);
+    if (error instanceof ZohoApiError) {
+        return res.status(502).json({ error: `Zoho Projects: ${error.message}` });
+    }
+    return res.status(500).json({ error: `${context} failed. Please try again.` });
+}
+
+module.exports = { sendZohoError };
@@ -0,0 +1,23 @@
+/**
+ * Zoho Projects integration
+ */
+
+const oauth = require('./oauth');
+const connections = require('./connections');
+const { createZohoClient, ZohoApiError } = require('./client');
+const { pushTasksToZoho, ZohoNotConfiguredError } = require('./taskSync');
+const { applyZohoTaskEvent, syncTaskStatusToZoho, toMeetingMindStatus } = require('./statusSync');
+const { getZohoConfig } = require('./config');
+
+module.exports = {
+    ...oauth,
+    ...connections,
+    createZohoClient,
+    ZohoApiError,
+    pushTasksToZoho,
+    ZohoNotConfiguredError,
+    applyZohoTaskEvent,
+    syncTaskStatusToZoho,
+    toMeetingMindStatus,
+    getZohoConfig,
+};
@@ -0,0 +1,122 @@
+/**
+ * Zoho OAuth 2.0: consent URL, code exchange and token refresh
+ */
+
+const crypto = require('crypto');
+const { getZohoConfig, ZOHO_SCOPES } = require('./config');
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const NONCE_COOKIE = 'zoho_oauth_nonce';
+
+function requireClientConfig() {
+    const config = getZohoConfig();
+    if (!config.clientId || !config.clientSecret || !config.redirectUri) {
+        throw new Error('ZOHO_CLIENT_ID, ZOHO_CLIENT_SECRET and ZOHO_REDIRECT_URI environment variables must be set');
+    }
+    return config;
+}
+
+const sign = (payload, secret) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+const safeEqual = (a, b) => a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * The OAuth state carries the team being connected, signed so the callback can trust it, and a
+ * nonce that /api/zoho/connect also sets as a cookie (see nonceCookie). The callback only accepts
+ * the state in the browser that started the flow, so a link with someone else's state is useless.
+ * @returns {{ state: string, nonce: string }}
+ */
+function createState({ teamId, userId }) {
+    const { stateSecret } = requireClientConfig();
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ teamId, userId, nonce, exp: Date.now() + STATE_TTL_MS })).toString('base64url');
+    return { state: `${payload}.${sign(payload, stateSecret)}`, nonce };
+}
+
+/**
+ * Set-Cookie value for the state's nonce. Lax, so it comes back on Zoho's redirect to the callback.
+ * Without a nonce it clears the cookie.
+ */
+function nonceCookie(nonce) {
+    const maxAge = nonce ? STATE_TTL_MS / 1000 : 0;
+    return `${NONCE_COOKIE}=${nonce || ''}; Path=/api/zoho/callback; Max-Age=${maxAge}; HttpOnly; Secure; SameSite=Lax`;
+}
+
+function readNonceCookie(req) {
+    const cookies = String((req.headers && req.headers.cookie) || '').split(';');
+    const cookie = cookies.map(c => c.trim()).find(c => c.startsWith(`${NONCE_COOKIE}=`));
+    return cookie ? cookie.slice(NONCE_COOKIE.length + 1) : null;
+}
+
+/**
+ * The state's contents, or null when it is forged, expired or does not match the browser's nonce
+ */
+function verifyState(state, nonce) {
+    const { stateSecret } = requireClientConfig();
+    const [payload, signature] = String(state || '').split('.');
+    if (!payload || !signature) return null;
+
+    const expected = sign(payload, stateSecret);
+    if (!safeEqual(signature, expected)) {
+        return null;
+    }
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (!nonce || typeof data.nonce !== 'string' || !safeEqual(data.nonce, nonce)) return null;
+        return data.exp > Date.now() ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+function buildAuthorizeUrl(state) {
+    const config = requireClientConfig();
+    const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        scope: ZOHO_SCOPES.join(','),
+        redirect_uri: config.redirectUri,
+        access_type: 'offline',
+        prompt: 'consent',
+        state,
+    });
+    return `${config.accountsUrl}/oauth/v2/auth?${params}`;
+}
+
+async function requestToken(params) {
+    const config = requireClientConfig();
+    const response = await fetch(`${config.accountsUrl}/oauth/v2/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+            ...params,
+        }),
+    });
+
+    // Zoho reports OAuth failures as 200 responses with an `error` field
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.error) {
+        throw new Error(`Zoho token request failed: ${body.error || response.status}`);
+    }
+
+    return {
+        accessToken: body.access_token,
+        refreshToken: body.refresh_token,
+        expiresAt: new Date(Date.now() + (body.expires_in || 3600) * 1000).toISOString(),
+        apiDomain: body.api_domain,
+    };
+}
+
+function exchangeCode(code) {
+    const { redirectUri } = requireClientConfig();
+    return requestToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri });
+}
+
+function refreshAccessToken(refreshToken) {
+    return requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+module.exports = { createState, verifyState, nonceCookie, readNonceCookie, buildAuthorizeUrl, exchangeCode, refreshAccessToken };
@@ -0,0 +1,165 @@
+/**
+ * Two-way task status sync between MeetingMind and Zoho Projects.
+ * When both sides disagree, whichever changed last wins, and the resolution is written to task_sync_audit.
+ */
+
+const { getAdminClient } = require('../supabaseAdmin');
+const { getConnection } = require('./connections');
+const { createZohoClient, ZohoApiError } = require('./client');
+const { ZohoNotConfiguredError } = require('./taskSync');
+
+// Soft-deleted tasks stay deleted locally whatever happens in Zoho
+const SYNCED_STATUSES = ['pending', 'in-progress', 'completed'];
+
+// Default Zoho status names, preferred when a project has several statuses that map to the same one
+const DEFAULT_ZOHO_STATUS_NAMES = {
+    pending: 'open',
+    'in-progress': 'in progress',
+    completed: 'closed',
+};
+
+const TASK_COLUMNS = 'id, team_id, status, status_updated_at, zoho_task_id, zoho_project_id';
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+/**
+ * Zoho statuses are customizable, so map by type first and then by name
+ * @param {{ name?: string, type?: string }} zohoStatus
+ */
+function toMeetingMindStatus(zohoStatus) {
+    const name = normalize(zohoStatus.name);
+    if (normalize(zohoStatus.type) === 'closed' || /\b(closed|completed?|done|resolved)\b/.test(name)) {
+        return 'completed';
+    }
+    if (/\b(in progress|progress|doing|started|review)\b/.test(name)) {
+        return 'in-progress';
+    }
+    return 'pending';
+}
+
+function pickZohoStatus(zohoStatuses, status) {
+    const candidates = zohoStatuses.filter(s => toMeetingMindStatus(s) === status);
+    return candidates.find(s => normalize(s.name) === DEFAULT_ZOHO_STATUS_NAMES[status]) || candidates[0] || null;
+}
+
+async function recordAudit(entry) {
+    const { error } = await getAdminClient().from('task_sync_audit').insert(entry);
+    if (error) {
+        console.error('[Zoho] Failed to write sync audit entry:', error);
+    }
+}
+
+/**
+ * Resolve a status difference between a task and its Zoho task by last-writer-wins.
+ * Note that Zoho's last-updated time moves on any edit to the task, not only status changes.
+ *
+ * @param {Object} task - tasks row with TASK_COLUMNS
+ * @param {{ status: { name: string, type?: string }, updatedAt: number | null }} remote
+ * @param {'meetingmind' | 'zoho'} source - side whose change triggered the sync; wins ties
+ * @param {{ client: Object, portalId: string }} context
+ * @returns {Promise<{ status: string, winner: 'meetingmind' | 'zoho' | null }>}
+ */
+async function reconcileTaskStatus(task, remote, source, { client, portalId }) {
+    const remoteStatus = toMeetingMindStatus(remote.status);
+    if (!SYNCED_STATUSES.includes(task.status) || remoteStatus === task.status) {
+        return { status: task.status, winner: null };
+    }
+
+    const localTime = Date.parse(task.status_updated_at) || 0;
+    const remoteTime = remote.updatedAt || 0;
+    const winner = remoteTime > localTime || (remoteTime === localTime && source === 'zoho') ? 'zoho' : 'meetingmind';
+
+    if (winner === 'zoho') {
+        const { error } = await getAdminClient()
+            .from('tasks')
+            .update({
+                status: remoteStatus,
+                // Keep Zoho's time so a later local change still compares correctly
+                status_updated_at: new Date(remoteTime || Date.now()).toISOString(),
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', task.id);
+        if (error) throw error;
+    } else {
+        const zohoStatus = pickZohoStatus(await client.listTaskStatuses(portalId, task.zoho_project_id), task.status);
+        if (!zohoStatus) {
+            throw new ZohoApiError(`No Zoho Projects status matches "${task.status}"`, 422);
+        }
+        await client.updateTaskStatus(portalId, task.zoho_project_id, task.zoho_task_id, zohoStatus.id);
+    }
+
+    const resolvedStatus = winner === 'zoho' ? remoteStatus : task.status;
+    await recordAudit({
+        task_id: task.id,
+        team_id: task.team_id,
+        source,
+        winner,
+        local_status: task.status,
+        remote_status: remote.status.name,
+        resolved_status: resolvedStatus,
+        local_updated_at: task.status_updated_at,
+        remote_updated_at: remoteTime ? new Date(remoteTime).toISOString() : null,
+    });
+
+    return { status: resolvedStatus, winner };
+}
+
+async function getTeamClient(teamId) {
+    const connection = await getConnection(teamId);
+    if (!connection || !connection.portal_id) {
+        throw new ZohoNotConfiguredError('Zoho Projects is not connected for this team');
+    }
+    return { client: createZohoClient(teamId), portalId: connection.portal_id };
+}
+
+/**
+ * Apply a task event delivered by a Zoho Projects webhook
+ *
+ * @param {{ taskId: string, status: { name: string, type?: string }, updatedAt?: number | null }} event
+ * @returns {Promise<{ result: 'ignored' | 'unchanged' | 'resolved', taskId?: string, status?: string, winner?: string | null }>}
+ */
+async function applyZohoTaskEvent(event) {
+    const { data: task, error } = await getAdminClient()
+        .from('tasks')
+        .select(TASK_COLUMNS)
+        .eq('zoho_task_id', String(event.taskId))
+        .maybeSingle();
+    if (error) throw error;
+
+    // Tasks created in Zoho directly, or unlinked since
+    if (!task) {
+        return { result: 'ignored' };
+    }
+
+    const outcome = await reconcileTaskStatus(
+        task,
+        { status: event.status, updatedAt: event.updatedAt || Date.now() },
+        'zoho',
+        await getTeamClient(task.team_id)
+    );
+    return { result: outcome.winner ? 'resolved' : 'unchanged', taskId: task.id, ...outcome };
+}
+
+/**
+ * Push a MeetingMind status change to the linked Zoho task
+ *
+ * @param {Object} task - tasks row with TASK_COLUMNS
+ * @returns {Promise<{ status: string, winner: 'meetingmind' | 'zoho' | null }>}
+ */
+async function syncTaskStatusToZoho(task) {
+    if (!task.zoho_task_id || !SYNCED_STATUSES.includes(task.status)) {
+        return { status: task.status, winner: null };
+    }
+
+    const context = await getTeamClient(task.team_id);
+    const remote = await context.client.getTask(context.portalId, task.zoho_project_id, task.zoho_task_id);
+    return reconcileTaskStatus(task, remote, 'meetingmind', context);
+}
+
+module.exports = {
+    applyZohoTaskEvent,
+    syncTaskStatusToZoho,
+    reconcileTaskStatus,
+    toMeetingMindStatus,
+    TASK_COLUMNS,
+};
@@ -0,0 +1,118 @@
+/**
+ * Push MeetingMind tasks to the team's Zoho Projects project
+ */
+
+const { getAdminClient } = require('../supabaseAdmin');
+const { getConnection } = require('./connections');
+const { createZohoClient } = require('./client');
+
+class ZohoNotConfiguredError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'ZohoNotConfiguredError';
+    }
+}
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+/**
+ * Map MeetingMind assignees to Zoho project users: email first, then display name
+ */
+async function buildOwnerResolver(client, portalId, projectId, assigneeIds) {
+    const zohoUsers = await client.listProjectUsers(portalId, projectId);
+
+    const profiles = new Map();
+    if (assigneeIds.length > 0) {
+        const { data } = await getAdminClient()
+            .from('user_profiles')
+            .select('id, email, full_name, username')
+            .in('id', assigneeIds);
+        (data || []).forEach(profile => profiles.set(profile.id, profile));
+    }
+
+    return (task) => {
+        if (!task.assigned_to) return null;
+        const profile = profiles.get(task.assigned_to) || {};
+
+        const byEmail = profile.email && zohoUsers.find(u => normalize(u.email) === normalize(profile.email));
+        if (byEmail) return byEmail;
+
+        const names = [profile.full_name, profile.username, task.assigned_to_name].map(normalize).filter(Boolean);
+        return zohoUsers.find(u => names.includes(normalize(u.name))) || null;
+    };
+}
+
+/**
+ * Create a Zoho task for each row and store its ID and URL on the row.
+ * Rows already linked to Zoho are reported as created without pushing them again.
+ *
+ * @param {string} teamId
+ * @param {Object[]} taskRows - rows from public.tasks
+ * @param {{ projectId?: string }} [options] - overrides the team's selected project
+ * @returns {Promise<{ created: { taskId: string, title: string, url: string }[], errors: { title: string, error: string }[], warnings: string[] }>}
+ */
+async function pushTasksToZoho(teamId, taskRows, { projectId } = {}) {
+    const connection = await getConnection(teamId);
+    if (!connection) {
+        throw new ZohoNotConfiguredError('Zoho Projects is not connected for this team');
+    }
+
+    const portalId = connection.portal_id;
+    const targetProjectId = projectId || connection.project_id;
+    if (!portalId || !targetProjectId) {
+        throw new ZohoNotConfiguredError('Select a Zoho Projects portal and project for this team first');
+    }
+
+    const client = createZohoClient(teamId);
+    const assigneeIds = [...new Set(taskRows.map(t => t.assigned_to).filter(Boolean))];
+    const resolveOwner = await buildOwnerResolver(client, portalId, targetProjectId, assigneeIds);
+
+    const created = [];
+    const errors = [];
+    const warnings = [];
+
+    for (const task of taskRows) {
+        const title = task.title || task.description;
+
+        if (task.zoho_task_id) {
+            created.push({ taskId: task.zoho_task_id, title, url: task.zoho_task_url });
+            continue;
+        }
+
+        const owner = resolveOwner(task);
+        if (task.assigned_to && !owner) {
+            warnings.push(`No Zoho Projects user matches ${task.assigned_to_name || 'the assignee'} of "${title}"; created it unassigned.`);
+        }
+
+        try {
+            const zohoTask = await client.createTask(portalId, targetProjectId, {
+                name: title,
+                description: task.description !== title ? task.description : undefined,
+                priority: task.priority,
+                dueDate: task.due_date,
+                ownerIds: owner ? [owner.id] : [],
+            });
+
+            const { error } = await getAdminClient()
+                .from('tasks')
+                .update({
+                    zoho_task_id: zohoTask.id,
+                    zoho_task_url: zohoTask.url,
+                    zoho_project_id: targetProjectId,
+                })
+                .eq('id', task.id);
+            if (error) {
+                console.error('[Zoho] Failed to store Zoho task link:', error);
+            }
+
+            created.push({ taskId: zohoTask.id, title, url: zohoTask.url });
+        } catch (error) {
+            console.error(`[Zoho] Failed to create "${title}":`, error);
+            errors.push({ title, error: error.message });
+        }
+    }
+
+    return { created, errors, warnings };
+}
+
+module.exports = { pushTasksToZoho, ZohoNotConfiguredError };
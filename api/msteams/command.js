@@ -0,0 +1,7 @@
+const { ADAPTERS, handleChatRequest } = require('../lib/chat');
+
+/**
+ * POST - Microsoft Teams outgoing webhook (Callback URL: /api/msteams/command).
+ * Signed with the webhook's security token (MSTEAMS_WEBHOOK_SECRET); replies with an Adaptive Card.
+ */
+module.exports = (req, res) => handleChatRequest(ADAPTERS.msteams, req, res);
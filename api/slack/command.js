@@ -0,0 +1,7 @@
+const { ADAPTERS, handleChatRequest } = require('../lib/chat');
+
+/**
+ * POST - Slack slash command (Request URL: /api/slack/command).
+ * Signed with SLACK_SIGNING_SECRET; replies with Block Kit.
+ */
+module.exports = (req, res) => handleChatRequest(ADAPTERS.slack, req, res);
@@ -0,0 +1,99 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Transform } = require('stream');
+const { pipeline } = require('stream/promises');
+const { verifyRequestUser, AuthError } = require('./lib/auth');
+const { getTranscriptionBackend, formatTranscript, TranscriptionError } = require('./lib/transcription');
+
+const MAX_UPLOAD_BYTES = Number(process.env.TRANSCRIPTION_MAX_MB || 200) * 1024 * 1024;
+
+class UploadTooLargeError extends Error {}
+
+/**
+ * Stream the request body to disk, stopping once it passes the size limit
+ */
+async function saveUpload(req, filePath) {
+    // Express servers may already have buffered the body
+    if (Buffer.isBuffer(req.body)) {
+        if (req.body.length > MAX_UPLOAD_BYTES) throw new UploadTooLargeError();
+        return fs.promises.writeFile(filePath, req.body);
+    }
+
+    let received = 0;
+    const limit = new Transform({
+        transform(chunk, encoding, callback) {
+            received += chunk.length;
+            callback(received > MAX_UPLOAD_BYTES ? new UploadTooLargeError() : null, chunk);
+        },
+    });
+    await pipeline(req, limit, fs.createWriteStream(filePath));
+}
+
+/**
+ * POST ?language=en&speakers=3 with the recording as the raw body
+ * (Content-Type: audio/* or video/*, X-File-Name: original name)
+ * -> { transcript, speakers, segments, metadata }
+ *
+ * The transcript uses the "[mm:ss] Name: text" lines /api/extract and the heuristic extractor parse.
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // Verify the caller before running a long transcription
+    try {
+        await verifyRequestUser(req);
+    } catch (error) {
+        const status = error instanceof AuthError ? error.status : 401;
+        return res.status(status).json({ error: error.message });
+    }
+
+    const contentType = String(req.headers['content-type'] || '');
+    if (!/^(audio|video)\//.test(contentType)) {
+        return res.status(415).json({ error: 'Upload an audio or video file.' });
+    }
+
+    let backend;
+    try {
+        backend = getTranscriptionBackend();
+    } catch (error) {
+        return res.status(500).json({ error: error.message });
+    }
+
+    const query = req.query || {};
+    let fileName;
+    try {
+        fileName = path.basename(decodeURIComponent(String(req.headers['x-file-name'] || 'recording')));
+    } catch {
+        return res.status(400).json({ error: 'X-File-Name must be a URI-encoded file name.' });
+    }
+    const speakers = Math.min(Math.max(Number(query.speakers) || 2, 1), 26);
+
+    // One temp directory per upload, removed afterwards with everything the backend wrote there
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'meetingmind-'));
+    try {
+        const filePath = path.join(dir, `upload${path.extname(fileName)}`);
+        await saveUpload(req, filePath);
+
+        const { segments, metadata } = await backend.transcribe(filePath, { language: query.language || 'auto', speakers });
+
+        res.status(200).json({
+            transcript: formatTranscript(segments),
+            speakers: [...new Set(segments.map(s => s.speaker))],
+            segments,
+            metadata: { ...metadata, fileName, processedAt: new Date().toISOString() },
+        });
+    } catch (error) {
+        if (error instanceof UploadTooLargeError) {
+            return res.status(413).json({ error: `Recordings can be up to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.` });
+        }
+        console.error(`[Transcribe] ${backend.id} transcription failed:`, error);
+        const message = error instanceof TranscriptionError ? error.message : 'Transcription failed. Please try again.';
+        res.status(502).json({ error: message });
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+};
@@ -0,0 +1,36 @@
+const { verifyState, nonceCookie, readNonceCookie, exchangeCode, saveTokens, getZohoConfig } = require('../lib/zoho');
+
+/**
+ * GET ?code&state - OAuth redirect target registered with Zoho.
+ * Stores the team's tokens and sends the browser back to the team dashboard. Only the browser that
+ * started the flow (holding the nonce cookie from /api/zoho/connect) can complete it.
+ */
+module.exports = async (req, res) => {
+    const { code, state, error } = req.query || {};
+    const { appUrl } = getZohoConfig();
+
+    const redirect = (teamId, status) => {
+        const path = teamId ? `/teams/${teamId}/dashboard?zoho=${status}` : `/teams?zoho=${status}`;
+        res.writeHead(302, { Location: `${appUrl}${path}` });
+        res.end();
+    };
+
+    const session = verifyState(state, readNonceCookie(req));
+    // The state is single use in this browser
+    res.setHeader('Set-Cookie', nonceCookie(null));
+    if (!session) {
+        return res.status(400).json({ error: 'Invalid or expired authorization state. Please connect again.' });
+    }
+    if (error || !code) {
+        return redirect(session.teamId, 'denied');
+    }
+
+    try {
+        const tokens = await exchangeCode(code);
+        await saveTokens(session.teamId, tokens, session.userId);
+        redirect(session.teamId, 'connected');
+    } catch (err) {
+        console.error('[Zoho] OAuth callback failed:', err);
+        redirect(session.teamId, 'error');
+    }
+};
@@ -0,0 +1,28 @@
+const { verifyRequestUser } = require('../lib/auth');
+const { requireTeamAccess } = require('../lib/teamAccess');
+const { createState, nonceCookie, buildAuthorizeUrl } = require('../lib/zoho');
+const { sendZohoError } = require('../lib/zoho/http');
+
+/**
+ * POST { teamId } -> { url }
+ * Returns the Zoho consent URL; the browser navigates there and Zoho redirects back to /api/zoho/callback.
+ * The state's nonce is set as an httpOnly cookie, which the callback checks.
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const { user, supabase } = await verifyRequestUser(req);
+        const teamId = (req.body || {}).teamId;
+        await requireTeamAccess(supabase, user, teamId, { ownerOnly: true });
+
+        const { state, nonce } = createState({ teamId, userId: user.id });
+        res.setHeader('Set-Cookie', nonceCookie(nonce));
+        res.status(200).json({ url: buildAuthorizeUrl(state) });
+    } catch (error) {
+        sendZohoError(res, error, 'Starting Zoho authorization');
+    }
+};
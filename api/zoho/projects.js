@@ -0,0 +1,29 @@
+const { verifyRequestUser } = require('../lib/auth');
+const { requireTeamAccess } = require('../lib/teamAccess');
+const { createZohoClient } = require('../lib/zoho');
+const { sendZohoError } = require('../lib/zoho/http');
+
+/**
+ * GET ?teamId            -> { portals }
+ * GET ?teamId&portalId   -> { projects } in that portal
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const { user, supabase } = await verifyRequestUser(req);
+        const { teamId, portalId } = req.query || {};
+        await requireTeamAccess(supabase, user, teamId, { ownerOnly: true });
+
+        const client = createZohoClient(teamId);
+        if (portalId) {
+            return res.status(200).json({ projects: await client.listProjects(portalId) });
+        }
+        res.status(200).json({ portals: await client.listPortals() });
+    } catch (error) {
+        sendZohoError(res, error, 'Listing Zoho projects');
+    }
+};
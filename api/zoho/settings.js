@@ -0,0 +1,45 @@
+const { verifyRequestUser } = require('../lib/auth');
+const { requireTeamAccess } = require('../lib/teamAccess');
+const { getConnection, saveProjectSelection, deleteConnection, toPublicConnection } = require('../lib/zoho');
+const { sendZohoError } = require('../lib/zoho/http');
+
+/**
+ * GET ?teamId              -> connection status and selected portal/project (never the tokens)
+ * PUT { teamId, portalId, portalName, projectId, projectName } -> select the project tasks are pushed to
+ * DELETE ?teamId           -> disconnect
+ */
+module.exports = async (req, res) => {
+    try {
+        const { user, supabase } = await verifyRequestUser(req);
+        const teamId = req.method === 'PUT' ? (req.body || {}).teamId : (req.query || {}).teamId;
+
+        if (req.method === 'GET') {
+            await requireTeamAccess(supabase, user, teamId);
+            return res.status(200).json(toPublicConnection(await getConnection(teamId)));
+        }
+
+        await requireTeamAccess(supabase, user, teamId, { ownerOnly: true });
+
+        if (req.method === 'PUT') {
+            const { portalId, portalName, projectId, projectName } = req.body || {};
+            if (!portalId || !projectId) {
+                return res.status(400).json({ error: 'portalId and projectId are required' });
+            }
+            if (!(await getConnection(teamId))) {
+                return res.status(409).json({ error: 'Zoho Projects is not connected for this team' });
+            }
+            await saveProjectSelection(teamId, { portalId, portalName, projectId, projectName });
+            return res.status(200).json(toPublicConnection(await getConnection(teamId)));
+        }
+
+        if (req.method === 'DELETE') {
+            await deleteConnection(teamId);
+            return res.status(200).json({ connected: false });
+        }
+
+        res.setHeader('Allow', 'GET, PUT, DELETE');
+        res.status(405).json({ error: 'Method not allowed' });
+    } catch (error) {
+        sendZohoError(res, error, 'Updating Zoho settings');
+    }
+};
@@ -0,0 +1,39 @@
+const { verifyRequestUser } = require('../lib/auth');
+const { syncTaskStatusToZoho } = require('../lib/zoho');
+const { TASK_COLUMNS } = require('../lib/zoho/statusSync');
+const { sendZohoError } = require('../lib/zoho/http');
+
+/**
+ * POST { taskId } -> { status, winner }
+ * Called after a status change in MeetingMind. Pushes it to the linked Zoho task,
+ * unless Zoho changed later, in which case Zoho's status is applied here instead.
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const { supabase } = await verifyRequestUser(req);
+        const { taskId } = req.body || {};
+        if (!taskId) {
+            return res.status(400).json({ error: 'taskId is required' });
+        }
+
+        // Read through the caller's client so RLS decides which tasks they may sync
+        const { data: task, error } = await supabase
+            .from('tasks')
+            .select(TASK_COLUMNS)
+            .eq('id', taskId)
+            .maybeSingle();
+        if (error) throw error;
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found' });
+        }
+
+        res.status(200).json(await syncTaskStatusToZoho(task));
+    } catch (error) {
+        sendZohoError(res, error, 'Syncing task status to Zoho');
+    }
+};
@@ -0,0 +1,37 @@
+const { verifyRequestUser } = require('../lib/auth');
+const { requireTeamAccess } = require('../lib/teamAccess');
+const { pushTasksToZoho } = require('../lib/zoho');
+const { sendZohoError } = require('../lib/zoho/http');
+
+/**
+ * POST { teamId, taskIds, projectId? } -> { created, errors, warnings }
+ * Creates the given MeetingMind tasks in Zoho Projects and links them by Zoho task ID and URL.
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const { user, supabase } = await verifyRequestUser(req);
+        const { teamId, taskIds, projectId } = req.body || {};
+        await requireTeamAccess(supabase, user, teamId);
+
+        if (!Array.isArray(taskIds) || taskIds.length === 0) {
+            return res.status(400).json({ error: 'taskIds must be a non-empty array' });
+        }
+
+        // Read through the caller's client so RLS decides which tasks they may push
+        const { data: tasks, error } = await supabase
+            .from('tasks')
+            .select('*')
+            .eq('team_id', teamId)
+            .in('id', taskIds);
+        if (error) throw error;
+
+        res.status(200).json(await pushTasksToZoho(teamId, tasks || [], { projectId }));
+    } catch (error) {
+        sendZohoError(res, error, 'Creating Zoho tasks');
+    }
+};
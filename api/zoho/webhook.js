@@ -0,0 +1,44 @@
+const { applyZohoTaskEvent, getZohoConfig } = require('../lib/zoho');
+const { sendZohoError } = require('../lib/zoho/http');
+const { tokensMatch } = require('../lib/secrets');
+
+/**
+ * POST - Zoho Projects task webhook (Portal Settings > Developer Space > Webhooks).
+ * URL: /api/zoho/webhook?token=<ZOHO_WEBHOOK_SECRET> (or an X-Zoho-Webhook-Token header)
+ * Body (JSON or form): task_id, status (status name), status_type?, last_updated_time_long?
+ */
+module.exports = async (req, res) => {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { webhookSecret } = getZohoConfig();
+    if (!webhookSecret) {
+        console.error('[Zoho] ZOHO_WEBHOOK_SECRET is not set; rejecting webhook');
+        return res.status(503).json({ error: 'Zoho webhooks are not configured' });
+    }
+
+    const token = (req.query || {}).token || req.headers['x-zoho-webhook-token'];
+    if (!tokensMatch(token, webhookSecret)) {
+        return res.status(401).json({ error: 'Invalid webhook token' });
+    }
+
+    const body = req.body || {};
+    const taskId = body.task_id || body.taskId;
+    const statusName = body.status || body.status_name;
+    if (!taskId || !statusName) {
+        return res.status(400).json({ error: 'task_id and status are required' });
+    }
+
+    try {
+        const result = await applyZohoTaskEvent({
+            taskId,
+            status: { name: statusName, type: body.status_type },
+            updatedAt: Number(body.last_updated_time_long) || null,
+        });
+        res.status(200).json(result);
+    } catch (error) {
+        sendZohoError(res, error, 'Applying Zoho task update');
+    }
+};
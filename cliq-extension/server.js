@@ -1,52 +1,44 @@
 const express = require('express');
 const bodyParser = require('body-parser');
-const { mockExtractTasks } = require('./lib/extractor');
+// Same handlers the Vercel function in api/cliq.js uses
+const { handleCommand, handleAction, handleForm } = require('../api/lib/cliq/handlers');
+const cliq = require('../api/lib/chat/cliq');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
-// Cliq Slash Command Handler
-app.post('/cliq/command', (req, res) => {
-    console.log('Received Slash Command:', req.body);
 
-    const { arguments: args, user } = req.body;
-    const notes = args || '';
+// Slack and Teams sign the exact bytes they send, so keep them for verification
+const keepRawBody = (req, res, buf) => {
+    req.rawBody = buf.toString('utf8');
+};
+
+app.use(bodyParser.json({ verify: keepRawBody }));
+app.use(bodyParser.urlencoded({ extended: true, verify: keepRawBody }));
 
-    if (!notes.trim()) {
-        return res.json({
-            text: "Please provide meeting notes to extract tasks from. Usage: `/meetingmind <notes>`"
-        });
+const route = (handler) => async (req, res) => {
+    const verification = cliq.verify(req);
+    if (!verification.ok) {
+        return res.status(401).json(cliq.renderError(verification.reason));
     }
 
-    // Extract tasks
-    const result = mockExtractTasks(notes);
-    const tasks = result.tasks;
-
-    // Format response for Cliq
-    // We'll return a card or a formatted message
-    const taskList = tasks.map(t => {
-        let icon = '⚪';
-        if (t.priority === 'high') icon = '🔴';
-        if (t.priority === 'medium') icon = '🟡';
-
-        return `${icon} *${t.title}*\n${t.assignee ? `👤 Assigned to: ${t.assignee}` : ''} ${t.dueDate ? `📅 Due: ${t.dueDate}` : ''}`;
-    }).join('\n\n');
-
-    const response = {
-        text: `### 📝 Extracted Tasks\n\n${taskList}\n\n[Create in Zoho Projects](https://projects.zoho.com/portal/YOUR_PORTAL_ID)`,
-        card: {
-            title: "MeetingMind AI - Extracted Tasks",
-            theme: "modern-inline",
-            thumbnail: "https://www.zoho.com/sites/default/files/cliq/images/extensions/default-extension-icon.png", // Replace with actual icon URL
-            rows: tasks.map(t => ({
-                title: t.title,
-                description: `${t.assignee ? '👤 ' + t.assignee : 'Unassigned'} | ${t.dueDate ? '📅 ' + t.dueDate : 'No Date'}`,
-                image: t.priority === 'high' ? "https://img.icons8.com/color/48/high-priority.png" : "https://img.icons8.com/color/48/medium-priority.png"
-            }))
-        }
-    };
-
-    res.json(response);
-});
+    console.log(`Received Cliq request (${req.path}):`, req.body);
+    try {
+        res.json(await handler(req.body || {}));
+    } catch (error) {
+        console.error('[Cliq] Request failed:', error);
+        res.json(cliq.renderText('⚠️ Something went wrong while handling that. Please try again.'));
+    }
+};
+
+// Cliq Slash Command Handler
+app.post('/cliq/command', route(handleCommand));
+// Card buttons and forms, forwarded by the extension's functions
+app.post('/cliq/action', route(handleAction));
+app.post('/cliq/form', route(handleForm));
+
+// Slack and Microsoft Teams, at the same paths as the Vercel functions
+app.post('/api/slack/command', require('../api/slack/command'));
+app.post('/api/msteams/command', require('../api/msteams/command'));
 
 app.listen(PORT, () => {
     console.log(`Server is running on port ${PORT}`);
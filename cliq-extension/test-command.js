@@ -15,6 +15,8 @@ const options = {
     method: 'POST',
     headers: {
         'Content-Type': 'application/json',
+        // Must match the server's CLIQ_WEBHOOK_SECRET
+        'X-Cliq-Token': process.env.CLIQ_WEBHOOK_SECRET || '',
         'Content-Length': data.length
     }
 };
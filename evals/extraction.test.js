@@ -0,0 +1,52 @@
+/**
+ * Extraction quality evals: every extractor against every annotated transcript in
+ * evals/fixtures, reporting precision, recall and field accuracy, and failing when a
+ * score drops below evals/baseline.json.
+ *
+ * Model-backed extractors replay evals/recordings. To record fresh responses (needs the
+ * provider's API key): EVAL_RECORD=gemini,openai npm run eval
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+
+const { loadFixtures } = require('./lib/fixtures');
+const { scoreFixture, summarize, formatReport } = require('./lib/metrics');
+const { EXTRACTORS, canRun, runExtractor } = require('./lib/extractors');
+const baseline = require('./baseline.json');
+
+const fixtures = loadFixtures();
+const recording = new Set((process.env.EVAL_RECORD || '').split(',').map(id => id.trim()).filter(Boolean));
+const reports = [];
+
+for (const extractor of EXTRACTORS) {
+    describe(extractor, () => {
+        const record = recording.has(extractor);
+        const runnable = fixtures.filter(fixture => canRun(extractor, fixture, { record }));
+        const results = [];
+
+        for (const fixture of fixtures) {
+            it.skipIf(!runnable.includes(fixture))(fixture.id, async () => {
+                const { tasks, stale } = await runExtractor(extractor, fixture, { record });
+                results.push({ ...scoreFixture(fixture, tasks), stale });
+            });
+        }
+
+        it.skipIf(runnable.length === 0)('meets the baseline', () => {
+            const summary = summarize(results);
+            reports.push(formatReport(extractor, summary, results));
+
+            const minimum = baseline[extractor] || {};
+            for (const metric of ['precision', 'recall']) {
+                expect(summary[metric], `${extractor} ${metric}`).toBeGreaterThanOrEqual(minimum[metric] ?? 0);
+            }
+            for (const [field, score] of Object.entries(summary.fields)) {
+                if (score === null) continue;
+                expect(score, `${extractor} ${field} accuracy`).toBeGreaterThanOrEqual(minimum.fields?.[field] ?? 0);
+            }
+        });
+    });
+}
+
+afterAll(() => {
+    console.log(`\n${reports.join('\n\n')}\n`);
+});
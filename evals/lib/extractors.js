@@ -0,0 +1,58 @@
+/**
+ * Run each extractor on a fixture the way the extraction endpoint would
+ */
+
+const { PROVIDERS } = require('../../api/lib/providers');
+const { buildPrompt, generateValidatedTasks } = require('../../api/lib/llm');
+const { resolvePromptVersion } = require('../../api/lib/prompts');
+const { promptHash, hasRecording, loadRecording, saveRecording, createReplay, createRecorder } = require('./replay');
+
+// Model-backed extractors are replayed from evals/recordings/<id>
+const EXTRACTORS = ['heuristic', 'gemini', 'openai'];
+
+/**
+ * Whether the extractor can run on this fixture: the heuristic always can, models
+ * need a recording unless they are being recorded
+ */
+function canRun(extractor, fixture, { record = false } = {}) {
+    return extractor === 'heuristic' || record || hasRecording(extractor, fixture.id);
+}
+
+/**
+ * @param {string} extractor
+ * @param {import('./fixtures').Fixture} fixture
+ * @param {{ record?: boolean }} [options] - call the live model and save its responses
+ * @returns {Promise<{ tasks: Object[], stale?: boolean }>}
+ */
+async function runExtractor(extractor, fixture, { record = false } = {}) {
+    const provider = PROVIDERS[extractor];
+    if (extractor === 'heuristic') {
+        return provider.extract(fixture.transcript, { dates: fixture.dates });
+    }
+
+    // EVAL_PROMPT_VERSION compares an older or newer template against the same fixtures
+    const version = resolvePromptVersion(process.env.EVAL_PROMPT_VERSION);
+    const prompt = buildPrompt(fixture.transcript, fixture.teamMembers, fixture.dates, { version, instructions: fixture.instructions });
+    const context = { transcript: fixture.transcript, dates: fixture.dates };
+
+    if (record) {
+        const model = process.env.EVAL_MODEL || provider.defaultModel;
+        const recorder = createRecorder(provider.createGenerators({ model }).generate);
+        const { tasks } = await generateValidatedTasks(recorder.generate, prompt, context);
+        saveRecording(extractor, fixture.id, {
+            provider: extractor,
+            model,
+            promptVersion: version,
+            recordedAt: new Date().toISOString(),
+            promptHash: promptHash(prompt),
+            responses: recorder.responses,
+        });
+        return { tasks };
+    }
+
+    const recording = loadRecording(extractor, fixture.id);
+    const { tasks } = await generateValidatedTasks(createReplay(recording), prompt, context);
+    return { tasks, stale: recording.promptHash !== promptHash(prompt) };
+}
+
+module.exports = { EXTRACTORS, canRun, runExtractor };
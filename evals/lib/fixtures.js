@@ -0,0 +1,57 @@
+/**
+ * Load the annotated transcripts in evals/fixtures
+ *
+ * Each fixture is a transcript file (.txt, .vtt, .srt - anything the app imports) plus a
+ * .json annotation next to it naming the transcript, the meeting day, the team and the
+ * tasks a careful human would write down.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { importTranscript, parseTranscript } = require('@meetingmind/extraction');
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+/**
+ * @typedef {Object} ExpectedTask
+ * @property {string} title
+ * @property {string} evidence - words from the transcript the task comes from
+ * @property {string|null} assignee - a team member's full_name, or null when nobody owns it
+ * @property {string|null} dueDate - YYYY-MM-DD
+ * @property {'high'|'medium'|'low'} [priority] - only scored when annotated
+ *
+ * @typedef {Object} Fixture
+ * @property {string} id
+ * @property {string} description
+ * @property {import('@meetingmind/extraction').Transcript} transcript
+ * @property {import('@meetingmind/extraction').DateContext} dates
+ * @property {Object[]} teamMembers
+ * @property {import('../../api/lib/prompts').TeamInstructions} [instructions] - the team's prompt additions
+ * @property {ExpectedTask[]} expected
+ */
+
+/** @returns {Fixture[]} */
+function loadFixtures() {
+    return fs.readdirSync(FIXTURES_DIR)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => {
+            const id = path.basename(file, '.json');
+            const annotation = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+            const raw = fs.readFileSync(path.join(FIXTURES_DIR, annotation.transcript), 'utf8');
+            // Same path as the app: import the file, then parse the notes it produces
+            const { transcript } = importTranscript(raw, { fileName: annotation.transcript });
+
+            return {
+                id,
+                description: annotation.description,
+                transcript: parseTranscript(transcript),
+                dates: { ...annotation.dates, meetingDate: annotation.meetingDate },
+                teamMembers: annotation.teamMembers,
+                instructions: annotation.instructions,
+                expected: annotation.expected,
+            };
+        });
+}
+
+module.exports = { loadFixtures, FIXTURES_DIR };
@@ -0,0 +1,126 @@
+/**
+ * Score extracted tasks against a fixture's annotated tasks
+ *
+ * Each annotated task is paired with at most one extracted task: the one that quotes its
+ * evidence (in its source text, or its title when the extractor gives none) and has a
+ * similar title, else either of the two. Unpaired annotations count
+ * against recall, unpaired extractions against precision, and assignee, due date and
+ * priority are then checked on the pairs only.
+ */
+
+const { areSimilarTasks, resolveAssignee } = require('@meetingmind/extraction');
+
+const FIELDS = ['assignee', 'dueDate', 'priority'];
+
+const normalize = (text) => String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function pairScore(expected, task) {
+    const evidence = normalize(expected.evidence);
+    const quotes = Boolean(evidence) && normalize(task.sourceText || task.title).includes(evidence);
+    const similar = areSimilarTasks({ title: expected.title }, { title: task.title }, 0.5);
+    return Number(quotes) + Number(similar);
+}
+
+// The member the app would assign, so "Sasha" counts for "Alexander Novak" when that is his alias
+function assignedMember(task, members) {
+    if (!task.assignee) return null;
+    const { match } = resolveAssignee(task.assignee, members);
+    return match ? match.full_name : task.assignee;
+}
+
+function checkFields(expected, task, members) {
+    const fields = {
+        assignee: assignedMember(task, members) === (expected.assignee || null),
+        dueDate: (task.dueDate || null) === (expected.dueDate || null),
+    };
+    if (expected.priority) fields.priority = task.priority === expected.priority;
+    return fields;
+}
+
+/**
+ * @param {import('./fixtures').Fixture} fixture
+ * @param {Object[]} tasks - what the extractor returned
+ */
+function scoreFixture(fixture, tasks) {
+    const candidates = [];
+    fixture.expected.forEach((expected, e) => {
+        tasks.forEach((task, t) => {
+            const score = pairScore(expected, task);
+            if (score > 0) candidates.push({ e, t, score });
+        });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const pairedExpected = new Set();
+    const pairedTasks = new Set();
+    const matched = [];
+    for (const { e, t } of candidates) {
+        if (pairedExpected.has(e) || pairedTasks.has(t)) continue;
+        pairedExpected.add(e);
+        pairedTasks.add(t);
+        const expected = fixture.expected[e];
+        matched.push({ expected, task: tasks[t], fields: checkFields(expected, tasks[t], fixture.teamMembers) });
+    }
+
+    return {
+        id: fixture.id,
+        expectedCount: fixture.expected.length,
+        extractedCount: tasks.length,
+        matched,
+        missed: fixture.expected.filter((_, e) => !pairedExpected.has(e)),
+        extra: tasks.filter((_, t) => !pairedTasks.has(t)),
+    };
+}
+
+const ratio = (part, whole) => (whole === 0 ? null : part / whole);
+
+/**
+ * Micro-averaged over every fixture, so a fixture with many tasks weighs more
+ * @param {ReturnType<typeof scoreFixture>[]} results
+ */
+function summarize(results) {
+    const matched = results.reduce((sum, r) => sum + r.matched.length, 0);
+    const extracted = results.reduce((sum, r) => sum + r.extractedCount, 0);
+    const expected = results.reduce((sum, r) => sum + r.expectedCount, 0);
+    const precision = ratio(matched, extracted) ?? 0;
+    const recall = ratio(matched, expected) ?? 0;
+
+    const fields = {};
+    for (const field of FIELDS) {
+        const checked = results.flatMap(r => r.matched).filter(pair => field in pair.fields);
+        fields[field] = ratio(checked.filter(pair => pair.fields[field]).length, checked.length);
+    }
+
+    return {
+        fixtures: results.length,
+        precision,
+        recall,
+        f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall),
+        fields,
+    };
+}
+
+const percent = (value) => (value === null ? '   -' : `${Math.round(value * 100)}%`.padStart(4));
+
+/** Plain-text report: the summary line, then what each fixture missed or got wrong */
+function formatReport(extractor, summary, results) {
+    const lines = [
+        `${extractor}: ${summary.fixtures} fixtures  precision ${percent(summary.precision)}  recall ${percent(summary.recall)}  f1 ${percent(summary.f1)}`
+        + `  | assignee ${percent(summary.fields.assignee)}  due date ${percent(summary.fields.dueDate)}  priority ${percent(summary.fields.priority)}`,
+    ];
+    for (const result of results) {
+        const wrong = result.matched.filter(pair => Object.values(pair.fields).includes(false));
+        if (!result.missed.length && !result.extra.length && !wrong.length) continue;
+        lines.push(`  ${result.id}${result.stale ? ' (recorded with an older prompt)' : ''}`);
+        result.missed.forEach(expected => lines.push(`    missed: ${expected.title}`));
+        result.extra.forEach(task => lines.push(`    extra:  ${task.title}`));
+        wrong.forEach(({ expected, task, fields }) => {
+            const fieldNames = Object.keys(fields).filter(field => !fields[field]);
+            const got = fieldNames.map(field => `${field} ${JSON.stringify(task[field] ?? null)}, expected ${JSON.stringify(expected[field] ?? null)}`);
+            lines.push(`    wrong:  ${expected.title} (${got.join('; ')})`);
+        });
+    }
+    return lines.join('\n');
+}
+
+module.exports = { scoreFixture, summarize, formatReport };
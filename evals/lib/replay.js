@@ -0,0 +1,57 @@
+/**
+ * Record and replay model responses, so model-backed extractors are evaluated offline
+ *
+ * A recording holds the raw text of every response the model gave for one fixture,
+ * including repair rounds, and a hash of the prompt it answered. Replaying feeds those
+ * responses back through the same validation and post-processing as a live call; a
+ * changed prompt still replays, but the report marks the recording as stale.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const RECORDINGS_DIR = path.join(__dirname, '..', 'recordings');
+
+const promptHash = (prompt) => crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 12);
+
+const recordingPath = (providerId, fixtureId) => path.join(RECORDINGS_DIR, providerId, `${fixtureId}.json`);
+
+function hasRecording(providerId, fixtureId) {
+    return fs.existsSync(recordingPath(providerId, fixtureId));
+}
+
+function loadRecording(providerId, fixtureId) {
+    return JSON.parse(fs.readFileSync(recordingPath(providerId, fixtureId), 'utf8'));
+}
+
+function saveRecording(providerId, fixtureId, recording) {
+    fs.mkdirSync(path.join(RECORDINGS_DIR, providerId), { recursive: true });
+    fs.writeFileSync(recordingPath(providerId, fixtureId), `${JSON.stringify(recording, null, 2)}\n`);
+}
+
+/** A generate() that answers with the recorded responses in order */
+function createReplay(recording) {
+    let next = 0;
+    return async () => {
+        if (next >= recording.responses.length) {
+            throw new Error(`The recording has no response for call ${next + 1}; record it again with EVAL_RECORD`);
+        }
+        return recording.responses[next++];
+    };
+}
+
+/** Wrap a live generate() and keep every response it returns */
+function createRecorder(generate) {
+    const responses = [];
+    return {
+        responses,
+        generate: async (messages) => {
+            const text = await generate(messages);
+            responses.push(text);
+            return text;
+        },
+    };
+}
+
+module.exports = { promptHash, hasRecording, loadRecording, saveRecording, createReplay, createRecorder };
@@ -0,0 +1,12 @@
+/**
+ * Extraction evals run with the frontend's vitest from the repo root:
+ * `npm run eval` (see README), no browser environment needed
+ */
+module.exports = {
+    test: {
+        include: ['evals/**/*.test.js'],
+        environment: 'node',
+        // Recording calls the live model, which can take a while per fixture
+        testTimeout: 120000,
+    },
+};
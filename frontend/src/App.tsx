@@ -24,6 +24,7 @@ import Login from './pages/Login';
 import AuthCallback from './pages/AuthCallback';
 import Teams from './pages/Teams';
 import TeamDashboard from './pages/TeamDashboard';
+import Meetings from './pages/Meetings';
 import ProfileSettings from './pages/ProfileSettings';
 import ProtectedRoute from './components/ProtectedRoute';
 import { useAuth } from './contexts/AuthContext';
@@ -207,7 +208,7 @@ function App() {
             }
           />
           <Route
-            path="/preview"
+            path="/drafts/:draftId"
             element={
               <ProtectedRoute>
                 <PreviewTasks />
@@ -247,6 +248,14 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/teams/:teamId/meetings"
+            element={
+              <ProtectedRoute>
+                <Meetings />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/profile"
             element={
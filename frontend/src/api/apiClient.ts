@@ -6,21 +6,46 @@
  */
 
 import { supabase } from '../lib/supabase';
-import { clientSideExtractTasks } from '../services/taskExtraction';
+import { clientSideExtractTasks, type ExtractOptions } from '../services/taskExtraction';
 import TasksService from '../services/tasksService';
 import TeamsService from '../services/teamsService';
+import MeetingsService, { type CreateMeetingInput } from '../services/meetingsService';
+import DraftsService, { type CreateDraftInput, type DraftChanges } from '../services/draftsService';
+import ZohoService from '../services/zohoService';
+import TranscriptionService, { type TranscribeOptions } from '../services/transcriptionService';
+import type { RuleConfig, DateSettings, ReextractionDiff } from '@meetingmind/extraction';
 
 // ============================================================================
 // Types  
 // ============================================================================
 
 export interface ExtractedTask {
+  // Links a reviewed task to the extracted task it came from, across re-extractions
+  key?: string;
   title: string;
   description: string;
   assignee?: string;
   priority?: 'low' | 'medium' | 'high';
   dueDate?: string; // ISO 8601 format
+  optional?: boolean;
+  inferred?: boolean;
+  confidence?: string;
+  sourceText?: string;
+  evidenceContext?: string;
+  // "mm:ss" of the speaker turn the task came from
+  timestamp?: string;
+  // Quotes from every transcript chunk the task was mentioned in
+  evidence?: string[];
   matchedUser?: UserProfile;
+  // Members an ambiguous assignee name could mean, best first; cleared once one is picked
+  assigneeCandidates?: AssigneeCandidate[];
+}
+
+export interface AssigneeCandidate {
+  // A team member row or a profile, whichever the extraction matched against
+  member: UserProfile & { name?: string; user_id?: string };
+  score: number; // 0 to 1
+  reason: 'exact' | 'alias' | 'name' | 'initials' | 'prefix' | 'fuzzy';
 }
 
 export interface ExtractRequest {
@@ -31,16 +56,75 @@ export interface ExtractResponse {
   tasks: ExtractedTask[];
   metadata?: {
     processedAt: string;
+    provider?: ExtractionProviderId;
     model?: string;
+    transcriptLength?: number;
+    chunks?: number;
+    // Set when the user cancelled a streamed extraction; tasks holds what arrived before that
+    cancelled?: boolean;
+    // Per-field errors for tasks the model could not return validly, even after a retry
+    validationErrors?: string[];
+    // Prompt template and team instructions the model was given, so the run can be reproduced
+    promptVersion?: string;
+    instructions?: TeamInstructions;
+    // Returned from the extraction cache instead of a new model run
+    cached?: boolean;
+  };
+}
+
+export type ExtractionProviderId = 'gemini' | 'openai' | 'local' | 'heuristic';
+
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  // "[mm:ss] Name: text" lines, ready for extractTasks
+  transcript: string;
+  // Speaker labels in order of first appearance; SpeakerA, SpeakerB, ... when the backend can't name them
+  speakers: string[];
+  segments: TranscriptSegment[];
+  metadata: {
+    backend: string;
+    model: string;
+    language?: string;
+    durationSeconds: number;
+    fileName: string;
+    processedAt: string;
   };
 }
 
+// Team additions to the model prompt; the heuristic provider ignores them
+export interface TeamInstructions {
+  glossary?: { term: string; meaning: string }[];
+  titleStyle?: string;
+  priorityRules?: string;
+  ignoreTerms?: string[];
+}
+
+export interface TeamExtractionSettings {
+  provider?: ExtractionProviderId;
+  model?: string;
+  // Heuristic rule set: disabled rule ids, extra filler phrases, custom rules
+  rules?: RuleConfig;
+  // Time zone, holidays and sprint cadence that due dates like "by Friday" resolve against
+  dates?: DateSettings;
+  // Prompt template to pin, e.g. 'extract-v1'; the latest when unset
+  promptVersion?: string;
+  instructions?: TeamInstructions;
+}
+
 export interface CreateTasksRequest {
   tasks: ExtractedTask[];
-  projectId?: string; // Zoho project ID
+  meetingId?: string;
+  projectId?: string; // Zoho project ID; defaults to the team's selected project
 }
 
 export interface CreateTasksResponse {
+  // Tasks created in Zoho Projects (Zoho task ID and web URL)
   created: {
     taskId: string;
     title: string;
@@ -54,6 +138,54 @@ export interface CreateTasksResponse {
   data?: any[];
 }
 
+export interface Meeting {
+  id: string;
+  team_id: string;
+  title: string;
+  meeting_date: string;
+  attendees: string[];
+  transcript: string;
+  extraction: ExtractResponse['metadata'];
+  created_by: string | null;
+  created_at: string;
+  tasks?: {
+    id: string;
+    title: string | null;
+    description: string;
+    status: string;
+    priority: string;
+    assigned_to_name: string | null;
+    due_date: string | null;
+  }[];
+}
+
+export type DraftStatus = 'draft' | 'reviewed' | 'publishing' | 'published';
+
+export interface ExtractionDraft {
+  id: string;
+  team_id: string | null;
+  status: DraftStatus;
+  notes: string;
+  tasks: ExtractedTask[];
+  // The last extraction with task keys, which a re-extraction is reconciled against
+  baseline: ExtractedTask[];
+  // What the last re-extraction changed, until dismissed
+  diff: ReextractionDiff<ExtractedTask> | null;
+  extraction: ExtractResponse['metadata'];
+  warnings: string[];
+  // Meeting details; null until edited in review
+  title: string | null;
+  meeting_date: string | null;
+  attendees: string[] | null;
+  // Set while publishing, once the meeting is recorded
+  meeting_id: string | null;
+  revision: number;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Team {
   id: string;
   name: string;
@@ -79,6 +211,8 @@ export interface UserProfile {
   username: string;
   full_name: string;
   role: string;
+  // Nicknames the user goes by in meetings, matched against extracted assignee names
+  aliases?: string[];
 }
 
 // ============================================================================
@@ -93,9 +227,22 @@ export interface UserProfile {
 
 /**
  * Extract tasks from meeting notes using AI (client-side)
+ * Pass `onTask` to receive tasks as they stream in, and `signal` to cancel mid-stream
+ */
+export async function extractTasks(
+  notes: string,
+  teamMembers: any[] = [],
+  teamId?: string,
+  streamOptions: Pick<ExtractOptions, 'onTask' | 'signal' | 'refresh' | 'meetingDate'> = {}
+): Promise<ExtractResponse> {
+  return clientSideExtractTasks(notes, teamMembers, { teamId, ...streamOptions });
+}
+
+/**
+ * Transcribe an audio or video recording into a speaker-labelled transcript
  */
-export async function extractTasks(notes: string, teamMembers: any[] = []): Promise<ExtractResponse> {
-  return clientSideExtractTasks(notes, teamMembers);
+export async function transcribeRecording(file: File, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+  return TranscriptionService.transcribe(file, options);
 }
 
 /**
@@ -104,9 +251,90 @@ export async function extractTasks(notes: string, teamMembers: any[] = []): Prom
 export async function createTasks(
   tasks: ExtractedTask[],
   teamId: string,
-  assignedBy: string
-): Promise<any> {
-  return TasksService.createTasks(tasks, teamId, assignedBy);
+  assignedBy: string,
+  options: Omit<CreateTasksRequest, 'tasks'> = {}
+): Promise<CreateTasksResponse> {
+  const data = await TasksService.createTasks(tasks, teamId, assignedBy, options.meetingId);
+  const response: CreateTasksResponse = { created: [], data };
+
+  // Also create them in Zoho Projects when the team has a project selected
+  const zoho = await ZohoService.getConnection(teamId).catch(() => null);
+  if (options.projectId || zoho?.projectId) {
+    try {
+      const pushed = await ZohoService.pushTasks(teamId, data.map((task: any) => task.id), options.projectId);
+      response.created = pushed.created;
+      response.errors = pushed.errors;
+      response.warnings = pushed.warnings;
+    } catch (error: any) {
+      console.error('Failed to create tasks in Zoho Projects:', error);
+      response.warnings = [`Tasks were saved but not created in Zoho Projects: ${error.message}`];
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Record the meeting a batch of tasks was extracted from (client-side)
+ */
+export async function createMeeting(input: CreateMeetingInput): Promise<Meeting> {
+  return MeetingsService.createMeeting(input);
+}
+
+/**
+ * Get a team's meetings with their tasks (client-side)
+ */
+export async function getTeamMeetings(teamId: string): Promise<Meeting[]> {
+  return MeetingsService.getMeetings(teamId);
+}
+
+/**
+ * Delete a meeting record; its tasks are kept (client-side)
+ */
+export async function deleteMeeting(meetingId: string): Promise<void> {
+  return MeetingsService.deleteMeeting(meetingId);
+}
+
+/**
+ * Save an extraction as a draft that survives reloads and can be shared with the team (client-side)
+ */
+export async function createDraft(input: CreateDraftInput): Promise<ExtractionDraft> {
+  return DraftsService.createDraft(input);
+}
+
+/**
+ * Get a draft; null when missing or not shared with the user (client-side)
+ */
+export async function getDraft(draftId: string): Promise<ExtractionDraft | null> {
+  return DraftsService.getDraft(draftId);
+}
+
+/**
+ * Finish or undo a publish that was interrupted; other drafts are returned as they are (client-side)
+ */
+export async function settleDraft(draft: ExtractionDraft, userId: string): Promise<ExtractionDraft> {
+  return DraftsService.settleInterruptedPublish(draft, userId);
+}
+
+/**
+ * Get a team's unpublished drafts (client-side)
+ */
+export async function getTeamDrafts(teamId: string): Promise<ExtractionDraft[]> {
+  return DraftsService.getTeamDrafts(teamId);
+}
+
+/**
+ * Save changes to a draft; null when someone else saved it first (client-side)
+ */
+export async function updateDraft(draft: ExtractionDraft, changes: DraftChanges, userId: string): Promise<ExtractionDraft | null> {
+  return DraftsService.updateDraft(draft, changes, userId);
+}
+
+/**
+ * Delete a draft (client-side)
+ */
+export async function deleteDraft(draftId: string): Promise<void> {
+  return DraftsService.deleteDraft(draftId);
 }
 
 /**
@@ -158,6 +386,20 @@ export async function getTeamStats(teamId: string): Promise<any> {
   return TeamsService.getTeamStats(teamId);
 }
 
+/**
+ * Get a team's extraction provider settings (client-side)
+ */
+export async function getTeamExtractionSettings(teamId: string): Promise<TeamExtractionSettings> {
+  return TeamsService.getExtractionSettings(teamId);
+}
+
+/**
+ * Update a team's extraction provider settings (client-side)
+ */
+export async function updateTeamExtractionSettings(teamId: string, settings: TeamExtractionSettings): Promise<TeamExtractionSettings> {
+  return TeamsService.updateExtractionSettings(teamId, settings);
+}
+
 /**
  * Get user's teams (client-side)
  */
@@ -350,219 +592,3 @@ export async function legacyFetch(endpoint: string, options: RequestInit = {}) {
   console.warn(`[Deprecated] Direct API call to ${endpoint} - use client-side functions instead`);
   throw new Error(`API endpoint ${endpoint} moved to client-side. Check console for details.`);
 }
-
-// ============================================================================
-// Mock Data (for demo purposes)
-// ============================================================================
-
-/**
- * Mock task extraction for offline demo
- * Returns deterministic results based on input length
- */
-export function mockExtractTasks(notes: string): ExtractResponse {
-  // console.log('[Mock Extractor] Starting extraction, input length:', notes.length);
-  const tasks: ExtractedTask[] = [];
-
-  // Filler patterns to ignore
-  const FILLER_PATTERNS = [
-    /^hi[,! ]?$/i, /^hello[,! ]?$/i, /^morning[,! ]?$/i, /^good morning/i,
-    /^yeah[,! ]?$/i, /^yep[,! ]?$/i, /^okay[,! ]?$/i, /^ok[,! ]?$/i,
-    /^all good/i, /^sounds good/i, /^no blockers/i, /^bye[,! ]?$/i,
-    /^great[,! ]?$/i, /^perfect[,! ]?$/i, /^no issues/i, /^on track/i,
-  ];
-
-  // Action indicators
-  const ACTION_VERBS = [
-    'finish', 'complete', 'start', 'begin', 'fix', 'prepare', 'push',
-    'deploy', 'integrate', 'update', 'design', 'layout', 'testing',
-    'test', 'release', 'close', 'review', 'cache', 'authentication'
-  ];
-
-  // Date extraction
-  function extractDueDate(text: string): string | undefined {
-    const monthMap: Record<string, string> = {
-      jan: '01', january: '01', feb: '02', february: '02', mar: '03', march: '03',
-      apr: '04', april: '04', may: '05', jun: '06', june: '06', jul: '07',
-      july: '07', aug: '08', august: '08', sep: '09', sept: '09', september: '09',
-      oct: '10', october: '10', nov: '11', november: '11', dec: '12', december: '12'
-    };
-
-    const md = text.match(/(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)\s+(\d{1,2})/i);
-    if (md) {
-      const month = monthMap[md[1].toLowerCase()];
-      const day = md[2].padStart(2, '0');
-      return `${new Date().getFullYear()}-${month}-${day}`;
-    }
-
-    if (/tomorrow/i.test(text)) {
-      const d = new Date();
-      d.setDate(d.getDate() + 1);
-      return d.toISOString().split('T')[0];
-    }
-
-    if (/today|eod|end of day/i.test(text)) {
-      return new Date().toISOString().split('T')[0];
-    }
-
-    return undefined;
-  }
-
-  // Heuristic timestamp-speaker extraction (primary strategy for transcripts)
-  let currentSpeaker: string | undefined;
-  const todayISO = new Date().toISOString().split('T')[0];
-  const transcriptLines = notes.split('\n').map(l => l.trim()).filter(Boolean);
-
-  const pushTask = (title: string, opts: { assignee?: string; dueDate?: string }) => {
-    if (tasks.some(t => t.title.toLowerCase().includes(title.toLowerCase().substring(0, 20)))) return;
-    tasks.push({
-      title,
-      description: `Extracted from transcript`,
-      assignee: opts.assignee,
-      dueDate: opts.dueDate,
-      priority: 'medium',
-    });
-  };
-
-  for (const rawLine of transcriptLines) {
-    // Parse speaker from timestamp format: [00:22] Seenu: or 00:22 Seenu:
-    const speakerMatch = rawLine.match(/^(?:\[?\d{2}:\d{2}(?::\d{2})?\]?\s+)([A-Z][a-z]+)(?:\s*\([^)]*\))?:\s*(.+)$/i);
-    if (speakerMatch) {
-      currentSpeaker = speakerMatch[1].trim();
-      const content = speakerMatch[2].trim();
-
-      // Check if this speaker line contains a task commitment
-      const lower = content.toLowerCase();
-
-      // Pattern: "I can/will do X" - speaker commits to task
-      if (/^i\s+(can|will|'ll)\s+(.+)/i.test(content)) {
-        const taskMatch = content.match(/^i\s+(?:can|will|'ll)\s+(.+)/i);
-        if (taskMatch) {
-          const taskDesc = taskMatch[1].replace(/\.$/, ''); // Remove trailing period
-          pushTask(taskDesc, { assignee: currentSpeaker, dueDate: extractDueDate(taskDesc) });
-        }
-      }
-      continue;
-    }
-
-    // Parse non-speaker lines (usually manager assigning tasks)
-    const line = rawLine.replace(/[""]/g, '"').replace(/[']/g, "'");
-    if (FILLER_PATTERNS.some(p => p.test(line))) continue;
-    const lower = line.toLowerCase();
-
-    // Pattern: "Name, after X, can you Y" or "Name, can you Y"
-    const canYouMatch = line.match(/([A-Z][a-z]+),\s+(?:after\s+[^,]+,\s+)?can\s+you\s+(.+?)\?/i);
-    if (canYouMatch) {
-      const assignee = canYouMatch[1];
-      const taskDesc = canYouMatch[2];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "who's doing X" - indicates need for assignment
-    const whosMatch = line.match(/who'?s\s+(doing|updating|handling)\s+(.+?)\?/i);
-    if (whosMatch) {
-      const action = whosMatch[1];
-      const taskDesc = `${action} ${whosMatch[2]}`;
-      pushTask(taskDesc, { dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "we need X" - indicates required task
-    const needMatch = line.match(/we\s+need\s+(.+?)\./i);
-    if (needMatch) {
-      const taskDesc = needMatch[1];
-      pushTask(taskDesc, { dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "Name to do X by Date"
-    const taskMatch = line.match(/([A-Z][a-z]+)\s+to\s+(.+?)\s+by\s+(\w+)/i);
-    if (taskMatch) {
-      const assignee = taskMatch[1];
-      const taskDesc = taskMatch[2];
-      const deadline = taskMatch[3];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(`by ${deadline}`) });
-    }
-
-    // Pattern: "Name will do X"
-    const willMatch = line.match(/([A-Z][a-z]+)\s+will\s+(.+)/i);
-    if (willMatch) {
-      const assignee = willMatch[1];
-      const taskDesc = willMatch[2];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "Name needs to X"
-    const needsMatch = line.match(/([A-Z][a-z]+)\s+needs?\s+to\s+(.+)/i);
-    if (needsMatch) {
-      const assignee = needsMatch[1];
-      const taskDesc = needsMatch[2];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "Name mentioned/said he/she will X"
-    const mentionedMatch = line.match(/([A-Z][a-z]+)\s+(?:mentioned|said)\s+(?:he|she|they)\s+(?:will|'ll|needs?\s+to)\s+(.+)/i);
-    if (mentionedMatch) {
-      const assignee = mentionedMatch[1];
-      const taskDesc = mentionedMatch[2];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "told/asked Name to do X"
-    const toldMatch = line.match(/(?:told|asked)\s+([A-Z][a-z]+)\s+to\s+(.+)/i);
-    if (toldMatch) {
-      const assignee = toldMatch[1];
-      const taskDesc = toldMatch[2];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "Name, this is your task - X"
-    const yourTaskMatch = line.match(/([A-Z][a-z]+),\s+this\s+is\s+your\s+task\s*[-:]\s*(.+)/i);
-    if (yourTaskMatch) {
-      const assignee = yourTaskMatch[1];
-      const taskDesc = yourTaskMatch[2];
-      pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-    }
-
-    // Pattern: "someone should X" - unassigned task
-    const someoneMatch = line.match(/someone\s+should\s+(.+)/i);
-    if (someoneMatch) {
-      const taskDesc = someoneMatch[1];
-      pushTask(taskDesc, { dueDate: extractDueDate(taskDesc) });
-    }
-  }
-
-  // Process bullet points and action items if present
-  const bulletMatches = notes.match(/^\s*[-*•]\s+(.+)$/gm);
-  if (bulletMatches) {
-    for (const bullet of bulletMatches) {
-      const cleanBullet = bullet.replace(/^\s*[-*•]\s+/, '').trim();
-      if (FILLER_PATTERNS.some(p => p.test(cleanBullet))) continue;
-
-      // Check if bullet contains assignment
-      const assigneeMatch = cleanBullet.match(/([A-Z][a-z]+)\s+(?:to|will|needs?\s+to|should)\s+(.+)/i);
-      if (assigneeMatch) {
-        const assignee = assigneeMatch[1];
-        const taskDesc = assigneeMatch[2];
-        pushTask(taskDesc, { assignee, dueDate: extractDueDate(taskDesc) });
-      } else if (cleanBullet.length > 10) {
-        pushTask(cleanBullet, { dueDate: extractDueDate(cleanBullet) });
-      }
-    }
-  }
-
-  // Fallback for non-transcript notes
-  if (tasks.length === 0) {
-    tasks.push({
-      title: 'Review meeting notes',
-      description: notes.substring(0, 200),
-      priority: 'low',
-    });
-  }
-
-  // console.log('[Mock Extractor] Completed, extracted', tasks.length, 'tasks');
-  return {
-    tasks,
-    metadata: {
-      processedAt: new Date().toISOString(),
-      model: 'mock-extractor-v1',
-    },
-  };
-}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { FiMessageSquare, FiKey, FiTrash2, FiAlertCircle, FiCopy } from 'react-icons/fi';
+import CliqService, { CliqUserLink } from '../services/cliqService';
+
+interface CliqAccountLinkProps {
+    userId: string;
+}
+
+const CliqAccountLink = ({ userId }: CliqAccountLinkProps) => {
+    const [links, setLinks] = useState<CliqUserLink[]>([]);
+    const [linkCode, setLinkCode] = useState<{ code: string; expires_at: string } | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadLinks = async () => {
+        try {
+            setLinks(await CliqService.getUserLinks(userId));
+        } catch (err) {
+            console.error('Failed to load Cliq links:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadLinks();
+    }, [userId]);
+
+    const handleCreateCode = async () => {
+        setCreating(true);
+        setError(null);
+        try {
+            setLinkCode(await CliqService.createLinkCode(userId));
+        } catch (err: any) {
+            console.error('Failed to create Cliq link code:', err);
+            setError(err.message || 'Failed to create a link code');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleUnlink = async (link: CliqUserLink) => {
+        try {
+            await CliqService.unlinkUser(link.cliq_user_id);
+            setLinks(links.filter(l => l.cliq_user_id !== link.cliq_user_id));
+        } catch (err: any) {
+            console.error('Failed to unlink Cliq account:', err);
+            setError(err.message || 'Failed to unlink');
+        }
+    };
+
+    const command = linkCode ? `/meetingmind link ${linkCode.code}` : '';
+
+    return (
+        <div className="border border-gray-200 rounded-xl overflow-hidden">
+            <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center gap-2">
+                <FiMessageSquare className="w-5 h-5 text-gray-400" />
+                <h3 className="text-sm font-semibold text-gray-900">Zoho Cliq</h3>
+            </div>
+
+            <div className="p-4 space-y-4">
+                <p className="text-sm text-gray-500">
+                    Link your Cliq account so <code className="px-1 py-0.5 bg-gray-100 rounded text-xs">/meetingmind</code> commands act as you.
+                </p>
+
+                {error && (
+                    <div className="p-3 rounded-lg text-sm flex items-center gap-2 bg-red-50 text-red-700">
+                        <FiAlertCircle className="w-4 h-4" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                {loading ? (
+                    <div className="flex justify-center items-center h-12">
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-orange-500"></div>
+                    </div>
+                ) : links.length > 0 && (
+                    <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                        {links.map(link => (
+                            <li key={link.cliq_user_id} className="px-4 py-3 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 truncate">{link.cliq_user_name || link.cliq_user_id}</p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {link.cliq_user_email ? `${link.cliq_user_email} · ` : ''}Linked {new Date(link.linked_at).toLocaleDateString()}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleUnlink(link)}
+                                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    title="Unlink Cliq account"
+                                >
+                                    <FiTrash2 className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {linkCode ? (
+                    <div className="p-4 bg-orange-50 border border-orange-100 rounded-lg space-y-2">
+                        <p className="text-sm text-gray-700">Send this in any Cliq chat within 10 minutes:</p>
+                        <div className="flex items-center gap-2">
+                            <code className="flex-1 px-3 py-2 bg-white border border-orange-200 rounded font-mono text-sm">{command}</code>
+                            <button
+                                onClick={() => navigator.clipboard?.writeText(command)}
+                                className="p-2 text-gray-500 hover:text-orange-600 hover:bg-white rounded-lg transition-colors"
+                                title="Copy command"
+                            >
+                                <FiCopy className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <button onClick={loadLinks} className="text-xs font-medium text-orange-700 hover:text-orange-900">
+                            I've sent it, refresh
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={handleCreateCode}
+                        disabled={creating}
+                        className="inline-flex items-center gap-2 px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 disabled:opacity-50"
+                    >
+                        <FiKey className="w-4 h-4" />
+                        {creating ? 'Creating...' : 'Create Link Code'}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CliqAccountLink;
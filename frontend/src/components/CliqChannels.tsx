@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { FiMessageSquare, FiPlus, FiTrash2, FiAlertCircle, FiCheck } from 'react-icons/fi';
+import { useAuth } from '../contexts/AuthContext';
+import CliqService, { CliqChannelLink } from '../services/cliqService';
+
+interface CliqChannelsProps {
+    teamId: string;
+}
+
+const CliqChannels = ({ teamId }: CliqChannelsProps) => {
+    const { user } = useAuth();
+    const [links, setLinks] = useState<CliqChannelLink[]>([]);
+    const [chatId, setChatId] = useState('');
+    const [channelName, setChannelName] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        const loadLinks = async () => {
+            try {
+                setLoading(true);
+                setLinks(await CliqService.getChannelLinks(teamId));
+            } catch (error) {
+                console.error('Failed to load Cliq channels:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadLinks();
+    }, [teamId]);
+
+    const handleLink = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user || !chatId.trim()) return;
+
+        setSaving(true);
+        setMessage(null);
+        try {
+            const link = await CliqService.linkChannel(teamId, chatId.trim(), channelName.trim(), user.id);
+            setLinks([...links, link]);
+            setChatId('');
+            setChannelName('');
+            setMessage({ type: 'success', text: 'Channel linked. Task cards posted there now have action buttons.' });
+            setTimeout(() => setMessage(null), 3000);
+        } catch (error: any) {
+            console.error('Failed to link Cliq channel:', error);
+            setMessage({ type: 'error', text: error.message || 'Failed to link channel' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleUnlink = async (link: CliqChannelLink) => {
+        try {
+            await CliqService.unlinkChannel(link.chat_id);
+            setLinks(links.filter(l => l.chat_id !== link.chat_id));
+        } catch (error: any) {
+            console.error('Failed to unlink Cliq channel:', error);
+            setMessage({ type: 'error', text: error.message || 'Failed to unlink channel' });
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
+            <div className="p-6 border-b border-gray-200 flex items-center gap-2">
+                <FiMessageSquare className="w-5 h-5 text-gray-400" />
+                <h2 className="text-lg font-semibold text-gray-900">Cliq Channels</h2>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center items-center h-24">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-500"></div>
+                </div>
+            ) : (
+                <div className="p-6 space-y-4">
+                    {message && (
+                        <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                            {message.type === 'success' ? <FiCheck className="w-4 h-4" /> : <FiAlertCircle className="w-4 h-4" />}
+                            <span>{message.text}</span>
+                        </div>
+                    )}
+
+                    <p className="text-sm text-gray-500">
+                        Run <code className="px-1 py-0.5 bg-gray-100 rounded text-xs">/meetingmind</code> in a channel to see its chat ID.
+                        Team members who have linked their Cliq account can create this team's tasks from cards posted there.
+                    </p>
+
+                    {links.length > 0 && (
+                        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                            {links.map(link => (
+                                <li key={link.chat_id} className="px-4 py-3 flex items-center justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{link.channel_name || link.chat_id}</p>
+                                        {link.channel_name && <p className="text-xs text-gray-500 font-mono truncate">{link.chat_id}</p>}
+                                    </div>
+                                    <button
+                                        onClick={() => handleUnlink(link)}
+                                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                        title="Unlink channel"
+                                    >
+                                        <FiTrash2 className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <form onSubmit={handleLink} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3">
+                        <input
+                            type="text"
+                            value={chatId}
+                            onChange={(e) => setChatId(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all font-mono text-sm"
+                            placeholder="Chat ID, e.g. CT_1234567890_123"
+                        />
+                        <input
+                            type="text"
+                            value={channelName}
+                            onChange={(e) => setChannelName(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all text-sm"
+                            placeholder="Channel name (optional)"
+                        />
+                        <button
+                            type="submit"
+                            disabled={saving || !chatId.trim()}
+                            className="inline-flex items-center justify-center gap-2 px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 disabled:opacity-50"
+                        >
+                            <FiPlus className="w-4 h-4" />
+                            {saving ? 'Linking...' : 'Link Channel'}
+                        </button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CliqChannels;
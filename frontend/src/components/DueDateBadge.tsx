@@ -0,0 +1,27 @@
+import { FiCalendar } from 'react-icons/fi';
+
+interface DueDateBadgeProps {
+  dueDate?: string | null;
+  status?: string;
+}
+
+// due_date is a plain date; parse it as local midnight so it doesn't shift a day west of UTC
+const parseDueDate = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00`);
+
+function DueDateBadge({ dueDate, status }: DueDateBadgeProps) {
+  if (!dueDate) return null;
+
+  const date = parseDueDate(dueDate);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const isOverdue = status !== 'completed' && date < today;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+      <FiCalendar className="w-3 h-3" />
+      {isOverdue ? 'Overdue' : 'Due'} {new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(date)}
+    </span>
+  );
+}
+
+export default DueDateBadge;
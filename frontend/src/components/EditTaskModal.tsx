@@ -13,15 +13,19 @@ const EditTaskModal = ({ isOpen, onClose, onSave, task, members = [] }: EditTask
     const [title, setTitle] = useState('');
     const [description, setDescription] = useState('');
     const [priority, setPriority] = useState('medium');
+    const [dueDate, setDueDate] = useState('');
+    const [optional, setOptional] = useState(false);
     const [assignedTo, setAssignedTo] = useState('');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
         if (task) {
-            setTitle(task.title || '');
+            setTitle(task.title || task.description || '');
             setDescription(task.description || '');
             setPriority(task.priority || 'medium');
+            setDueDate(task.due_date || '');
+            setOptional(Boolean(task.optional));
             setAssignedTo(task.assigned_to || '');
             setError(null);
         }
@@ -34,7 +38,7 @@ const EditTaskModal = ({ isOpen, onClose, onSave, task, members = [] }: EditTask
         setLoading(true);
         setError(null);
         try {
-            const updates: any = { title, description, priority };
+            const updates: any = { title, description, priority, due_date: dueDate || null, optional };
             if (assignedTo !== task.assigned_to) {
                 updates.assigned_to = assignedTo || null;
             }
@@ -92,6 +96,27 @@ const EditTaskModal = ({ isOpen, onClose, onSave, task, members = [] }: EditTask
                         />
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+                            <input
+                                type="date"
+                                value={dueDate}
+                                onChange={(e) => setDueDate(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 mt-6 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={optional}
+                                onChange={(e) => setOptional(e.target.checked)}
+                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            Optional (nice to have)
+                        </label>
+                    </div>
+
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">Assignee</label>
                         <select
@@ -134,6 +159,23 @@ const EditTaskModal = ({ isOpen, onClose, onSave, task, members = [] }: EditTask
                         </div>
                     </div>
 
+                    {(task.source_text || task.inferred || task.confidence) && (
+                        <div className="bg-gray-50 border border-gray-100 rounded-lg p-3 space-y-2">
+                            <div className="flex items-center gap-2 text-xs text-gray-500">
+                                <span className="font-medium uppercase tracking-wider">From the meeting</span>
+                                {task.inferred && (
+                                    <span className="px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">Inferred</span>
+                                )}
+                                {task.confidence && (
+                                    <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 capitalize">{task.confidence} confidence</span>
+                                )}
+                            </div>
+                            {task.source_text && (
+                                <p className="text-sm text-gray-600 italic">"{task.source_text}"</p>
+                            )}
+                        </div>
+                    )}
+
                     <div className="pt-4 flex gap-3">
                         <button
                             type="button"
@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { FiCpu, FiSave, FiAlertCircle, FiCheck } from 'react-icons/fi';
+import { DEFAULT_RULES } from '@meetingmind/extraction';
+import { getTeamExtractionSettings, updateTeamExtractionSettings, ExtractionProviderId, TeamExtractionSettings } from '../api/apiClient';
+
+interface ExtractionSettingsProps {
+    teamId: string;
+}
+
+// Mirrors the provider registry in api/lib/providers
+const PROVIDERS: { id: ExtractionProviderId; name: string; description: string; defaultModel: string }[] = [
+    { id: 'gemini', name: 'Google Gemini', description: 'Hosted Gemini models (default).', defaultModel: 'gemini-2.5-flash' },
+    { id: 'openai', name: 'OpenAI', description: 'OpenAI or any hosted OpenAI-compatible API.', defaultModel: 'gpt-4o-mini' },
+    { id: 'local', name: 'Local model', description: 'Ollama or llama.cpp server configured on the API.', defaultModel: 'llama3.1' },
+    { id: 'heuristic', name: 'Heuristic', description: 'Rule-based extraction, no model calls.', defaultModel: 'mock-extractor-v1' },
+];
+
+// Mirrors the prompt templates in api/lib/prompts, newest first
+const PROMPT_VERSIONS = ['extract-v2', 'extract-v1'];
+
+// Shown as the default, which is also what the browser's own extraction uses
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const ExtractionSettings = ({ teamId }: ExtractionSettingsProps) => {
+    const [provider, setProvider] = useState<ExtractionProviderId>('gemini');
+    const [model, setModel] = useState('');
+    const [rules, setRules] = useState<NonNullable<TeamExtractionSettings['rules']>>({});
+    const [fillerPhrases, setFillerPhrases] = useState('');
+    const [timeZone, setTimeZone] = useState('');
+    const [holidays, setHolidays] = useState('');
+    const [sprintStart, setSprintStart] = useState('');
+    const [sprintWeeks, setSprintWeeks] = useState(2);
+    const [promptVersion, setPromptVersion] = useState('');
+    const [glossary, setGlossary] = useState('');
+    const [titleStyle, setTitleStyle] = useState('');
+    const [priorityRules, setPriorityRules] = useState('');
+    const [ignoreTerms, setIgnoreTerms] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    useEffect(() => {
+        const loadSettings = async () => {
+            try {
+                setLoading(true);
+                const settings = await getTeamExtractionSettings(teamId);
+                setProvider(settings.provider || 'gemini');
+                setModel(settings.model || '');
+                setRules(settings.rules || {});
+                setFillerPhrases((settings.rules?.fillerPhrases || []).join('\n'));
+                setTimeZone(settings.dates?.timeZone || '');
+                setHolidays((settings.dates?.holidays || []).join('\n'));
+                setSprintStart(settings.dates?.sprint?.start || '');
+                setSprintWeeks(settings.dates?.sprint?.weeks || 2);
+                setPromptVersion(settings.promptVersion || '');
+                setGlossary((settings.instructions?.glossary || []).map(g => `${g.term}: ${g.meaning}`).join('\n'));
+                setTitleStyle(settings.instructions?.titleStyle || '');
+                setPriorityRules(settings.instructions?.priorityRules || '');
+                setIgnoreTerms((settings.instructions?.ignoreTerms || []).join(', '));
+            } catch (error) {
+                console.error('Failed to load extraction settings:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadSettings();
+    }, [teamId]);
+
+    const selectedProvider = PROVIDERS.find(p => p.id === provider) || PROVIDERS[0];
+    const disabledRules = rules.disabledRules || [];
+
+    const toggleRule = (ruleId: string) => {
+        setRules({
+            ...rules,
+            disabledRules: disabledRules.includes(ruleId)
+                ? disabledRules.filter(id => id !== ruleId)
+                : [...disabledRules, ruleId],
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setMessage(null);
+
+        const holidayList = holidays.split('\n').map(h => h.trim()).filter(Boolean);
+        const invalidHoliday = holidayList.find(h => !/^\d{4}-\d{2}-\d{2}$/.test(h));
+        if (invalidHoliday) {
+            setMessage({ type: 'error', text: `"${invalidHoliday}" is not a YYYY-MM-DD date` });
+            setSaving(false);
+            return;
+        }
+
+        const glossaryLines = glossary.split('\n').map(line => line.trim()).filter(Boolean);
+        const invalidTerm = glossaryLines.find(line => !/^[^:]+:.+$/.test(line));
+        if (invalidTerm) {
+            setMessage({ type: 'error', text: `Glossary line "${invalidTerm}" should read "term: meaning"` });
+            setSaving(false);
+            return;
+        }
+
+        try {
+            await updateTeamExtractionSettings(teamId, {
+                provider,
+                model: model.trim() || undefined,
+                rules: {
+                    ...rules,
+                    fillerPhrases: fillerPhrases.split('\n').map(p => p.trim()).filter(Boolean),
+                },
+                dates: {
+                    timeZone: timeZone.trim() || undefined,
+                    holidays: [...new Set(holidayList)].sort(),
+                    sprint: sprintStart ? { start: sprintStart, weeks: sprintWeeks } : undefined,
+                },
+                promptVersion: promptVersion || undefined,
+                instructions: {
+                    glossary: glossaryLines.map(line => {
+                        const separator = line.indexOf(':');
+                        return { term: line.slice(0, separator).trim(), meaning: line.slice(separator + 1).trim() };
+                    }),
+                    titleStyle: titleStyle.trim() || undefined,
+                    priorityRules: priorityRules.trim() || undefined,
+                    ignoreTerms: ignoreTerms.split(',').map(t => t.trim()).filter(Boolean),
+                },
+            });
+            setMessage({ type: 'success', text: 'Extraction settings saved' });
+            setTimeout(() => setMessage(null), 3000);
+        } catch (error: any) {
+            console.error('Failed to save extraction settings:', error);
+            setMessage({ type: 'error', text: error.message || 'Failed to save settings' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
+            <div className="p-6 border-b border-gray-200 flex items-center gap-2">
+                <FiCpu className="w-5 h-5 text-gray-400" />
+                <h2 className="text-lg font-semibold text-gray-900">Extraction Settings</h2>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center items-center h-24">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-500"></div>
+                </div>
+            ) : (
+                <form onSubmit={handleSave} className="p-6 space-y-4">
+                    {message && (
+                        <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                            {message.type === 'success' ? <FiCheck className="w-4 h-4" /> : <FiAlertCircle className="w-4 h-4" />}
+                            <span>{message.text}</span>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+                            <select
+                                value={provider}
+                                onChange={(e) => setProvider(e.target.value as ExtractionProviderId)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                            >
+                                {PROVIDERS.map(p => (
+                                    <option key={p.id} value={p.id}>{p.name}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">{selectedProvider.description}</p>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+                            <input
+                                type="text"
+                                value={model}
+                                onChange={(e) => setModel(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                placeholder={selectedProvider.defaultModel}
+                            />
+                            <p className="text-xs text-gray-500 mt-1">Leave empty to use {selectedProvider.defaultModel}.</p>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Team Instructions</label>
+                        <p className="text-xs text-gray-500 mb-2">
+                            Added to the prompt for Gemini, OpenAI and local models, and followed over the general rules. Each extraction records the prompt version and instructions it used.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Glossary</label>
+                                <textarea
+                                    value={glossary}
+                                    onChange={(e) => setGlossary(e.target.value)}
+                                    rows={3}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all resize-none font-mono text-sm"
+                                    placeholder={'One term per line, e.g.\nP0: a production outage'}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Priority rules</label>
+                                <textarea
+                                    value={priorityRules}
+                                    onChange={(e) => setPriorityRules(e.target.value)}
+                                    rows={3}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all resize-none text-sm"
+                                    placeholder="e.g. Anything a customer reported is high priority"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Task title style</label>
+                                <input
+                                    type="text"
+                                    value={titleStyle}
+                                    onChange={(e) => setTitleStyle(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                    placeholder="e.g. Bug: <area> - <symptom>"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Never create tasks about</label>
+                                <input
+                                    type="text"
+                                    value={ignoreTerms}
+                                    onChange={(e) => setIgnoreTerms(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                    placeholder="Comma-separated, e.g. lunch, offsite"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Prompt version</label>
+                                <select
+                                    value={promptVersion}
+                                    onChange={(e) => setPromptVersion(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                >
+                                    <option value="">Latest ({PROMPT_VERSIONS[0]})</option>
+                                    {PROMPT_VERSIONS.map(version => (
+                                        <option key={version} value={version}>{version}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Heuristic Rules</label>
+                        <p className="text-xs text-gray-500 mb-2">Used by the Heuristic provider.</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {DEFAULT_RULES.map(rule => (
+                                <label key={rule.id} className="flex items-start gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={!disabledRules.includes(rule.id)}
+                                        onChange={() => toggleRule(rule.id)}
+                                        className="mt-1 rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                                    />
+                                    <span>{rule.description}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Ignore Lines Starting With</label>
+                        <textarea
+                            value={fillerPhrases}
+                            onChange={(e) => setFillerPhrases(e.target.value)}
+                            rows={3}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all resize-none font-mono text-sm"
+                            placeholder={'One phrase per line, e.g.\nthanks everyone'}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Due Dates</label>
+                        <p className="text-xs text-gray-500 mb-2">
+                            Phrases like "by Friday", "in two weeks" or "end of sprint" count from the meeting day in this time zone, and skip weekends and holidays.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Time zone</label>
+                                <input
+                                    type="text"
+                                    value={timeZone}
+                                    onChange={(e) => setTimeZone(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                    placeholder={BROWSER_TIME_ZONE}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">A sprint started on</label>
+                                <input
+                                    type="date"
+                                    value={sprintStart}
+                                    onChange={(e) => setSprintStart(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Sprint length</label>
+                                <select
+                                    value={sprintWeeks}
+                                    onChange={(e) => setSprintWeeks(Number(e.target.value))}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                >
+                                    {[1, 2, 3, 4].map(weeks => (
+                                        <option key={weeks} value={weeks}>{weeks} {weeks === 1 ? 'week' : 'weeks'}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <label className="block text-xs text-gray-500 mt-3 mb-1">Holidays</label>
+                        <textarea
+                            value={holidays}
+                            onChange={(e) => setHolidays(e.target.value)}
+                            rows={3}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all resize-none font-mono text-sm"
+                            placeholder={'One date per line, e.g.\n2026-11-09'}
+                        />
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 disabled:opacity-50"
+                        >
+                            <FiSave className="w-4 h-4" />
+                            {saving ? 'Saving...' : 'Save Settings'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default ExtractionSettings;
@@ -0,0 +1,82 @@
+import { ExtractedTask } from '../api/apiClient';
+import type { ReextractionDiff } from '@meetingmind/extraction';
+import { FiRefreshCw, FiX } from 'react-icons/fi';
+
+interface ReextractionSummaryProps {
+  diff: ReextractionDiff<ExtractedTask>;
+  // Put back a task the new extraction no longer found
+  onRestore: (task: ExtractedTask) => void;
+  onDismiss: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  assignee: 'assignee',
+  priority: 'priority',
+  dueDate: 'due date',
+  optional: 'optional',
+};
+
+const fieldList = (fields: string[]) => fields.map(field => FIELD_LABELS[field] || field).join(', ');
+
+/**
+ * What changed when the notes were extracted again, next to the tasks already reviewed
+ */
+function ReextractionSummary({ diff, onRestore, onDismiss }: ReextractionSummaryProps) {
+  const dropped = diff.removed.filter(removal => !removal.kept);
+  const keptRemoved = diff.removed.filter(removal => removal.kept);
+
+  if (diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-blue-50 border border-blue-100 rounded-lg">
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <div className="flex items-center gap-2">
+          <FiRefreshCw className="w-4 h-4 text-blue-600" />
+          <h4 className="text-sm font-medium text-blue-900">Extracted again: your edits were kept</h4>
+        </div>
+        <button onClick={onDismiss} className="text-blue-400 hover:text-blue-700" title="Dismiss">
+          <FiX className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="text-sm text-blue-800 space-y-1">
+        {diff.added.map(task => (
+          <li key={task.key}>
+            <span className="font-medium">New:</span> {task.title}
+          </li>
+        ))}
+        {diff.changed.map(({ task, fields, kept }) => (
+          <li key={task.key}>
+            <span className="font-medium">Updated:</span> {task.title}
+            {fields.length > 0 && <span className="text-blue-700"> ({fieldList(fields)} from the new extraction)</span>}
+            {kept.length > 0 && <span className="text-blue-700"> (kept your {fieldList(kept)})</span>}
+          </li>
+        ))}
+        {keptRemoved.map(({ task }) => (
+          <li key={task.key}>
+            <span className="font-medium">No longer in the notes:</span> {task.title}
+            <span className="text-blue-700"> (kept, since you edited it)</span>
+          </li>
+        ))}
+        {dropped.map(({ task }) => (
+          <li key={task.key} className="flex items-center gap-2">
+            <span>
+              <span className="font-medium">Removed:</span> {task.title}
+            </span>
+            <button
+              onClick={() => onRestore(task)}
+              className="text-xs font-medium text-blue-700 underline hover:text-blue-900"
+            >
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default ReextractionSummary;
@@ -1,7 +1,7 @@
 
 import { useState } from 'react';
-import { ExtractedTask } from '../api/apiClient';
-import { FiEdit2, FiTrash2, FiCheck, FiUser, FiFlag } from 'react-icons/fi';
+import { ExtractedTask, AssigneeCandidate } from '../api/apiClient';
+import { FiEdit2, FiTrash2, FiCheck, FiUser, FiFlag, FiClock, FiHelpCircle } from 'react-icons/fi';
 
 interface TeamMember {
   id: string;
@@ -15,10 +15,15 @@ interface TaskRowProps {
   teamMembers?: TeamMember[];
   onUpdate: (task: ExtractedTask) => void;
   onRemove: () => void;
+  // Selecting a row highlights its source quote in the transcript
+  isSelected?: boolean;
+  onSelect?: () => void;
+  // Open in edit mode, e.g. for a task just created from a transcript selection
+  defaultEditing?: boolean;
 }
 
-function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
-  const [isEditing, setIsEditing] = useState(false);
+function TaskRow({ task, teamMembers = [], onUpdate, onRemove, isSelected = false, onSelect, defaultEditing = false }: TaskRowProps) {
+  const [isEditing, setIsEditing] = useState(defaultEditing);
   const [editedTask, setEditedTask] = useState(task);
 
   const handleSave = () => {
@@ -31,6 +36,23 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
     setIsEditing(false);
   };
 
+  /**
+   * Settle an ambiguous assignee name on one of its candidates
+   */
+  const handlePickCandidate = (member: AssigneeCandidate['member']) => {
+    const picked = {
+      ...task,
+      assignee: member.full_name || member.name || member.username,
+      matchedUser: member,
+      assigneeCandidates: undefined,
+    };
+    setEditedTask(picked);
+    onUpdate(picked);
+  };
+
+  const candidateName = (candidate: AssigneeCandidate) =>
+    candidate.member.full_name || candidate.member.name || candidate.member.username;
+
   const priorityColors = {
     low: 'bg-blue-50 text-blue-700 border-blue-100',
     medium: 'bg-orange-50 text-orange-700 border-orange-100',
@@ -73,7 +95,7 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <div>
               <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Assignee</label>
               <select
@@ -85,6 +107,7 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
                     setEditedTask({
                       ...editedTask,
                       assignee: member.id,
+                      assigneeCandidates: undefined,
                       matchedUser: {
                         id: member.id,
                         username: member.username,
@@ -97,6 +120,7 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
                     setEditedTask({
                       ...editedTask,
                       assignee: '',
+                      assigneeCandidates: undefined,
                       matchedUser: undefined
                     });
                   }
@@ -124,6 +148,16 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
                 <option value="high">High</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Due Date</label>
+              <input
+                type="date"
+                value={editedTask.dueDate || ''}
+                onChange={(e) => setEditedTask({ ...editedTask, dueDate: e.target.value || undefined })}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-700 shadow-sm"
+              />
+            </div>
           </div>
 
           <div className="flex justify-end gap-2 pt-2">
@@ -146,7 +180,10 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
   }
 
   return (
-    <li className="group hover:bg-gray-50 transition-colors duration-150">
+    <li
+      onClick={onSelect}
+      className={`group transition-colors duration-150 ${onSelect ? 'cursor-pointer' : ''} ${isSelected ? 'bg-yellow-50/70 border-l-4 border-yellow-400' : 'hover:bg-gray-50'}`}
+    >
       <div className="p-4 sm:px-6">
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1 min-w-0">
@@ -163,6 +200,36 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
               {task.description}
             </p>
 
+            {task.sourceText && (
+              <p className="text-xs text-gray-400 italic line-clamp-2 mb-3 border-l-2 border-gray-200 pl-2">
+                "{task.sourceText}"
+                {task.evidence && task.evidence.length > 1 && (
+                  <span className="not-italic ml-1 text-gray-400">(+{task.evidence.length - 1} more)</span>
+                )}
+              </p>
+            )}
+
+            {!task.matchedUser && task.assigneeCandidates && task.assigneeCandidates.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2 mb-3 px-2 py-1.5 text-xs bg-amber-50 border border-amber-100 rounded-md">
+                <FiHelpCircle className="w-3.5 h-3.5 text-amber-500" />
+                <span className="text-amber-800">Which "{task.assignee}"?</span>
+                {task.assigneeCandidates.map(candidate => (
+                  <button
+                    key={candidate.member.id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handlePickCandidate(candidate.member);
+                    }}
+                    className="px-2 py-0.5 bg-white border border-amber-200 rounded text-gray-700 hover:border-amber-400 transition-colors"
+                    title={`Matched by ${candidate.reason}`}
+                  >
+                    {candidateName(candidate)}
+                    <span className="ml-1 text-gray-400">{Math.round(candidate.score * 100)}%</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-center gap-4 text-xs text-gray-500">
               <div className="flex items-center gap-1.5">
                 <FiUser className="w-3.5 h-3.5 text-gray-400" />
@@ -174,19 +241,31 @@ function TaskRow({ task, teamMembers = [], onUpdate, onRemove }: TaskRowProps) {
                   <span>Due {new Date(task.dueDate).toLocaleDateString()}</span>
                 </div>
               )}
+              {task.timestamp && (
+                <div className="flex items-center gap-1.5" title="When it came up in the meeting">
+                  <FiClock className="w-3.5 h-3.5 text-gray-400" />
+                  <span>{task.timestamp}</span>
+                </div>
+              )}
             </div>
           </div>
 
           <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
             <button
-              onClick={() => setIsEditing(true)}
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsEditing(true);
+              }}
               className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
               title="Edit Task"
             >
               <FiEdit2 className="w-4 h-4" />
             </button>
             <button
-              onClick={onRemove}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove();
+              }}
               className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
               title="Remove Task"
             >
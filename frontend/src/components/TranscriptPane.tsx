@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FiFileText, FiPlus, FiX } from 'react-icons/fi';
+import { findSourceSpans } from '../utils/transcriptSpans';
+
+interface TranscriptPaneProps {
+  transcript: string;
+  // Quotes of the selected task; highlighted and scrolled into view
+  highlightQuotes: (string | undefined)[];
+  onCreateFromSelection: (text: string) => void;
+}
+
+function TranscriptPane({ transcript, highlightQuotes, onCreateFromSelection }: TranscriptPaneProps) {
+  const containerRef = useRef<HTMLPreElement>(null);
+  const firstMarkRef = useRef<HTMLElement>(null);
+  const [selection, setSelection] = useState('');
+
+  const spans = useMemo(() => findSourceSpans(transcript, highlightQuotes), [transcript, highlightQuotes]);
+  const hasQuotes = highlightQuotes.some(Boolean);
+
+  useEffect(() => {
+    firstMarkRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [spans]);
+
+  const handleMouseUp = () => {
+    const selected = window.getSelection();
+    if (!selected || selected.isCollapsed || !containerRef.current?.contains(selected.anchorNode)) {
+      return;
+    }
+    setSelection(selected.toString().trim());
+  };
+
+  const handleCreate = () => {
+    onCreateFromSelection(selection);
+    setSelection('');
+    window.getSelection()?.removeAllRanges();
+  };
+
+  // Split the transcript into plain and highlighted segments
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.start > cursor) segments.push({ text: transcript.slice(cursor, span.start), highlighted: false });
+    segments.push({ text: transcript.slice(span.start, span.end), highlighted: true });
+    cursor = span.end;
+  }
+  if (cursor < transcript.length) segments.push({ text: transcript.slice(cursor), highlighted: false });
+
+  let markIndex = 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)]">
+      <div className="p-4 bg-gray-50 border-b border-gray-200 flex justify-between items-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+        <span className="flex items-center gap-2">
+          <FiFileText className="w-4 h-4 text-gray-400" /> Transcript
+        </span>
+        {hasQuotes && spans.length === 0 && (
+          <span className="normal-case tracking-normal text-gray-400">Source quote not found in transcript</span>
+        )}
+      </div>
+
+      {selection && (
+        <div className="px-4 py-2 bg-blue-50 border-b border-blue-100 flex items-center gap-3">
+          <p className="flex-1 min-w-0 text-xs text-blue-800 truncate">"{selection}"</p>
+          <button
+            onClick={handleCreate}
+            className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors flex-shrink-0"
+          >
+            <FiPlus className="w-3 h-3" /> Create task
+          </button>
+          <button
+            onClick={() => setSelection('')}
+            className="p-1 text-blue-400 hover:text-blue-700 transition-colors"
+            title="Clear selection"
+          >
+            <FiX className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      <pre
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        className="flex-1 overflow-auto p-4 whitespace-pre-wrap font-mono text-xs text-gray-700 leading-relaxed max-h-[600px] lg:max-h-none"
+      >
+        {segments.map((segment, i) =>
+          segment.highlighted ? (
+            <mark
+              key={i}
+              ref={markIndex++ === 0 ? firstMarkRef : undefined}
+              className="bg-yellow-200 text-gray-900 rounded px-0.5"
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={i}>{segment.text}</span>
+          )
+        )}
+      </pre>
+    </div>
+  );
+}
+
+export default TranscriptPane;
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { FiLink, FiSave, FiAlertCircle, FiCheck, FiExternalLink } from 'react-icons/fi';
+import ZohoService, { ZohoConnection, ZohoOption } from '../services/zohoService';
+
+interface ZohoIntegrationProps {
+    teamId: string;
+    // Set when returning from the OAuth callback (?zoho=connected|denied|error)
+    oauthResult?: string | null;
+}
+
+const OAUTH_MESSAGES: Record<string, { type: 'success' | 'error', text: string }> = {
+    connected: { type: 'success', text: 'Zoho Projects connected. Pick the project new tasks should go to.' },
+    denied: { type: 'error', text: 'Zoho access was not granted.' },
+    error: { type: 'error', text: 'Connecting to Zoho Projects failed. Please try again.' },
+};
+
+const ZohoIntegration = ({ teamId, oauthResult }: ZohoIntegrationProps) => {
+    const [connection, setConnection] = useState<ZohoConnection>({ connected: false });
+    const [portals, setPortals] = useState<ZohoOption[]>([]);
+    const [projects, setProjects] = useState<ZohoOption[]>([]);
+    const [portalId, setPortalId] = useState('');
+    const [projectId, setProjectId] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(
+        oauthResult ? OAUTH_MESSAGES[oauthResult] || null : null
+    );
+
+    useEffect(() => {
+        const loadConnection = async () => {
+            try {
+                setLoading(true);
+                const status = await ZohoService.getConnection(teamId);
+                setConnection(status);
+                if (status.connected) {
+                    setPortalId(status.portalId || '');
+                    setProjectId(status.projectId || '');
+                    setPortals(await ZohoService.listPortals(teamId));
+                }
+            } catch (error) {
+                console.error('Failed to load Zoho connection:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadConnection();
+    }, [teamId]);
+
+    useEffect(() => {
+        if (!connection.connected || !portalId) {
+            setProjects([]);
+            return;
+        }
+
+        ZohoService.listProjects(teamId, portalId)
+            .then(setProjects)
+            .catch(error => {
+                console.error('Failed to load Zoho projects:', error);
+                setMessage({ type: 'error', text: error.message || 'Failed to load projects' });
+            });
+    }, [teamId, portalId, connection.connected]);
+
+    const handleConnect = async () => {
+        try {
+            setMessage(null);
+            window.location.href = await ZohoService.getAuthorizeUrl(teamId);
+        } catch (error: any) {
+            console.error('Failed to start Zoho authorization:', error);
+            setMessage({ type: 'error', text: error.message || 'Failed to connect Zoho Projects' });
+        }
+    };
+
+    const handleDisconnect = async () => {
+        if (!window.confirm('Disconnect Zoho Projects? New tasks will no longer be created there.')) return;
+        try {
+            await ZohoService.disconnect(teamId);
+            setConnection({ connected: false });
+            setPortals([]);
+            setPortalId('');
+            setProjectId('');
+            setMessage({ type: 'success', text: 'Zoho Projects disconnected' });
+        } catch (error: any) {
+            console.error('Failed to disconnect Zoho:', error);
+            setMessage({ type: 'error', text: error.message || 'Failed to disconnect' });
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const portal = portals.find(p => p.id === portalId);
+        const project = projects.find(p => p.id === projectId);
+        if (!portal || !project) return;
+
+        setSaving(true);
+        setMessage(null);
+        try {
+            setConnection(await ZohoService.selectProject(teamId, portal, project));
+            setMessage({ type: 'success', text: `New tasks will be created in ${project.name}` });
+            setTimeout(() => setMessage(null), 3000);
+        } catch (error: any) {
+            console.error('Failed to save Zoho project:', error);
+            setMessage({ type: 'error', text: error.message || 'Failed to save project' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <FiLink className="w-5 h-5 text-gray-400" />
+                    <h2 className="text-lg font-semibold text-gray-900">Zoho Projects</h2>
+                </div>
+                {connection.connected && (
+                    <span className="px-2.5 py-0.5 rounded-full bg-green-50 text-green-700 text-xs font-medium">Connected</span>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center items-center h-24">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-500"></div>
+                </div>
+            ) : (
+                <div className="p-6 space-y-4">
+                    {message && (
+                        <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                            {message.type === 'success' ? <FiCheck className="w-4 h-4" /> : <FiAlertCircle className="w-4 h-4" />}
+                            <span>{message.text}</span>
+                        </div>
+                    )}
+
+                    {!connection.connected ? (
+                        <div className="flex items-center justify-between gap-4">
+                            <p className="text-sm text-gray-500">
+                                Connect a Zoho Projects portal to create confirmed tasks there automatically, with owners and due dates.
+                            </p>
+                            <button
+                                onClick={handleConnect}
+                                className="inline-flex items-center gap-2 px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 flex-shrink-0"
+                            >
+                                <FiExternalLink className="w-4 h-4" />
+                                Connect Zoho
+                            </button>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSave} className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Portal</label>
+                                    <select
+                                        value={portalId}
+                                        onChange={(e) => { setPortalId(e.target.value); setProjectId(''); }}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                                    >
+                                        <option value="">Select a portal</option>
+                                        {portals.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+                                    <select
+                                        value={projectId}
+                                        onChange={(e) => setProjectId(e.target.value)}
+                                        disabled={!portalId}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all disabled:bg-gray-50"
+                                    >
+                                        <option value="">Select a project</option>
+                                        {projects.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                    {connection.projectName && (
+                                        <p className="text-xs text-gray-500 mt-1">Currently creating tasks in {connection.projectName}.</p>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="flex justify-between">
+                                <button
+                                    type="button"
+                                    onClick={handleDisconnect}
+                                    className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+                                >
+                                    Disconnect
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving || !portalId || !projectId}
+                                    className="inline-flex items-center gap-2 px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 disabled:opacity-50"
+                                >
+                                    <FiSave className="w-4 h-4" />
+                                    {saving ? 'Saving...' : 'Save Project'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ZohoIntegration;
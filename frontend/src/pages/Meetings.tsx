@@ -0,0 +1,214 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { FiArrowLeft, FiCalendar, FiChevronDown, FiChevronRight, FiCpu, FiEdit3, FiFileText, FiUsers } from 'react-icons/fi';
+import { getTeamMeetings, getTeamDrafts, ExtractionDraft, Meeting } from '../api/apiClient';
+import { supabase } from '../lib/supabase';
+import DueDateBadge from '../components/DueDateBadge';
+
+const STATUS_STYLES: Record<string, string> = {
+    pending: 'bg-gray-100 text-gray-700',
+    'in-progress': 'bg-orange-100 text-orange-800',
+    completed: 'bg-green-100 text-green-800',
+    deleted: 'bg-red-50 text-red-700',
+};
+
+const DRAFT_STATUS_STYLES: Record<string, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    reviewed: 'bg-blue-50 text-blue-700',
+    publishing: 'bg-amber-50 text-amber-700',
+};
+
+const draftTitle = (draft: ExtractionDraft) =>
+    draft.title || draft.notes.split('\n').map(line => line.trim()).find(Boolean)?.slice(0, 80) || 'Untitled draft';
+
+// meeting_date is a plain date; parse it as local midnight so it doesn't shift a day west of UTC
+const formatMeetingDate = (value: string) =>
+    new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+        .format(new Date(`${value}T00:00:00`));
+
+const Meetings = () => {
+    const { teamId } = useParams<{ teamId: string }>();
+    const [teamName, setTeamName] = useState('');
+    const [meetings, setMeetings] = useState<Meeting[]>([]);
+    // Extractions still in review; other officials can pick them up
+    const [drafts, setDrafts] = useState<ExtractionDraft[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [transcriptId, setTranscriptId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadMeetings = async () => {
+            if (!teamId) return;
+            try {
+                setLoading(true);
+                const { data: teamData } = await supabase.from('teams').select('name').eq('id', teamId).single();
+                if (teamData) setTeamName(teamData.name);
+
+                const data = await getTeamMeetings(teamId);
+                setMeetings(data);
+                setExpandedId(data[0]?.id || null);
+
+                // Drafts are a convenience here; the meetings are still worth showing without them
+                setDrafts(await getTeamDrafts(teamId).catch(draftsError => {
+                    console.error('Failed to load drafts:', draftsError);
+                    return [];
+                }));
+            } catch (err) {
+                console.error('Failed to load meetings:', err);
+                setError('Failed to load meetings.');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadMeetings();
+    }, [teamId]);
+
+    return (
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <Link
+                to={`/teams/${teamId}/dashboard`}
+                className="mb-4 text-sm text-gray-500 hover:text-gray-900 inline-flex items-center gap-1 transition-colors"
+            >
+                <FiArrowLeft className="w-4 h-4" /> Back to {teamName || 'Team'}
+            </Link>
+            <div className="mb-8">
+                <h1 className="text-2xl font-bold text-gray-900">Meetings</h1>
+                <p className="text-gray-500">Past meetings and the tasks extracted from each one</p>
+            </div>
+
+            {!loading && drafts.length > 0 && (
+                <div className="mb-8">
+                    <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">Drafts in review</h2>
+                    <ul className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+                        {drafts.map(draft => (
+                            <li key={draft.id}>
+                                <Link
+                                    to={`/drafts/${draft.id}`}
+                                    className="px-5 py-3 flex items-center justify-between gap-4 hover:bg-gray-50 transition-colors"
+                                >
+                                    <div className="min-w-0 flex items-center gap-3">
+                                        <FiEdit3 className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium text-gray-900 truncate">{draftTitle(draft)}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {draft.tasks.length} {draft.tasks.length === 1 ? 'task' : 'tasks'} · edited {new Date(draft.updated_at).toLocaleString()}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize flex-shrink-0 ${DRAFT_STATUS_STYLES[draft.status] || DRAFT_STATUS_STYLES.draft}`}>
+                                        {draft.status}
+                                    </span>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex justify-center items-center h-40">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+                </div>
+            ) : error ? (
+                <div className="p-4 bg-red-50 border border-red-100 rounded-lg text-sm text-red-800">{error}</div>
+            ) : meetings.length === 0 ? (
+                <div className="text-center py-12 bg-white rounded-xl border border-gray-200 border-dashed">
+                    <FiCalendar className="mx-auto h-10 w-10 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">No meetings yet</h3>
+                    <p className="mt-1 text-sm text-gray-500">Meetings are recorded when you create tasks from extracted notes.</p>
+                    <Link
+                        to={`/teams/${teamId}/extract`}
+                        className="mt-4 inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-orange-600 hover:bg-orange-700"
+                    >
+                        Extract Tasks
+                    </Link>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {meetings.map(meeting => {
+                        const isExpanded = expandedId === meeting.id;
+                        const tasks = meeting.tasks || [];
+
+                        return (
+                            <div key={meeting.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : meeting.id)}
+                                    className="w-full p-5 flex items-start justify-between gap-4 text-left hover:bg-gray-50 transition-colors"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <h3 className="text-base font-semibold text-gray-900 truncate">{meeting.title}</h3>
+                                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-gray-500">
+                                            <span className="flex items-center gap-1">
+                                                <FiCalendar className="w-3 h-3" /> {formatMeetingDate(meeting.meeting_date)}
+                                            </span>
+                                            {meeting.attendees.length > 0 && (
+                                                <span className="flex items-center gap-1">
+                                                    <FiUsers className="w-3 h-3" /> {meeting.attendees.join(', ')}
+                                                </span>
+                                            )}
+                                            {meeting.extraction?.model && (
+                                                <span className="flex items-center gap-1">
+                                                    <FiCpu className="w-3 h-3" /> {meeting.extraction.provider ? `${meeting.extraction.provider} / ` : ''}{meeting.extraction.model}{meeting.extraction.promptVersion ? ` · ${meeting.extraction.promptVersion}` : ''}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-3 flex-shrink-0">
+                                        <span className="px-2.5 py-0.5 rounded-full bg-orange-50 text-orange-700 text-xs font-medium">
+                                            {tasks.length} {tasks.length === 1 ? 'task' : 'tasks'}
+                                        </span>
+                                        {isExpanded ? <FiChevronDown className="w-5 h-5 text-gray-400" /> : <FiChevronRight className="w-5 h-5 text-gray-400" />}
+                                    </div>
+                                </button>
+
+                                {isExpanded && (
+                                    <div className="border-t border-gray-100">
+                                        {tasks.length > 0 ? (
+                                            <ul className="divide-y divide-gray-100">
+                                                {tasks.map(task => (
+                                                    <li key={task.id} className="px-5 py-3 flex items-center justify-between gap-4">
+                                                        <div className="min-w-0">
+                                                            <p className="text-sm font-medium text-gray-900 truncate">{task.title || task.description}</p>
+                                                            <div className="flex items-center gap-3 mt-0.5 text-xs text-gray-500">
+                                                                <span>{task.assigned_to_name || 'Unassigned'}</span>
+                                                                <DueDateBadge dueDate={task.due_date} status={task.status} />
+                                                            </div>
+                                                        </div>
+                                                        <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize flex-shrink-0 ${STATUS_STYLES[task.status] || STATUS_STYLES.pending}`}>
+                                                            {task.status.replace('-', ' ')}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        ) : (
+                                            <p className="px-5 py-4 text-sm text-gray-500">No tasks were created from this meeting.</p>
+                                        )}
+
+                                        <div className="px-5 py-3 bg-gray-50 border-t border-gray-100">
+                                            <button
+                                                onClick={() => setTranscriptId(transcriptId === meeting.id ? null : meeting.id)}
+                                                className="text-xs font-medium text-gray-600 hover:text-gray-900 flex items-center gap-1"
+                                            >
+                                                <FiFileText className="w-3 h-3" />
+                                                {transcriptId === meeting.id ? 'Hide transcript' : 'Show transcript'}
+                                            </button>
+                                            {transcriptId === meeting.id && (
+                                                <pre className="mt-3 max-h-96 overflow-auto whitespace-pre-wrap font-mono text-xs text-gray-700 bg-white border border-gray-200 rounded-lg p-4">
+                                                    {meeting.transcript}
+                                                </pre>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Meetings;
@@ -1,21 +1,45 @@
 
-import { useState, useCallback, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { extractTasks, ExtractedTask } from '../api/apiClient';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { extractTasks, transcribeRecording, createDraft, getDraft, settleDraft, updateDraft, ExtractedTask, ExtractResponse, ExtractionDraft, TranscriptionResult } from '../api/apiClient';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { FiAlertCircle, FiUsers, FiArrowRight, FiFileText, FiInfo, FiCheck, FiLoader, FiTrash2, FiPlayCircle } from 'react-icons/fi';
+import { toLocalDateString } from '../utils/localDate';
+import { importTranscriptFile, reconcileReextraction, assignTaskKeys, speakerName, type TranscriptFormat, type ReextractionDiff } from '@meetingmind/extraction';
+import { FiAlertCircle, FiUsers, FiArrowRight, FiFileText, FiInfo, FiCheck, FiLoader, FiTrash2, FiPlayCircle, FiX, FiUser, FiCalendar, FiMic, FiUpload } from 'react-icons/fi';
 
 interface TeamMember {
   id: string;
+  name: string;
   username: string;
   full_name: string;
   role: string;
 }
 
+// Labels the transcription backend gives speakers it cannot name
+const PLACEHOLDER_SPEAKER = /^Speaker[A-Z]$/;
+
+// Exported transcripts the import understands; anything else is read as plain notes
+const TRANSCRIPT_FILE_TYPES = '.vtt,.srt,.txt,.docx';
+
+const FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  vtt: 'WebVTT captions',
+  srt: 'SRT captions',
+  teams: 'Teams transcript',
+  meet: 'Google Meet transcript',
+  text: 'Plain text',
+};
+
+interface ImportedFile {
+  fileName: string;
+  format: TranscriptFormat;
+  turns: number;
+}
+
 function PasteNotes() {
   const navigate = useNavigate();
   const { teamId } = useParams<{ teamId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
 
   // Team state
@@ -25,17 +49,60 @@ function PasteNotes() {
 
   // State
   const [notes, setNotes] = useState('');
+  // Relative due dates in the notes ("by Friday") count from this day
+  const [meetingDate, setMeetingDate] = useState(toLocalDateString(new Date()));
   const [isExtracting, setIsExtracting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [extractedTasks, setExtractedTasks] = useState<ExtractedTask[] | null>(null);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const [metadata, setMetadata] = useState<ExtractResponse['metadata'] | null>(null);
+  const [reextraction, setReextraction] = useState<ReextractionDiff<ExtractedTask> | null>(null);
+  // The draft these notes are reviewed in; extracting again reconciles with its tasks
+  const [draft, setDraft] = useState<ExtractionDraft | null>(null);
+  // A cancelled re-extraction leaves the draft as it was
+  const [draftUnchanged, setDraftUnchanged] = useState(false);
   const [showTips, setShowTips] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Recording upload
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcription, setTranscription] = useState<TranscriptionResult | null>(null);
+  const [speakerCount, setSpeakerCount] = useState(2);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Transcript import (file picker or drag and drop)
+  const [importedFile, setImportedFile] = useState<ImportedFile | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+
+  // Stop any in-flight extraction when leaving the page; the aborted run must not save anything
+  const unmountedRef = useRef(false);
+  useEffect(() => () => {
+    unmountedRef.current = true;
+    abortRef.current?.abort();
+  }, []);
 
-  // Clear old extraction data when returning to paste page
+  // ?draft=<id> edits the notes of a draft in review; extracting again keeps the edits made there
+  const draftId = searchParams.get('draft');
   useEffect(() => {
-    sessionStorage.removeItem('extractedTasks');
-    sessionStorage.removeItem('notesHash');
-    sessionStorage.removeItem('currentTeamId');
-  }, []);
+    if (!draftId || draftId === draft?.id) return;
+    getDraft(draftId)
+      .then(found => (found && user ? settleDraft(found, user.id) : found))
+      .then(loaded => {
+        // A draft being published can no longer be edited; an interrupted publish was settled above
+        if (!loaded || loaded.status === 'published' || loaded.status === 'publishing') {
+          setSearchParams({}, { replace: true });
+          return;
+        }
+        setDraft(loaded);
+        setNotes(loaded.notes);
+        if (loaded.meeting_date) setMeetingDate(loaded.meeting_date);
+      })
+      .catch(err => {
+        console.error('[PasteNotes] Failed to load draft:', err);
+        setError('Failed to load the draft.');
+      });
+  }, [draftId]);
 
   // Fetch team details and members
   useEffect(() => {
@@ -91,10 +158,10 @@ function PasteNotes() {
   }, [teamId, user]);
 
   /**
-   * Handle task extraction from notes
+   * Extract tasks from the given notes
    */
-  const handleExtract = useCallback(async () => {
-    if (!notes.trim()) {
+  const runExtraction = useCallback(async (text: string, refresh = false) => {
+    if (!text.trim()) {
       setError('Please paste some meeting notes first');
       return;
     }
@@ -102,30 +169,205 @@ function PasteNotes() {
     setIsExtracting(true);
     setError(null);
     setExtractedTasks(null);
+    setWasCancelled(false);
+    setMetadata(null);
+    setReextraction(null);
+    setDraftUnchanged(false);
 
-    try {
-      const response = await extractTasks(notes, teamMembers);
-      setExtractedTasks(response.tasks);
-
-      // Store in session storage
-      const notesHash = notes.substring(0, 50);
-      sessionStorage.setItem('extractedTasks', JSON.stringify(response.tasks));
-      sessionStorage.setItem('originalNotes', notes);
-      sessionStorage.setItem('notesHash', notesHash);
-      sessionStorage.setItem('currentTeamId', teamId || '');
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      // Auto-navigate to preview after 1 second
-      setTimeout(() => {
-        navigate('/preview');
-      }, 800);
+    try {
+      // Render each task as soon as it streams in; a repeated index is an update from a later chunk
+      const response = await extractTasks(text, teamMembers, teamId, {
+        signal: controller.signal,
+        refresh,
+        meetingDate,
+        onTask: (task, index) => {
+          setExtractedTasks(prev => {
+            const next = [...(prev || [])];
+            next[index] = task;
+            return next;
+          });
+        },
+      });
+
+      if (unmountedRef.current) return;
+      const cancelled = Boolean(response.metadata?.cancelled);
+      setWasCancelled(cancelled);
+      setMetadata(response.metadata || null);
+
+      // A cancelled run only has the tasks that arrived before it stopped. Reconciled into a
+      // draft, every reviewed task still to come would look removed, so the draft is left alone.
+      if (cancelled && draft) {
+        setExtractedTasks(response.tasks);
+        setDraftUnchanged(true);
+        return;
+      }
 
+      // Extracting again into a draft keeps what was changed in its review
+      let tasks: ExtractedTask[];
+      let extracted: ExtractedTask[];
+      let diff: ReextractionDiff<ExtractedTask> | null = null;
+      if (draft && draft.baseline.length + draft.tasks.length > 0) {
+        ({ tasks, extracted, diff } = reconcileReextraction(draft.baseline, draft.tasks, response.tasks));
+      } else {
+        tasks = extracted = assignTaskKeys(response.tasks);
+      }
+      setExtractedTasks(tasks);
+      setReextraction(diff);
+
+      // A first run that found nothing has nothing to review
+      if (!user || (!draft && tasks.length === 0)) return;
+      const extraction = {
+        notes: text,
+        meeting_date: meetingDate,
+        tasks,
+        baseline: extracted,
+        extraction: response.metadata,
+        warnings: response.metadata?.validationErrors || [],
+      };
+      try {
+        if (draft) {
+          // New tasks need another look, so a reviewed draft goes back to draft
+          const saved = await updateDraft(draft, { ...extraction, diff, status: 'draft' }, user.id);
+          if (!saved) {
+            setError('Someone else changed this draft while you were extracting. Extract again to keep their edits too.');
+            setDraft(await getDraft(draft.id));
+            return;
+          }
+          setDraft(saved);
+        } else {
+          const { meeting_date, ...fields } = extraction;
+          const created = await createDraft({ ...fields, meetingDate: meeting_date, teamId, createdBy: user.id });
+          setDraft(created);
+          setSearchParams({ draft: created.id }, { replace: true });
+        }
+      } catch (saveError) {
+        console.error('[PasteNotes] Failed to save draft:', saveError);
+        setError('Tasks were extracted but could not be saved as a draft. Please try again.');
+      }
     } catch (err) {
       console.error('[PasteNotes] API extraction failed:', err);
       setError('Failed to extract tasks. Please check your API key and try again.');
     } finally {
+      abortRef.current = null;
       setIsExtracting(false);
     }
-  }, [notes, navigate, teamId]);
+  }, [teamMembers, teamId, draft, user, setSearchParams, meetingDate]);
+
+  const handleExtract = useCallback(() => runExtraction(notes), [runExtraction, notes]);
+
+  /**
+   * Transcribe an uploaded recording into the notes. When the backend could only label the
+   * speakers (SpeakerA, ...), extraction waits until they are named (see handleRenameSpeaker),
+   * so tasks get their owners and the cache never keeps a run with placeholder names.
+   */
+  const transcribeFile = async (file: File) => {
+    setIsTranscribing(true);
+    setError(null);
+    setImportedFile(null);
+    setExtractedTasks(null);
+    let result: TranscriptionResult;
+    try {
+      result = await transcribeRecording(file, { speakers: speakerCount });
+    } catch (err: any) {
+      console.error('[PasteNotes] Transcription failed:', err);
+      setError(err.message || 'Failed to transcribe the recording.');
+      return;
+    } finally {
+      setIsTranscribing(false);
+    }
+
+    setTranscription(result);
+    setNotes(result.transcript);
+    if (!result.speakers.some(s => PLACEHOLDER_SPEAKER.test(s))) {
+      await runExtraction(result.transcript);
+    }
+  };
+
+  const handleRecordingSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) transcribeFile(file);
+  };
+
+  /**
+   * Load a Zoom, Teams or Google Meet export into the notes as "[mm:ss] Name:" lines.
+   * Recordings dropped on the notes are transcribed instead.
+   */
+  const importFile = async (file: File) => {
+    if (/^(audio|video)\//.test(file.type)) {
+      return transcribeFile(file);
+    }
+
+    setError(null);
+    try {
+      const result = await importTranscriptFile(file.name, await file.arrayBuffer());
+      setNotes(result.transcript);
+      setTranscription(null);
+      setExtractedTasks(null);
+      setImportedFile({ fileName: file.name, format: result.format, turns: result.turns.length });
+    } catch (err: any) {
+      console.error('[PasteNotes] Transcript import failed:', err);
+      setError(err.message || 'Failed to read the transcript file.');
+    }
+  };
+
+  const handleTranscriptSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importFile(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving over child elements fires dragleave too
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !isTranscribing && !isExtracting) importFile(file);
+  };
+
+  /**
+   * Replace a placeholder speaker label with a member's name throughout the transcript.
+   * Naming the last one extracts the tasks, unless they were already extracted.
+   */
+  const handleRenameSpeaker = (label: string, name: string) => {
+    if (!transcription || !name) return;
+    const speakerLine = new RegExp(`^(\\[[\\d:]+\\] )${label}:`, 'gm');
+    const renamedNotes = notes.replace(speakerLine, (_, prefix: string) => `${prefix}${name}:`);
+    const speakers = transcription.speakers.map(s => (s === label ? name : s));
+    setNotes(renamedNotes);
+    setTranscription({ ...transcription, speakers });
+
+    if (!extractedTasks && !isExtracting && !speakers.some(s => PLACEHOLDER_SPEAKER.test(s))) {
+      runExtraction(renamedNotes);
+    }
+  };
+
+  // Members' names as transcript lines write them, so the renamed lines parse back to the member
+  const memberNames = [...new Set(teamMembers.map(m => speakerName(m.name)).filter((name): name is string => Boolean(name)))];
+  const unnamedSpeakers = transcription?.speakers.filter(s => PLACEHOLDER_SPEAKER.test(s)) || [];
+
+  /**
+   * Cancel a running extraction, keeping the tasks received so far
+   */
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
@@ -182,25 +424,73 @@ function PasteNotes() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Input Area */}
         <div className="lg:col-span-2 space-y-6">
-          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden transition-shadow hover:shadow-md">
+          <div
+            className={`bg-white rounded-xl shadow-sm border overflow-hidden transition-shadow hover:shadow-md ${isDragging ? 'border-gray-900 ring-2 ring-gray-200' : 'border-gray-200'}`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
             <div className="p-1 bg-gray-50 border-b border-gray-200 flex justify-between items-center px-4 py-2">
-              <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Transcript Input</span>
-              <button
-                onClick={() => setNotes('')}
-                className="text-xs text-gray-400 hover:text-red-600 flex items-center gap-1 transition-colors"
-                disabled={!notes}
-              >
-                <FiTrash2 className="w-3 h-3" /> Clear
-              </button>
+              <span className="text-xs font-medium text-gray-500 uppercase tracking-wider truncate">
+                Transcript Input
+                {importedFile && (
+                  <span className="ml-2 normal-case tracking-normal font-normal text-gray-400">
+                    {importedFile.fileName} · {FORMAT_LABELS[importedFile.format]}
+                    {importedFile.turns > 0 && ` · ${importedFile.turns} turns`}
+                  </span>
+                )}
+              </span>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <input
+                  ref={transcriptInputRef}
+                  type="file"
+                  accept={TRANSCRIPT_FILE_TYPES}
+                  className="hidden"
+                  onChange={handleTranscriptSelected}
+                />
+                <button
+                  onClick={() => transcriptInputRef.current?.click()}
+                  className="text-xs text-gray-400 hover:text-gray-900 flex items-center gap-1 transition-colors"
+                  disabled={isTranscribing || isExtracting}
+                >
+                  <FiFileText className="w-3 h-3" /> Import
+                </button>
+                <button
+                  onClick={() => {
+                    setNotes('');
+                    setTranscription(null);
+                    setImportedFile(null);
+                    // New notes start a new draft
+                    setDraft(null);
+                    setSearchParams({}, { replace: true });
+                    setExtractedTasks(null);
+                    setReextraction(null);
+                    setMetadata(null);
+                  }}
+                  className="text-xs text-gray-400 hover:text-red-600 flex items-center gap-1 transition-colors"
+                  disabled={!notes}
+                >
+                  <FiTrash2 className="w-3 h-3" /> Clear
+                </button>
+              </div>
+            </div>
+            <div className="relative">
+              <textarea
+                id="meeting-notes"
+                className="w-full h-[500px] p-6 focus:outline-none resize-none font-mono text-sm text-gray-800 leading-relaxed placeholder-gray-400"
+                placeholder="Paste your meeting notes here, or drop a transcript (.vtt, .srt, .txt, .docx) or recording..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                onKeyDown={handleKeyDown}
+              />
+              {isDragging && (
+                <div className="absolute inset-0 bg-white/90 flex flex-col items-center justify-center gap-2 pointer-events-none">
+                  <FiUpload className="w-6 h-6 text-gray-500" />
+                  <span className="text-sm font-medium text-gray-700">Drop to import</span>
+                  <span className="text-xs text-gray-500">Zoom, Teams or Google Meet transcripts, or a recording</span>
+                </div>
+              )}
             </div>
-            <textarea
-              id="meeting-notes"
-              className="w-full h-[500px] p-6 focus:outline-none resize-none font-mono text-sm text-gray-800 leading-relaxed placeholder-gray-400"
-              placeholder="Paste your meeting notes here..."
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              onKeyDown={handleKeyDown}
-            />
 
             {/* Action Bar */}
             <div className="bg-gray-50 border-t border-gray-200 p-4 flex items-center justify-between">
@@ -210,33 +500,72 @@ function PasteNotes() {
                 <span className="hidden sm:inline">to extract</span>
               </div>
 
-              <button
-                onClick={handleExtract}
-                disabled={isExtracting || !notes.trim()}
-                className={`
-                  flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-sm transition-all shadow-sm
-                  ${isExtracting || !notes.trim()
-                    ? 'bg-gray-100 text-gray-400 cursor-not-allowed border border-gray-200'
-                    : 'bg-gray-900 text-white hover:bg-black hover:shadow-md active:transform active:scale-95'
-                  }
-                `}
-              >
-                {isExtracting ? (
-                  <>
-                    <FiLoader className="w-4 h-4 animate-spin" />
-                    <span>Processing...</span>
-                  </>
-                ) : (
-                  <>
-                    <span>Extract Tasks</span>
-                    <FiArrowRight className="w-4 h-4" />
-                  </>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-xs text-gray-500" title="Relative due dates like &quot;by Friday&quot; count from this day">
+                  <FiCalendar className="w-3 h-3" />
+                  <span className="hidden sm:inline">Meeting date</span>
+                  <input
+                    type="date"
+                    value={meetingDate}
+                    onChange={(e) => setMeetingDate(e.target.value || toLocalDateString(new Date()))}
+                    disabled={isExtracting}
+                    className="px-2 py-1.5 border border-gray-200 rounded-md text-xs text-gray-700 bg-white focus:ring-2 focus:ring-gray-900 focus:border-gray-900"
+                  />
+                </label>
+                {isExtracting && (
+                  <button
+                    onClick={handleCancel}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium text-sm text-gray-600 bg-white border border-gray-200 hover:bg-gray-50 transition-all shadow-sm"
+                  >
+                    <FiX className="w-4 h-4" />
+                    <span>Cancel</span>
+                  </button>
                 )}
-              </button>
+                <button
+                  onClick={handleExtract}
+                  disabled={isExtracting || !notes.trim()}
+                  className={`
+                    flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-sm transition-all shadow-sm
+                    ${isExtracting || !notes.trim()
+                      ? 'bg-gray-100 text-gray-400 cursor-not-allowed border border-gray-200'
+                      : 'bg-gray-900 text-white hover:bg-black hover:shadow-md active:transform active:scale-95'
+                    }
+                  `}
+                >
+                  {isExtracting ? (
+                    <>
+                      <FiLoader className="w-4 h-4 animate-spin" />
+                      <span>Processing...</span>
+                    </>
+                  ) : (
+                    <>
+                      <span>Extract Tasks</span>
+                      <FiArrowRight className="w-4 h-4" />
+                    </>
+                  )}
+                </button>
+              </div>
             </div>
           </div>
 
           {/* Messages */}
+          {draft && !extractedTasks && !isExtracting && (
+            <div className="p-4 bg-blue-50 border border-blue-100 rounded-lg flex items-center justify-between gap-3">
+              <div className="flex items-start gap-3">
+                <FiInfo className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-blue-800">
+                  These notes are in a draft with {draft.tasks.length} reviewed tasks. Extracting again keeps the edits made in review and shows what changed.
+                </p>
+              </div>
+              <button
+                onClick={() => draft && navigate(`/drafts/${draft.id}`)}
+                className="text-sm font-medium text-blue-700 hover:text-blue-900 flex-shrink-0"
+              >
+                Back to review
+              </button>
+            </div>
+          )}
+
           {error && (
             <div className="p-4 bg-red-50 border border-red-100 rounded-lg flex items-start gap-3 animate-in fade-in slide-in-from-top-2">
               <FiAlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
@@ -244,15 +573,90 @@ function PasteNotes() {
             </div>
           )}
 
-          {extractedTasks && (
-            <div className="p-4 bg-green-50 border border-green-100 rounded-lg flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
-              <div className="w-8 h-8 rounded-full bg-green-100 flex items-center justify-center flex-shrink-0">
-                <FiCheck className="w-5 h-5 text-green-600" />
+          {extractedTasks && !isExtracting && (
+            <div className="p-4 bg-green-50 border border-green-100 rounded-lg flex items-center justify-between gap-3 animate-in fade-in slide-in-from-top-2">
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded-full bg-green-100 flex items-center justify-center flex-shrink-0">
+                  <FiCheck className="w-5 h-5 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-green-900">{wasCancelled ? 'Extraction cancelled' : 'Success!'}</p>
+                  <p className="text-xs text-green-700">
+                    {wasCancelled && draftUnchanged
+                      ? 'Cancelled before the extraction finished, so the draft was left as it was.'
+                      : wasCancelled
+                      ? `Kept ${extractedTasks.length} tasks received before cancelling.`
+                      : `Extracted ${extractedTasks.length} tasks.`}
+                  </p>
+                  {reextraction && (
+                    <p className="text-xs text-green-700">
+                      {`Compared with your review: ${reextraction.added.length} new, ${reextraction.changed.length} updated, ${reextraction.removed.filter(r => !r.kept).length} no longer mentioned. Your edits were kept.`}
+                    </p>
+                  )}
+                  {metadata?.cached && (
+                    <p className="text-xs text-green-700">
+                      These notes were extracted before with the same settings, so the saved result was used.{' '}
+                      <button
+                        onClick={() => runExtraction(notes, true)}
+                        className="underline font-medium hover:text-green-900"
+                      >
+                        Run again
+                      </button>
+                    </p>
+                  )}
+                </div>
               </div>
-              <div>
-                <p className="text-sm font-medium text-green-900">Success!</p>
-                <p className="text-xs text-green-700">Extracted {extractedTasks.length} tasks. Redirecting...</p>
+              <button
+                onClick={() => draft && navigate(`/drafts/${draft.id}`)}
+                disabled={!draft}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-gray-900 text-white hover:bg-black disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+              >
+                <span>Review Tasks</span>
+                <FiArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {/* Tasks appear here as they stream in */}
+          {extractedTasks && extractedTasks.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Extracted Tasks</span>
+                {isExtracting && (
+                  <span className="text-xs text-gray-400 flex items-center gap-1">
+                    <FiLoader className="w-3 h-3 animate-spin" /> Receiving...
+                  </span>
+                )}
               </div>
+              <ul className="divide-y divide-gray-100">
+                {extractedTasks.filter(Boolean).map((task, i) => (
+                  <li key={i} className="px-4 py-3 animate-in fade-in slide-in-from-top-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm font-medium text-gray-900">{task.title}</p>
+                      {task.priority && (
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${task.priority === 'high'
+                          ? 'bg-red-50 text-red-700'
+                          : task.priority === 'low'
+                            ? 'bg-gray-100 text-gray-600'
+                            : 'bg-yellow-50 text-yellow-700'
+                          }`}>
+                          {task.priority}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 mt-1 text-xs text-gray-500">
+                      <span className="flex items-center gap-1">
+                        <FiUser className="w-3 h-3" /> {task.assignee || 'Unassigned'}
+                      </span>
+                      {task.dueDate && (
+                        <span className="flex items-center gap-1">
+                          <FiCalendar className="w-3 h-3" /> {task.dueDate}
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
             </div>
           )}
         </div>
@@ -267,7 +671,7 @@ function PasteNotes() {
             </h3>
             <ul className="space-y-3">
               {[
-                'Paste any meeting transcript or notes.',
+                'Paste meeting notes, or drop a transcript or recording.',
                 'AI identifies action items and deadlines.',
                 'Tasks are matched to team members.',
                 'Review and confirm before creating.'
@@ -282,6 +686,83 @@ function PasteNotes() {
             </ul>
           </div>
 
+          {/* Upload Recording */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5">
+            <h3 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+              <FiMic className="w-4 h-4 text-gray-400" />
+              Upload a recording
+            </h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Audio or video. It is transcribed with speaker labels, then tasks are extracted from the transcript.
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <label htmlFor="speaker-count" className="text-xs text-gray-500">People speaking</label>
+              <select
+                id="speaker-count"
+                value={speakerCount}
+                onChange={(e) => setSpeakerCount(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-200"
+              >
+                {[1, 2, 3, 4, 5, 6, 7, 8].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*,video/*"
+              className="hidden"
+              onChange={handleRecordingSelected}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isTranscribing || isExtracting}
+              className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg font-medium text-sm text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+            >
+              {isTranscribing ? (
+                <>
+                  <FiLoader className="w-4 h-4 animate-spin" />
+                  <span>Transcribing...</span>
+                </>
+              ) : (
+                <>
+                  <FiUpload className="w-4 h-4" />
+                  <span>Choose File</span>
+                </>
+              )}
+            </button>
+
+            {transcription && (
+              <p className="mt-3 text-xs text-gray-500 truncate">
+                {transcription.metadata.fileName} · {Math.max(1, Math.round(transcription.metadata.durationSeconds / 60))} min
+              </p>
+            )}
+
+            {unnamedSpeakers.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-100 space-y-2">
+                <p className="text-xs text-gray-500">
+                  Who is speaking? Name the speakers so their tasks are assigned; tasks are extracted once everyone is named. To go ahead without names, click Extract Tasks.
+                </p>
+                {unnamedSpeakers.map(label => (
+                  <div key={label} className="flex items-center gap-2">
+                    <span className="w-20 text-xs font-mono text-gray-600">{label}</span>
+                    <select
+                      value=""
+                      onChange={(e) => handleRenameSpeaker(label, e.target.value)}
+                      className="flex-1 px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-200"
+                    >
+                      <option value="">Choose a member...</option>
+                      {memberNames.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Sample Data */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5">
             <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -1,12 +1,17 @@
 
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { createTasks, ExtractedTask, CreateTasksResponse } from '../api/apiClient';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { createTasks, createMeeting, deleteMeeting, getDraft, settleDraft, updateDraft, ExtractedTask, ExtractionDraft, CreateTasksResponse } from '../api/apiClient';
+import type { DraftChanges } from '../services/draftsService';
+import { detectAttendees, assignTaskKeys, type ReextractionDiff } from '@meetingmind/extraction';
 import TaskRow from '../components/TaskRow';
 import TaskSummary from '../components/TaskSummary';
+import ReextractionSummary from '../components/ReextractionSummary';
+import TranscriptPane from '../components/TranscriptPane';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { FiArrowLeft, FiCheck, FiAlertCircle, FiLoader, FiSave } from 'react-icons/fi';
+import { toLocalDateString } from '../utils/localDate';
+import { FiArrowLeft, FiCheck, FiCheckCircle, FiAlertCircle, FiLoader, FiSave, FiCalendar, FiExternalLink, FiLink } from 'react-icons/fi';
 
 // Define official roles that can access this page
 const OFFICIAL_ROLES = [
@@ -20,6 +25,28 @@ const OFFICIAL_ROLES = [
   'hr_manager'
 ];
 
+// A short first line ("Team Standup - Nov 24") makes a good default meeting title
+const guessMeetingTitle = (notes: string) => {
+  const firstLine = notes.split('\n').map(line => line.trim()).find(Boolean) || '';
+  return firstLine.length > 0 && firstLine.length <= 80 ? firstLine : 'Meeting notes';
+};
+
+const DRAFT_STATUS_STYLES: Record<ExtractionDraft['status'], string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  reviewed: 'bg-blue-50 text-blue-700',
+  publishing: 'bg-amber-50 text-amber-700',
+  published: 'bg-green-50 text-green-700',
+};
+
+const splitAttendees = (attendees: string) => attendees.split(',').map(name => name.trim()).filter(Boolean);
+
+// "[00:22] Seenu: I'll ship the fix" -> "I'll ship the fix"
+const titleFromSelection = (text: string) => {
+  const firstLine = text.split('\n').map(line => line.trim()).find(Boolean) || text;
+  const withoutSpeaker = firstLine.replace(/^\[?\d{1,2}:\d{2}(?::\d{2})?\]?\s*/, '').replace(/^[A-Z][\w.'-]*(?:\s[A-Z][\w.'-]*)?:\s*/, '');
+  return withoutSpeaker.length > 80 ? `${withoutSpeaker.slice(0, 77)}...` : withoutSpeaker;
+};
+
 interface TeamMember {
   id: string;
   username: string;
@@ -42,6 +69,12 @@ function PreviewTasks() {
     }
   }, [user, navigate]);
 
+  const { draftId } = useParams<{ draftId: string }>();
+  const [draft, setDraft] = useState<ExtractionDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'conflict' | 'error'>('saved');
+  const [linkCopied, setLinkCopied] = useState(false);
+
   const [tasks, setTasks] = useState<ExtractedTask[]>([]);
   const [isCreating, setIsCreating] = useState(false);
   const [createResult, setCreateResult] = useState<CreateTasksResponse | null>(null);
@@ -49,40 +82,76 @@ function PreviewTasks() {
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [teamId, setTeamId] = useState<string | null>(null);
   const [teamName, setTeamName] = useState<string>('');
+  const [extractionWarnings, setExtractionWarnings] = useState<string[]>([]);
+  // What the last re-extraction changed in the reviewed list
+  const [reextraction, setReextraction] = useState<ReextractionDiff<ExtractedTask> | null>(null);
+
+  // Meeting the tasks are created from
+  const [transcript, setTranscript] = useState('');
+  const [meetingTitle, setMeetingTitle] = useState('');
+  const [meetingDate, setMeetingDate] = useState(toLocalDateString(new Date()));
+  const [attendees, setAttendees] = useState('');
+  // Guessed meeting details are only saved once someone edits them
+  const meetingEdited = useRef(false);
+
+  // Task whose evidence is highlighted in the transcript pane
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [newTaskIndex, setNewTaskIndex] = useState<number | null>(null);
+
+  // The last saved revision; saves run one after another so each builds on the previous one
+  const draftRef = useRef<ExtractionDraft | null>(null);
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const conflictRef = useRef(false);
+
+  const applyDraft = (loaded: ExtractionDraft) => {
+    draftRef.current = loaded;
+    conflictRef.current = false;
+    meetingEdited.current = false;
+    setDraft(loaded);
+    setSaveStatus('saved');
+    setTasks(loaded.tasks);
+    setTeamId(loaded.team_id);
+    setTranscript(loaded.notes);
+    setExtractionWarnings(loaded.warnings || []);
+    setReextraction(loaded.diff);
+    setMeetingTitle(loaded.title ?? guessMeetingTitle(loaded.notes));
+    setMeetingDate(loaded.meeting_date ?? toLocalDateString(new Date()));
+    setAttendees((loaded.attendees ?? detectAttendees(loaded.notes)).join(', '));
+  };
 
-  // Load tasks from session storage on mount
-  useEffect(() => {
-    const storedTasks = sessionStorage.getItem('extractedTasks');
-    const storedTeamId = sessionStorage.getItem('currentTeamId');
-
-    if (storedTeamId) {
-      setTeamId(storedTeamId);
-      // Fetch team name
-      const fetchTeamName = async () => {
-        const { data } = await supabase.from('teams').select('name').eq('id', storedTeamId).single();
-        if (data) setTeamName(data.name);
-      };
-      fetchTeamName();
-    }
-
-    if (storedTasks) {
-      try {
-        const parsed = JSON.parse(storedTasks);
-        setTasks(parsed);
-      } catch (err) {
-        console.error('Failed to parse stored tasks:', err);
-        setError('Failed to load extracted tasks. Please try extracting again.');
+  const loadDraft = async () => {
+    if (!draftId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const found = await getDraft(draftId);
+      const loaded = found && user ? await settleDraft(found, user.id) : found;
+      if (loaded) {
+        applyDraft(loaded);
+      } else {
+        setError('This draft does not exist or has not been shared with you.');
       }
-    } else {
-      setError('No tasks found. Please extract tasks from meeting notes first.');
+    } catch (err) {
+      console.error('Failed to load draft:', err);
+      setError('Failed to load the draft. Please try again.');
+    } finally {
+      setIsLoading(false);
     }
-  }, []);
+  };
 
-  // Fetch team members
+  // Load the draft whenever the route points at another one
+  useEffect(() => {
+    loadDraft();
+  }, [draftId, user?.id]);
+
+  // Fetch team name and members
   useEffect(() => {
     const fetchTeamMembers = async () => {
       if (!teamId) return;
 
+      const { data: teamData } = await supabase.from('teams').select('name').eq('id', teamId).single();
+      if (teamData) setTeamName(teamData.name);
+
       const { data: membersData } = await supabase
         .from('team_members')
         .select('user_id, name, role')
@@ -101,14 +170,71 @@ function PreviewTasks() {
     fetchTeamMembers();
   }, [teamId]);
 
+  /**
+   * Save changes to the draft. Resolves with the saved draft, or null when it could not be
+   * saved, e.g. because another official saved it first.
+   */
+  const saveDraft = (changes: DraftChanges): Promise<ExtractionDraft | null> => {
+    const save = saveQueue.current.then(async () => {
+      const current = draftRef.current;
+      if (!current || !user || conflictRef.current) return null;
+
+      setSaveStatus('saving');
+      try {
+        const saved = await updateDraft(current, changes, user.id);
+        if (!saved) {
+          conflictRef.current = true;
+          setSaveStatus('conflict');
+          return null;
+        }
+        draftRef.current = saved;
+        setDraft(saved);
+        setSaveStatus('saved');
+        return saved;
+      } catch (err) {
+        console.error('Failed to save draft:', err);
+        setSaveStatus('error');
+        return null;
+      }
+    });
+    saveQueue.current = save;
+    return save;
+  };
+
+  /**
+   * Replace the task list; changed tasks need another review, so a reviewed draft goes back to draft
+   */
+  const saveTasks = (newTasks: ExtractedTask[], changes: DraftChanges = {}) => {
+    setTasks(newTasks);
+    const reopen = draftRef.current?.status === 'reviewed' ? { status: 'draft' as const } : {};
+    saveDraft({ tasks: newTasks, ...reopen, ...changes });
+  };
+
+  // Meeting details are typed into, so they are saved once the typing stops
+  useEffect(() => {
+    if (!meetingEdited.current) return;
+    const timer = setTimeout(() => {
+      saveDraft({
+        title: meetingTitle,
+        meeting_date: meetingDate,
+        attendees: splitAttendees(attendees),
+      });
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [meetingTitle, meetingDate, attendees]);
+
+  const editMeeting = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    meetingEdited.current = true;
+    setter(e.target.value);
+  };
+
   /**
    * Update a specific task in the list
    */
   const handleUpdateTask = (index: number, updatedTask: ExtractedTask) => {
     const newTasks = [...tasks];
     newTasks[index] = updatedTask;
-    setTasks(newTasks);
-    sessionStorage.setItem('extractedTasks', JSON.stringify(newTasks));
+    saveTasks(newTasks);
   };
 
   /**
@@ -116,12 +242,63 @@ function PreviewTasks() {
    */
   const handleRemoveTask = (index: number) => {
     const newTasks = tasks.filter((_, i) => i !== index);
-    setTasks(newTasks);
-    sessionStorage.setItem('extractedTasks', JSON.stringify(newTasks));
+    setSelectedIndex(null);
+    setNewTaskIndex(null);
+    saveTasks(newTasks);
+  };
+
+  /**
+   * Add a task from text selected in the transcript
+   */
+  const handleCreateFromSelection = (text: string) => {
+    const [newTask] = assignTaskKeys<ExtractedTask>([{
+      title: titleFromSelection(text),
+      description: text,
+      priority: 'medium',
+      sourceText: text,
+    }]);
+    const newTasks = [...tasks, newTask];
+    setSelectedIndex(newTasks.length - 1);
+    setNewTaskIndex(newTasks.length - 1);
+    saveTasks(newTasks);
   };
 
   /**
-   * Create all tasks in local database
+   * Put back a task a re-extraction dropped
+   */
+  const handleRestoreTask = (task: ExtractedTask) => {
+    const diff = reextraction && { ...reextraction, removed: reextraction.removed.filter(removal => removal.task.key !== task.key) };
+    setReextraction(diff);
+    saveTasks([...tasks, task], { diff });
+  };
+
+  const handleDismissReextraction = () => {
+    setReextraction(null);
+    saveDraft({ diff: null });
+  };
+
+  const handleMarkReviewed = () => saveDraft({ status: 'reviewed' });
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const editNotesPath = draft ? `${teamId ? `/teams/${teamId}/extract` : '/extract'}?draft=${draft.id}` : '/extract';
+
+  const highlightQuotes = useMemo(() => {
+    const task = selectedIndex !== null ? tasks[selectedIndex] : undefined;
+    if (!task) return [];
+    return task.evidence && task.evidence.length > 0 ? task.evidence : [task.sourceText];
+  }, [tasks, selectedIndex]);
+
+  /**
+   * Publish the draft: create the meeting and its tasks
    */
   const handleCreateTasks = async () => {
     if (tasks.length === 0) {
@@ -138,8 +315,40 @@ function PreviewTasks() {
     setError(null);
     setCreateResult(null);
 
+    // Claim the draft first, so two officials cannot publish it twice. It stays 'publishing' until
+    // the tasks exist; a publish cut short by a closed tab is settled when the draft is next opened.
+    await saveQueue.current;
+    const previousStatus = draftRef.current?.status || 'draft';
+    const claimed = await saveDraft({
+      status: 'publishing',
+      title: meetingTitle,
+      meeting_date: meetingDate,
+      attendees: splitAttendees(attendees),
+    });
+    if (!claimed) {
+      setIsCreating(false);
+      return;
+    }
+
+    let meetingId: string | undefined;
     try {
-      const result = await createTasks(tasks, teamId, user.id);
+      // Record the meeting first so every task can link back to it
+      const meeting = await createMeeting({
+        teamId,
+        title: meetingTitle.trim() || 'Meeting notes',
+        meetingDate,
+        attendees: splitAttendees(attendees),
+        transcript,
+        extraction: claimed.extraction,
+        createdBy: user.id,
+      });
+      meetingId = meeting.id;
+      // Linked before the tasks are created, so an interrupted publish can tell whether they were
+      if (!(await saveDraft({ meeting_id: meeting.id }))) {
+        throw new Error('The draft could not be saved, so no tasks were created. Please try again.');
+      }
+
+      const result = await createTasks(tasks, teamId, user.id, { meetingId: meeting.id });
       setCreateResult(result);
 
       // If there are warnings, set them as error to show them
@@ -147,16 +356,83 @@ function PreviewTasks() {
         setError(`Tasks created, but with warnings: ${result.warnings.join(' ')}`);
       }
 
-      // TODO: Optionally clear session storage after successful creation
-      // sessionStorage.removeItem('extractedTasks');
+      // Publishing makes the draft read-only
+      await saveDraft({ status: 'published' });
     } catch (err: any) {
       console.error('Error creating tasks:', err);
       setError(err.message || JSON.stringify(err) || 'Failed to create tasks');
+      // The tasks are inserted in one batch, so none exist; drop the meeting so a retry starts clean
+      if (meetingId) {
+        await deleteMeeting(meetingId).catch(deleteError => console.error('Failed to delete meeting:', deleteError));
+      }
+      await saveDraft({ status: previousStatus, meeting_id: null });
     } finally {
       setIsCreating(false);
     }
   };
 
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto mt-12 px-4 flex justify-center">
+        <FiLoader className="w-6 h-6 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  // Someone already published this draft
+  if (draft?.status === 'published' && !createResult && !isCreating) {
+    return (
+      <div className="max-w-4xl mx-auto mt-12 px-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <div className="mx-auto h-12 w-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
+            <FiCheck className="h-6 w-6 text-green-600" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900">This draft has been published</h3>
+          <p className="mt-2 text-sm text-gray-500 max-w-sm mx-auto">
+            Its {draft.tasks.length} tasks were created on {new Date(draft.updated_at).toLocaleDateString()}.
+          </p>
+          {teamId && (
+            <div className="mt-6">
+              <button
+                type="button"
+                onClick={() => navigate(`/teams/${teamId}/meetings`)}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-lg text-white bg-gray-900 hover:bg-black focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-900 transition-colors"
+              >
+                View Meetings
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Someone else is publishing this draft; it is settled on a later load if they never finish
+  if (draft?.status === 'publishing' && !createResult && !isCreating) {
+    return (
+      <div className="max-w-4xl mx-auto mt-12 px-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <div className="mx-auto h-12 w-12 bg-amber-50 rounded-full flex items-center justify-center mb-4">
+            <FiLoader className="h-6 w-6 text-amber-600" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900">This draft is being published</h3>
+          <p className="mt-2 text-sm text-gray-500 max-w-sm mx-auto">
+            Its {draft.tasks.length} tasks are being created. If publishing was interrupted, the draft can be edited again in a few minutes.
+          </p>
+          <div className="mt-6">
+            <button
+              type="button"
+              onClick={loadDraft}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-900 transition-colors"
+            >
+              Check Again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // If no tasks, show empty state
   if (tasks.length === 0 && !error) {
     return (
@@ -172,7 +448,7 @@ function PreviewTasks() {
           <div className="mt-6">
             <button
               type="button"
-              onClick={() => navigate('/extract')}
+              onClick={() => navigate(editNotesPath)}
               className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-lg text-white bg-gray-900 hover:bg-black focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-900 transition-colors"
             >
               Go to Extraction
@@ -202,6 +478,45 @@ function PreviewTasks() {
             </p>
           </div>
 
+          {createResult.created && createResult.created.length > 0 && (
+            <div className="p-6 border-b border-gray-100">
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Created in Zoho Projects</h4>
+              <ul className="space-y-2">
+                {createResult.created.map((zohoTask) => (
+                  <li key={zohoTask.taskId} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-700 truncate">{zohoTask.title}</span>
+                    {zohoTask.url && (
+                      <a
+                        href={zohoTask.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-blue-600 hover:text-blue-800 flex-shrink-0"
+                      >
+                        Open <FiExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {createResult.errors && createResult.errors.length > 0 && (
+            <div className="p-6 bg-red-50 border-b border-red-100">
+              <div className="flex items-start gap-3">
+                <FiAlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+                <div>
+                  <h4 className="text-sm font-medium text-red-800 mb-1">Not created in Zoho Projects</h4>
+                  <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                    {createResult.errors.map((zohoError, i) => (
+                      <li key={i}>{zohoError.title}: {zohoError.error}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
           {createResult.warnings && createResult.warnings.length > 0 && (
             <div className="p-6 bg-yellow-50 border-b border-yellow-100">
               <div className="flex items-start gap-3">
@@ -225,6 +540,12 @@ function PreviewTasks() {
             >
               Go to Dashboard
             </button>
+            <button
+              onClick={() => navigate(`/teams/${teamId}/meetings`)}
+              className="px-5 py-2.5 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 hover:border-gray-400 transition-colors shadow-sm"
+            >
+              View Meetings
+            </button>
             <button
               onClick={() => navigate(`/teams/${teamId}/extract`)}
               className="px-5 py-2.5 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-black transition-colors shadow-sm"
@@ -238,23 +559,57 @@ function PreviewTasks() {
   }
 
   return (
-    <div className="max-w-5xl mx-auto px-4 py-8">
+    <div className={`${transcript ? 'max-w-7xl' : 'max-w-5xl'} mx-auto px-4 py-8`}>
       {/* Header */}
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
         <div>
           <button
-            onClick={() => navigate(-1)}
+            onClick={() => navigate(editNotesPath)}
             className="mb-4 text-sm text-gray-500 hover:text-gray-900 flex items-center gap-1 transition-colors"
           >
-            <FiArrowLeft className="w-4 h-4" /> Back to Extract
+            <FiArrowLeft className="w-4 h-4" /> Edit Notes
           </button>
-          <h1 className="text-2xl font-bold text-gray-900 tracking-tight">Review & Assign</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900 tracking-tight">Review & Assign</h1>
+            {draft && (
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${DRAFT_STATUS_STYLES[draft.status]}`}>
+                {draft.status}
+              </span>
+            )}
+          </div>
           <p className="text-gray-500 text-sm mt-1">
             Review the extracted tasks below and assign them to your team.
+            {draft && (
+              <span className="text-gray-400">
+                {' '}{saveStatus === 'saving' ? 'Saving...' : `Saved ${new Date(draft.updated_at).toLocaleTimeString()}.`}
+              </span>
+            )}
           </p>
         </div>
 
         <div className="flex items-center gap-3">
+          {draft && (
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 shadow-sm transition-colors"
+              title="Officials on the team can open, edit and publish this draft"
+            >
+              <FiLink className="w-4 h-4" />
+              {linkCopied ? 'Link copied' : 'Share'}
+            </button>
+          )}
+          {draft?.status === 'draft' && (
+            <button
+              type="button"
+              onClick={handleMarkReviewed}
+              disabled={saveStatus === 'conflict'}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 shadow-sm transition-colors disabled:opacity-50"
+            >
+              <FiCheckCircle className="w-4 h-4" />
+              Mark Reviewed
+            </button>
+          )}
           {teamName && (
             <div className="hidden md:flex items-center gap-2 text-sm text-gray-500 bg-white px-3 py-1.5 rounded-full border border-gray-200 shadow-sm">
               <span className="w-2 h-2 rounded-full bg-green-500"></span>
@@ -264,10 +619,10 @@ function PreviewTasks() {
           <button
             type="button"
             onClick={handleCreateTasks}
-            disabled={isCreating}
+            disabled={isCreating || saveStatus === 'conflict'}
             className={`
               inline-flex items-center gap-2 px-5 py-2.5 rounded-lg text-sm font-medium text-white shadow-sm transition-all
-              ${isCreating
+              ${isCreating || saveStatus === 'conflict'
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700 hover:shadow-md active:transform active:scale-95'
               }
@@ -295,24 +650,121 @@ function PreviewTasks() {
         </div>
       )}
 
+      {saveStatus === 'conflict' && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-100 rounded-lg flex items-center justify-between gap-3">
+          <div className="flex items-start gap-3">
+            <FiAlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
+            <div className="text-sm text-yellow-800">
+              Someone else saved this draft after you opened it, so your last change was not saved.
+            </div>
+          </div>
+          <button onClick={loadDraft} className="text-sm font-medium text-yellow-800 underline hover:text-yellow-900 flex-shrink-0">
+            Load their version
+          </button>
+        </div>
+      )}
+
+      {saveStatus === 'error' && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-100 rounded-lg flex items-start gap-3">
+          <FiAlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+          <div className="text-sm text-red-800">Your last change could not be saved. Check your connection; the next change will try again.</div>
+        </div>
+      )}
+
+      {extractionWarnings.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-100 rounded-lg flex items-start gap-3">
+          <FiAlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
+          <div>
+            <h4 className="text-sm font-medium text-yellow-800 mb-1">Some extracted tasks were skipped</h4>
+            <p className="text-sm text-yellow-700 mb-1">The AI returned tasks that failed validation even after a retry:</p>
+            <ul className="list-disc list-inside text-sm text-yellow-700 space-y-1">
+              {extractionWarnings.map((warning, i) => (
+                <li key={i}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {reextraction && !createResult && (
+        <ReextractionSummary
+          diff={reextraction}
+          onRestore={handleRestoreTask}
+          onDismiss={handleDismissReextraction}
+        />
+      )}
+
+      {transcript && (
+        <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center gap-2 mb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <FiCalendar className="w-4 h-4 text-gray-400" />
+            <span>Meeting</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-500 mb-1">Title</label>
+              <input
+                type="text"
+                value={meetingTitle}
+                onChange={editMeeting(setMeetingTitle)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-900"
+                placeholder="Meeting title"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Date</label>
+              <input
+                type="date"
+                value={meetingDate}
+                onChange={editMeeting(setMeetingDate)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-700"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Attendees</label>
+              <input
+                type="text"
+                value={attendees}
+                onChange={editMeeting(setAttendees)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-700"
+                placeholder="Comma separated"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       <TaskSummary tasks={tasks} />
 
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-        <div className="p-4 bg-gray-50 border-b border-gray-200 flex justify-between items-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-          <span>Task Details</span>
-          <span>{tasks.length} Tasks Found</span>
+      <div className={transcript ? 'grid grid-cols-1 lg:grid-cols-2 gap-6 items-start' : ''}>
+        {transcript && (
+          <TranscriptPane
+            transcript={transcript}
+            highlightQuotes={highlightQuotes}
+            onCreateFromSelection={handleCreateFromSelection}
+          />
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 bg-gray-50 border-b border-gray-200 flex justify-between items-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <span>Task Details</span>
+            <span>{tasks.length} Tasks Found</span>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {tasks.map((task, index) => (
+              <TaskRow
+                key={task.key ?? index}
+                task={task}
+                onUpdate={(updatedTask) => handleUpdateTask(index, updatedTask)}
+                onRemove={() => handleRemoveTask(index)}
+                teamMembers={teamMembers}
+                isSelected={selectedIndex === index}
+                onSelect={transcript ? () => setSelectedIndex(selectedIndex === index ? null : index) : undefined}
+                defaultEditing={newTaskIndex === index}
+              />
+            ))}
+          </ul>
         </div>
-        <ul className="divide-y divide-gray-100">
-          {tasks.map((task, index) => (
-            <TaskRow
-              key={index}
-              task={task}
-              onUpdate={(updatedTask) => handleUpdateTask(index, updatedTask)}
-              onRemove={() => handleRemoveTask(index)}
-              teamMembers={teamMembers}
-            />
-          ))}
-        </ul>
       </div>
     </div>
   );
@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { FiUser, FiLock, FiSave, FiCheck, FiArrowLeft, FiShield, FiEye, FiEyeOff, FiEdit2, FiX } from 'react-icons/fi';
+import { FiUser, FiLock, FiSave, FiCheck, FiArrowLeft, FiShield, FiEye, FiEyeOff, FiEdit2, FiX, FiLink } from 'react-icons/fi';
 import { useNavigate } from 'react-router-dom';
+import CliqAccountLink from '../components/CliqAccountLink';
 
 const ProfileSettings = () => {
     const { user } = useAuth();
     const navigate = useNavigate();
-    const [activeTab, setActiveTab] = useState<'profile' | 'security'>('profile');
+    const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'integrations'>('profile');
 
     // Profile State
     const [fullName, setFullName] = useState('');
     const [email, setEmail] = useState('');
     const [username, setUsername] = useState('');
+    // Comma-separated in the form, stored as a text[] on the profile
+    const [aliases, setAliases] = useState('');
     const [loadingProfile, setLoadingProfile] = useState(true);
     const [savingProfile, setSavingProfile] = useState(false);
     const [profileMessage, setProfileMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
@@ -42,7 +45,7 @@ const ProfileSettings = () => {
             setLoadingProfile(true);
             const { data, error } = await supabase
                 .from('user_profiles')
-                .select('username, full_name, role')
+                .select('username, full_name, role, aliases')
                 .eq('id', user?.id)
                 .single();
 
@@ -53,6 +56,7 @@ const ProfileSettings = () => {
                 setEmail(user?.email || '');
                 setUsername(data.username || '');
                 setRole(data.role || '');
+                setAliases((data.aliases || []).join(', '));
             }
         } catch (error) {
             console.error('Error fetching profile:', error);
@@ -73,6 +77,7 @@ const ProfileSettings = () => {
                     full_name: fullName,
                     username: username,
                     role: role,
+                    aliases: [...new Set(aliases.split(',').map(a => a.trim()).filter(Boolean))],
                     updated_at: new Date().toISOString()
                 })
                 .eq('id', user?.id);
@@ -143,7 +148,7 @@ const ProfileSettings = () => {
                         </button>
                         <h1 className="text-3xl font-bold text-gray-900">Account Settings</h1>
                         <p className="mt-1 text-sm text-gray-500">
-                            Manage your profile information and security settings.
+                            Manage your profile information, security settings and connected apps.
                         </p>
                     </div>
                 </div>
@@ -172,6 +177,16 @@ const ProfileSettings = () => {
                                 <FiShield className={`mr-3 h-5 w-5 ${activeTab === 'security' ? 'text-orange-500' : 'text-gray-400'}`} />
                                 Security
                             </button>
+                            <button
+                                onClick={() => setActiveTab('integrations')}
+                                className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-xl transition-all duration-200 ${activeTab === 'integrations'
+                                    ? 'bg-white text-orange-600 shadow-md ring-1 ring-black/5'
+                                    : 'text-gray-600 hover:bg-white hover:text-gray-900 hover:shadow-sm'
+                                    }`}
+                            >
+                                <FiLink className={`mr-3 h-5 w-5 ${activeTab === 'integrations' ? 'text-orange-500' : 'text-gray-400'}`} />
+                                Connected Apps
+                            </button>
                         </nav>
                     </div>
 
@@ -212,6 +227,25 @@ const ProfileSettings = () => {
                                         />
                                     </div>
 
+                                    <div>
+                                        <label htmlFor="aliases" className="block text-sm font-medium text-gray-700 mb-1">
+                                            Nicknames &amp; Aliases
+                                        </label>
+                                        <input
+                                            type="text"
+                                            name="aliases"
+                                            id="aliases"
+                                            value={aliases}
+                                            onChange={(e) => setAliases(e.target.value)}
+                                            disabled={!isEditing}
+                                            className={`block w-full rounded-lg border-gray-300 shadow-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent sm:text-sm p-3 border transition-all duration-200 ${!isEditing ? 'bg-gray-50 text-gray-500 cursor-not-allowed' : 'bg-white text-gray-900'}`}
+                                            placeholder="Johnny, JD"
+                                        />
+                                        <p className="mt-1 text-xs text-gray-500">
+                                            Names people call you in meetings, separated by commas. Tasks assigned to these names are matched to you.
+                                        </p>
+                                    </div>
+
                                     <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
                                         <div>
                                             <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
@@ -395,6 +429,17 @@ const ProfileSettings = () => {
                                 </form>
                             </div>
                         )}
+
+                        {activeTab === 'integrations' && user && (
+                            <div className="max-w-lg animate-fadeIn">
+                                <div className="mb-8">
+                                    <h2 className="text-2xl font-bold text-gray-900">Connected Apps</h2>
+                                    <p className="mt-1 text-gray-500">Use MeetingMind from the chat tools your team already works in.</p>
+                                </div>
+
+                                <CliqAccountLink userId={user.id} />
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
-import { useParams, useSearchParams } from 'react-router-dom';
-import { FiUsers, FiCheckCircle, FiClock, FiSearch, FiUserPlus, FiTrash2, FiEdit2, FiRefreshCw, FiCheck, FiX, FiAlertCircle } from 'react-icons/fi';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { FiUsers, FiCheckCircle, FiClock, FiSearch, FiUserPlus, FiTrash2, FiEdit2, FiRefreshCw, FiCheck, FiX, FiAlertCircle, FiCalendar, FiExternalLink } from 'react-icons/fi';
 import { useAuth } from '../contexts/AuthContext';
 import TeamTabs from '../components/TeamTabs';
 import { getTasks, deleteTask, updateTask, restoreTask, sendTeamInvitations, getTeamStats, searchUsers, removeTeamMember, getTeamMembers } from '../api/apiClient';
@@ -9,6 +9,10 @@ import { supabase } from '../lib/supabase';
 import { ensureTeamHasData } from '../utils/sampleData';
 import EditTaskModal from '../components/EditTaskModal';
 import ConfirmationModal from '../components/ConfirmationModal';
+import ExtractionSettings from '../components/ExtractionSettings';
+import ZohoIntegration from '../components/ZohoIntegration';
+import CliqChannels from '../components/CliqChannels';
+import DueDateBadge from '../components/DueDateBadge';
 import PasteNotes from './PasteNotes';
 
 interface TeamStats {
@@ -157,9 +161,9 @@ const TeamKanbanBoard = ({ teamId, isAdmin, currentUserId, members }: { teamId:
 
     const handleSaveTask = async (taskId: string, updates: any) => {
         try {
-            await updateTask(taskId, updates);
-            // Update local state
-            setTasks(tasks.map(t => t.id === taskId ? { ...t, ...updates } : t));
+            const updated = await updateTask(taskId, updates);
+            // Update local state, keeping the status Zoho sync resolved to
+            setTasks(tasks.map(t => t.id === taskId ? { ...t, ...updates, status: updated?.status || updates.status || t.status } : t));
             setIsEditModalOpen(false);
             setEditingTask(null);
         } catch (error) {
@@ -176,6 +180,7 @@ const TeamKanbanBoard = ({ teamId, isAdmin, currentUserId, members }: { teamId:
         }
         return task.status === activeTab && task.assigned_to;
     }).filter(task =>
+        task.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         task.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         task.assigned_to_name?.toLowerCase().includes(searchQuery.toLowerCase())
     );
@@ -244,15 +249,36 @@ const TeamKanbanBoard = ({ teamId, isAdmin, currentUserId, members }: { teamId:
                         <div key={task.id} className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex justify-between items-center group hover:shadow-md transition-shadow">
                             <div className="flex-1">
                                 <div className="flex items-center gap-2 mb-1">
-                                    <h3 className="text-sm font-medium text-gray-900">{task.description || 'Untitled Task'}</h3>
+                                    <h3 className="text-sm font-medium text-gray-900">{task.title || task.description || 'Untitled Task'}</h3>
                                     <span className={`px-2 py-0.5 rounded text-xs font-medium ${task.priority === 'high' ? 'bg-red-100 text-red-800' :
                                         task.priority === 'medium' ? 'bg-orange-100 text-orange-800' :
                                             'bg-green-100 text-green-800'
                                         }`}>
                                         {task.priority || 'Medium'}
                                     </span>
+                                    {task.optional && (
+                                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">Optional</span>
+                                    )}
+                                    {task.inferred && (
+                                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700" title={task.source_text || undefined}>Inferred</span>
+                                    )}
+                                </div>
+                                {task.description && task.description !== task.title && (
+                                    <p className="text-xs text-gray-500">{task.description}</p>
+                                )}
+                                <div className="mt-1 flex items-center gap-3">
+                                    <DueDateBadge dueDate={task.due_date} status={task.status} />
+                                    {task.zoho_task_url && (
+                                        <a
+                                            href={task.zoho_task_url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-xs text-blue-600 hover:text-blue-800 inline-flex items-center gap-1"
+                                        >
+                                            View in Zoho <FiExternalLink className="w-3 h-3" />
+                                        </a>
+                                    )}
                                 </div>
-                                <p className="text-xs text-gray-500">{task.description}</p>
                             </div>
 
                             <div className="flex items-center gap-4">
@@ -560,7 +586,16 @@ const TeamDashboard = () => {
     return (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             <div className="mb-8">
-                <h1 className="text-2xl font-bold text-gray-900">{stats?.team_name}</h1>
+                <div className="flex items-center justify-between gap-4">
+                    <h1 className="text-2xl font-bold text-gray-900">{stats?.team_name}</h1>
+                    <Link
+                        to={`/teams/${teamId}/meetings`}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                        <FiCalendar className="w-4 h-4" />
+                        Meetings
+                    </Link>
+                </div>
                 <p className="text-gray-500">Manage your team, tasks, and members</p>
                 {/* DEBUG INFO - TO BE REMOVED */}
                 <div className="mt-2 p-2 bg-gray-100 rounded text-xs font-mono text-gray-600">
@@ -676,6 +711,15 @@ const TeamDashboard = () => {
                             </ul>
                         </div>
 
+                        {/* Extraction Settings Section */}
+                        {teamId && <ExtractionSettings teamId={teamId} />}
+
+                        {/* Zoho Projects Integration (owner only; the API enforces it too) */}
+                        {teamId && isOwner && <ZohoIntegration teamId={teamId} oauthResult={searchParams.get('zoho')} />}
+
+                        {/* Zoho Cliq channels that can create tasks for this team */}
+                        {teamId && isOwner && <CliqChannels teamId={teamId} />}
+
                         {/* Add Member Modal */}
                         {showAddMemberModal && (
                             <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -19,6 +19,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { getTasks, updateTaskStatus } from '../api/apiClient';
 import { TeamsService } from '../services/teamsService';
 import { supabase } from '../lib/supabase';
+import DueDateBadge from '../components/DueDateBadge';
 
 const WorkersDashboard = () => {
   const { user } = useAuth();
@@ -84,9 +85,10 @@ const WorkersDashboard = () => {
 
   const handleStatusChange = async (taskId: string, newStatus: 'pending' | 'in-progress' | 'completed') => {
     try {
-      await updateTaskStatus(taskId, newStatus);
+      // Zoho Projects may have changed the task more recently and win the conflict
+      const updated = await updateTaskStatus(taskId, newStatus);
       setTasks(tasks.map(task =>
-        task.id === taskId ? { ...task, status: newStatus } : task
+        task.id === taskId ? { ...task, status: updated?.status || newStatus } : task
       ));
     } catch (error) {
       console.error('Failed to update status:', error);
@@ -125,14 +127,27 @@ const WorkersDashboard = () => {
     <div className="group flex flex-col sm:flex-row sm:items-center justify-between p-5 bg-white border border-gray-200 rounded-xl hover:shadow-md transition-all duration-200 mb-3">
       <div className="flex-1 min-w-0 pr-4">
         <div className="flex items-center gap-3 mb-2">
-          <h3 className="text-lg font-semibold text-gray-900 truncate" title={task.title}>
-            {task.title || 'Untitled Task'}
+          <h3 className="text-lg font-semibold text-gray-900 truncate" title={task.title || task.description}>
+            {task.title || task.description || 'Untitled Task'}
           </h3>
           {getPriorityBadge(task.priority)}
+          {task.optional && (
+            <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium ring-1 ring-inset bg-gray-50 text-gray-600 ring-gray-500/20">
+              Optional
+            </span>
+          )}
         </div>
-        <p className="text-sm text-gray-600 line-clamp-2 mb-3 sm:mb-0">
-          {task.description}
-        </p>
+        {task.description && task.description !== task.title && (
+          <p className="text-sm text-gray-600 line-clamp-2 mb-2">
+            {task.description}
+          </p>
+        )}
+        {task.source_text && (
+          <p className="text-xs text-gray-400 italic line-clamp-1 mb-2" title={task.source_text}>
+            "{task.source_text}"
+          </p>
+        )}
+        <DueDateBadge dueDate={task.due_date} status={task.status} />
       </div>
 
       <div className="flex items-center gap-6 flex-shrink-0 mt-3 sm:mt-0">
@@ -0,0 +1,112 @@
+/**
+ * Client-side Zoho Cliq channel links
+ * A linked channel can create tasks for its team straight from /meetingmind cards
+ */
+
+import { supabase } from '../lib/supabase';
+
+export interface CliqChannelLink {
+  chat_id: string;
+  channel_name: string | null;
+  team_id: string;
+  linked_by: string | null;
+  created_at: string;
+}
+
+export interface CliqUserLink {
+  cliq_user_id: string;
+  user_id: string;
+  cliq_user_name: string | null;
+  cliq_user_email: string | null;
+  linked_at: string;
+}
+
+// No 0/O or 1/I, so codes survive being read aloud or retyped
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LINK_CODE_LENGTH = 8;
+
+export class CliqService {
+  static async getChannelLinks(teamId: string): Promise<CliqChannelLink[]> {
+    const { data, error } = await supabase
+      .from('cliq_channel_links')
+      .select('*')
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Link a channel by its Cliq chat ID (shown by /meetingmind in an unlinked channel)
+   */
+  static async linkChannel(teamId: string, chatId: string, channelName: string, linkedBy: string) {
+    const { data, error } = await supabase
+      .from('cliq_channel_links')
+      .insert({
+        chat_id: chatId,
+        channel_name: channelName || null,
+        team_id: teamId,
+        linked_by: linkedBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // chat_id is the primary key, so a channel belongs to one team at a time
+      if (error.code === '23505') {
+        throw new Error('That channel is already linked to a team');
+      }
+      throw error;
+    }
+    return data as CliqChannelLink;
+  }
+
+  static async unlinkChannel(chatId: string) {
+    const { error } = await supabase
+      .from('cliq_channel_links')
+      .delete()
+      .eq('chat_id', chatId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Create a one-time code (valid for 10 minutes) to send as `/meetingmind link <code>` from Cliq
+   */
+  static async createLinkCode(userId: string) {
+    const random = crypto.getRandomValues(new Uint32Array(LINK_CODE_LENGTH));
+    const code = Array.from(random, n => LINK_CODE_ALPHABET[n % LINK_CODE_ALPHABET.length]).join('');
+
+    const { data, error } = await supabase
+      .from('cliq_link_codes')
+      .insert({ code, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as { code: string; expires_at: string };
+  }
+
+  static async getUserLinks(userId: string): Promise<CliqUserLink[]> {
+    const { data, error } = await supabase
+      .from('cliq_user_links')
+      .select('*')
+      .eq('user_id', userId)
+      .order('linked_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async unlinkUser(cliqUserId: string) {
+    const { error } = await supabase
+      .from('cliq_user_links')
+      .delete()
+      .eq('cliq_user_id', cliqUserId);
+
+    if (error) throw error;
+  }
+}
+
+export default CliqService;
@@ -0,0 +1,158 @@
+/**
+ * Client-side extraction drafts
+ * A draft holds a review in progress on the server, so it survives reloads and other
+ * officials on the team can pick it up at /drafts/:id
+ */
+
+import { supabase } from '../lib/supabase';
+import type { ExtractedTask, ExtractionDraft } from '../api/apiClient';
+
+export interface CreateDraftInput {
+  teamId?: string;
+  notes: string;
+  tasks: ExtractedTask[];
+  baseline: ExtractedTask[];
+  extraction?: ExtractionDraft['extraction'];
+  warnings?: string[];
+  meetingDate?: string;
+  createdBy: string;
+}
+
+// Fields a save can change; the rest is managed by the service and the database
+export type DraftChanges = Partial<Pick<ExtractionDraft,
+  'status' | 'notes' | 'tasks' | 'baseline' | 'diff' | 'extraction' | 'warnings' |
+  'title' | 'meeting_date' | 'attendees' | 'meeting_id'>>;
+
+// Publishing takes seconds; a draft still 'publishing' after this long was left by a closed tab
+// or a dropped connection
+const PUBLISH_TIMEOUT_MS = 2 * 60 * 1000;
+
+export class DraftsService {
+  /**
+   * Start a draft from a first extraction
+   */
+  static async createDraft(input: CreateDraftInput): Promise<ExtractionDraft> {
+    const { data, error } = await supabase
+      .from('extraction_drafts')
+      .insert({
+        team_id: input.teamId || null,
+        notes: input.notes,
+        tasks: input.tasks,
+        baseline: input.baseline,
+        extraction: input.extraction || {},
+        warnings: input.warnings || [],
+        meeting_date: input.meetingDate || null,
+        created_by: input.createdBy,
+        updated_by: input.createdBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('DraftsService.createDraft: Supabase error:', error);
+      throw new Error(`Supabase Error: ${error.message} (${error.details || 'no details'})`);
+    }
+    return data;
+  }
+
+  /**
+   * Get a draft, or null when it does not exist or the user may not see it
+   */
+  static async getDraft(draftId: string): Promise<ExtractionDraft | null> {
+    const { data, error } = await supabase
+      .from('extraction_drafts')
+      .select('*')
+      .eq('id', draftId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('DraftsService.getDraft: Error fetching draft:', error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Get a team's unpublished drafts (including ones being published), most recently edited first
+   */
+  static async getTeamDrafts(teamId: string): Promise<ExtractionDraft[]> {
+    const { data, error } = await supabase
+      .from('extraction_drafts')
+      .select('*')
+      .eq('team_id', teamId)
+      .neq('status', 'published')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('DraftsService.getTeamDrafts: Error fetching drafts:', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Save changes on top of the revision the caller loaded.
+   * Returns null when someone else saved (or published) the draft in the meantime;
+   * the caller should reload it rather than overwrite their changes.
+   */
+  static async updateDraft(draft: ExtractionDraft, changes: DraftChanges, userId: string): Promise<ExtractionDraft | null> {
+    const { data, error } = await supabase
+      .from('extraction_drafts')
+      .update({ ...changes, revision: draft.revision + 1, updated_by: userId })
+      .eq('id', draft.id)
+      .eq('revision', draft.revision)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('DraftsService.updateDraft: Supabase error:', error);
+      throw new Error(`Supabase Error: ${error.message} (${error.details || 'no details'})`);
+    }
+    return data;
+  }
+
+  /**
+   * Settle a draft whose publish was interrupted: mark it published when its meeting already has
+   * the tasks, otherwise drop the meeting and put the draft back to draft so it can be published
+   * again. Drafts that are not stuck publishing are returned unchanged.
+   */
+  static async settleInterruptedPublish(draft: ExtractionDraft, userId: string): Promise<ExtractionDraft> {
+    if (draft.status !== 'publishing' || Date.now() - Date.parse(draft.updated_at) < PUBLISH_TIMEOUT_MS) {
+      return draft;
+    }
+
+    let published = false;
+    if (draft.meeting_id) {
+      const { count, error } = await supabase
+        .from('tasks')
+        .select('id', { count: 'exact', head: true })
+        .eq('meeting_id', draft.meeting_id);
+
+      if (error) throw error;
+      published = (count || 0) > 0;
+      if (!published) {
+        // Only its creator may delete it; otherwise it stays as an empty meeting
+        const { error: deleteError } = await supabase.from('meetings').delete().eq('id', draft.meeting_id);
+        if (deleteError) console.error('DraftsService.settleInterruptedPublish: Failed to delete meeting:', deleteError);
+      }
+    }
+
+    const changes: DraftChanges = published ? { status: 'published' } : { status: 'draft', meeting_id: null };
+    // Someone else settled it first when the save conflicts
+    return (await this.updateDraft(draft, changes, userId)) || (await this.getDraft(draft.id)) || draft;
+  }
+
+  /**
+   * Delete a draft
+   */
+  static async deleteDraft(draftId: string) {
+    const { error } = await supabase
+      .from('extraction_drafts')
+      .delete()
+      .eq('id', draftId);
+
+    if (error) throw error;
+  }
+}
+
+export default DraftsService;
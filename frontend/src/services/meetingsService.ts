@@ -0,0 +1,76 @@
+/**
+ * Client-side meeting records
+ * A meeting keeps the transcript and extraction run that tasks were created from
+ */
+
+import { supabase } from '../lib/supabase';
+import type { ExtractResponse } from '../api/apiClient';
+
+export interface CreateMeetingInput {
+  teamId: string;
+  title: string;
+  meetingDate: string; // YYYY-MM-DD
+  attendees: string[];
+  transcript: string;
+  extraction?: ExtractResponse['metadata'];
+  createdBy: string;
+}
+
+export class MeetingsService {
+  /**
+   * Store a meeting before creating its tasks
+   */
+  static async createMeeting(input: CreateMeetingInput) {
+    const { data, error } = await supabase
+      .from('meetings')
+      .insert({
+        team_id: input.teamId,
+        title: input.title,
+        meeting_date: input.meetingDate,
+        attendees: input.attendees,
+        transcript: input.transcript,
+        extraction: input.extraction || {},
+        created_by: input.createdBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('MeetingsService.createMeeting: Supabase error:', error);
+      throw new Error(`Supabase Error: ${error.message} (${error.details || 'no details'})`);
+    }
+    return data;
+  }
+
+  /**
+   * Get a team's meetings, newest first, with the tasks created from each
+   */
+  static async getMeetings(teamId: string) {
+    const { data, error } = await supabase
+      .from('meetings')
+      .select('*, tasks(id, title, description, status, priority, assigned_to_name, due_date)')
+      .eq('team_id', teamId)
+      .order('meeting_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('MeetingsService.getMeetings: Error fetching meetings:', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Delete a meeting; its tasks stay and lose the link
+   */
+  static async deleteMeeting(meetingId: string) {
+    const { error } = await supabase
+      .from('meetings')
+      .delete()
+      .eq('id', meetingId);
+
+    if (error) throw error;
+  }
+}
+
+export default MeetingsService;
@@ -1,38 +1,179 @@
 /**
  * Client-side AI service for task extraction
- * Replaces the backend /api/extract endpoint
+ * Gemini runs behind the /api/extract serverless function so the API key stays server-side
  */
 
-// Import your existing AI clients
-import { extractTasksWithGemini } from '../lib/llmClient';
-import { mockExtractTasks } from '../api/apiClient';
+import { mockExtractTasks, resolveAssignee } from '@meetingmind/extraction';
+import type { ExtractedTask, ExtractResponse, ExtractionProviderId, TeamExtractionSettings } from '../api/apiClient';
 import { supabase } from '../lib/supabase';
 
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+export interface ExtractOptions {
+  // Team whose provider/model settings the endpoint should apply
+  teamId?: string;
+  // 'heuristic' runs in the browser without a server round trip
+  provider?: ExtractionProviderId;
+  // Team rule configuration for in-browser heuristic extraction
+  rules?: TeamExtractionSettings['rules'];
+  // Team calendar for in-browser heuristic extraction; the endpoint loads its own
+  dates?: TeamExtractionSettings['dates'];
+  // Stream tasks as they are extracted; an index can repeat when a later transcript chunk updates a task
+  onTask?: (task: ExtractedTask, index: number) => void;
+  // Cancels a streamed extraction, resolving with the tasks received so far
+  signal?: AbortSignal;
+  // Run the model again even when the endpoint has a result cached for these notes
+  refresh?: boolean;
+  // YYYY-MM-DD the meeting took place; relative due dates ("by Friday") count from it
+  meetingDate?: string;
+}
+
+// Newline-delimited events written by /api/extract when `stream` is set
+type ExtractStreamEvent =
+  | { type: 'task'; index: number; task: ExtractedTask }
+  | { type: 'done'; metadata: ExtractResponse['metadata'] }
+  | { type: 'error'; error: string };
+
 export class TaskExtractionService {
   /**
-   * Extract tasks from notes (client-side)
+   * Extract tasks from notes via the /api/extract endpoint
    */
-  static async extractTasks(notes: string, teamMembers: any[] = [], useMock: boolean = false) {
+  static async extractTasks(notes: string, teamMembers: any[] = [], options: ExtractOptions = {}): Promise<ExtractResponse> {
     try {
-      if (useMock) {
-        return mockExtractTasks(notes);
+      if (options.provider === 'heuristic') {
+        const result = mockExtractTasks(notes, { rules: options.rules, dates: { ...options.dates, meetingDate: options.meetingDate } });
+        result.tasks.forEach((task, index) => options.onTask?.(task, index));
+        return result;
+      }
+
+      // The endpoint verifies the Supabase JWT before spending model quota
+      const { data } = await supabase.auth.getSession();
+      const accessToken = data.session?.access_token;
+      if (!accessToken) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${API_URL}/extract`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          notes,
+          teamMembers,
+          teamId: options.teamId,
+          stream: Boolean(options.onTask),
+          refresh: options.refresh,
+          meetingDate: options.meetingDate,
+          // Used when the team has not set a time zone; the server itself runs in UTC
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+        signal: options.signal,
+      });
+
+      if (!response.ok || !options.onTask) {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || `Extraction failed with status ${response.status}`);
+        }
+        return payload as ExtractResponse;
       }
 
-      // Use Gemini AI directly from frontend, passing team members for context
-      return await extractTasksWithGemini(notes, teamMembers);
+      return await TaskExtractionService.readTaskStream(response, options);
     } catch (error) {
+      if (options.signal?.aborted) {
+        return { tasks: [], metadata: { processedAt: new Date().toISOString(), cancelled: true } };
+      }
       console.error('[TaskExtraction] Error:', error);
       throw error;
     }
   }
+
+  /**
+   * Read the NDJSON task stream, reporting each task as it arrives.
+   * A cancelled stream resolves with the tasks received so far.
+   */
+  private static async readTaskStream(response: Response, options: ExtractOptions): Promise<ExtractResponse> {
+    const tasks: ExtractedTask[] = [];
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleEvent = (event: ExtractStreamEvent): ExtractResponse | null => {
+      if (event.type === 'task') {
+        tasks[event.index] = event.task;
+        options.onTask?.(event.task, event.index);
+        return null;
+      }
+      if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+      return { tasks, metadata: event.metadata };
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const result = handleEvent(JSON.parse(line));
+          if (result) return result;
+        }
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { tasks: tasks.filter(Boolean), metadata: { processedAt: new Date().toISOString(), cancelled: true } };
+      }
+      throw error;
+    }
+
+    throw new Error('Extraction stream ended unexpectedly');
+  }
 }
 
+// How many close candidates TaskRow offers for an ambiguous name
+const MAX_CANDIDATES = 3;
+
+// Match an extracted assignee to a user (same resolver as the backend).
+// Close calls stay unmatched and keep their candidates for TaskRow to ask about.
+const matchAssignee = (task: any, users: any[]) => {
+  if (task.assignee && users.length > 0) {
+    const { match, candidates, ambiguous } = resolveAssignee(task.assignee, users);
+    if (match) {
+      task.matchedUser = match;
+      // Ensure we use the exact name from the matched user
+      task.assignee = match.full_name || match.name || match.username;
+    } else if (ambiguous) {
+      task.assigneeCandidates = candidates.slice(0, MAX_CANDIDATES);
+    }
+  }
+  return task;
+};
+
+// Team member rows have no aliases; those are on each member's profile
+const withAliases = async (users: any[]) => {
+  const userIds = users.map(u => u.user_id).filter(Boolean);
+  if (userIds.length === 0) return users;
+
+  const { data: profiles } = await supabase
+    .from('user_profiles')
+    .select('id, aliases')
+    .in('id', userIds);
+  const aliasesById = new Map((profiles || []).map((p: any) => [p.id, p.aliases || []]));
+
+  return users.map(u => (u.user_id ? { ...u, aliases: aliasesById.get(u.user_id) || [] } : u));
+};
+
 // Update API client to use client-side extraction
-export const clientSideExtractTasks = async (notes: string, teamMembers: any[] = []) => {
+export const clientSideExtractTasks = async (notes: string, teamMembers: any[] = [], options: ExtractOptions = {}) => {
   try {
-    // Call Gemini AI directly from frontend
-    const response = await TaskExtractionService.extractTasks(notes, teamMembers);
-
     // Get users for matching (directly from Supabase) if not provided or to supplement
     let users = teamMembers;
 
@@ -42,30 +183,22 @@ export const clientSideExtractTasks = async (notes: string, teamMembers: any[] =
         .from('user_profiles')
         .select('*');
       users = allProfiles || [];
+    } else {
+      users = await withAliases(users);
     }
 
-    // Match assignees to users (same logic as backend)
-    if (users && users.length > 0) {
-      response.tasks = response.tasks.map((task: any) => {
-        if (task.assignee) {
-          const matched = users.find((u: any) =>
-            (u.username && u.username.toLowerCase().includes(task.assignee.toLowerCase())) ||
-            (u.full_name && u.full_name.toLowerCase().includes(task.assignee.toLowerCase())) ||
-            (u.name && u.name.toLowerCase().includes(task.assignee.toLowerCase()))
-          );
-          if (matched) {
-            task.matchedUser = matched;
-            // Ensure we use the exact name from the matched user
-            task.assignee = matched.full_name || matched.name || matched.username;
-          }
-        }
-        return task;
-      });
-    }
+    // Run the team's configured provider through the extraction endpoint,
+    // matching assignees as each streamed task arrives
+    const response = await TaskExtractionService.extractTasks(notes, teamMembers, {
+      ...options,
+      onTask: options.onTask && ((task, index) => options.onTask!(matchAssignee(task, users), index)),
+    });
+
+    response.tasks = response.tasks.map((task: any) => matchAssignee(task, users));
 
     return response;
   } catch (error) {
     console.error('[ClientSide] Task extraction failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
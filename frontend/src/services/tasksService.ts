@@ -4,40 +4,36 @@
  */
 
 import { supabase } from '../lib/supabase';
+import ZohoService from './zohoService';
+import { getTeamRoster, buildTaskRow, insertTasks, getTasks as getTaskRows, saveTask } from '@meetingmind/data';
+import type { TaskFilters } from '@meetingmind/data';
 
 export class TasksService {
   /**
-   * Create tasks in database
+   * Create tasks in database, optionally linked to the meeting they came from.
+   * Tasks go to the member picked in review; the row and insert are shared with the API (@meetingmind/data).
    */
-  static async createTasks(tasks: any[], teamId: string, assignedBy: string) {
-    // 1. Fetch all team members with 'accepted' status
-    const { data: teamMembers, error: membersError } = await supabase
-      .from('team_members')
-      .select('user_id, status, name')
-      .eq('team_id', teamId);
-
-    if (membersError) {
+  static async createTasks(tasks: any[], teamId: string, assignedBy: string, meetingId?: string) {
+    // 1. Fetch all team members, and the team owner to allow them to be assigned even if not in members list
+    let roster;
+    try {
+      roster = await getTeamRoster(supabase, teamId);
+    } catch (membersError) {
       console.error('Error fetching team members during task creation:', membersError);
       throw membersError;
     }
-
-    // 2. Fetch team owner to allow them to be assigned even if not in members list
-    const { data: teamData } = await supabase
-      .from('teams')
-      .select('created_by')
-      .eq('id', teamId)
-      .single();
+    const { members: teamMembers, ownerId } = roster;
 
     // Allow assignment to 'accepted' OR 'pending' members
     const acceptedMemberIds = new Set(
       teamMembers
-        ?.filter(m => m.status === 'accepted' || m.status === 'pending')
+        .filter(m => m.status === 'accepted' || m.status === 'pending')
         .map(m => m.user_id)
     );
 
     // Add owner to accepted members
-    if (teamData?.created_by) {
-      acceptedMemberIds.add(teamData.created_by);
+    if (ownerId) {
+      acceptedMemberIds.add(ownerId);
     }
 
     const tasksToInsert = tasks.map(task => {
@@ -61,7 +57,7 @@ export class TasksService {
           finalAssignedToName = task.matchedUser?.full_name || task.assignee;
         } else {
           // Check why they are not assigned
-          const member = teamMembers?.find(m => m.user_id === assignedTo);
+          const member = teamMembers.find(m => m.user_id === assignedTo);
           if (member) {
             unassignedReason = `Member status is '${member.status}', not 'accepted' or 'pending'`;
           } else {
@@ -72,115 +68,63 @@ export class TasksService {
         unassignedReason = 'No assignee specified';
       }
 
-      return {
-        team_id: teamId,
-        description: task.description || task.title,
+      return buildTaskRow(task, {
         assigned_to: finalAssignedTo,
         assigned_to_name: finalAssignedToName,
-        assigned_by: assignedBy,
-        priority: task.priority || 'medium',
-        status: 'pending',
         unassigned_reason: unassignedReason
-      };
+      }, teamId, assignedBy, meetingId);
     });
 
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert(tasksToInsert)
-      .select();
-
-    if (error) {
+    try {
+      return await insertTasks(supabase, tasksToInsert);
+    } catch (error) {
       console.error('TasksService.createTasks: Supabase error:', error);
-      throw new Error(`Supabase Error: ${error.message} (${error.details || 'no details'})`);
+      throw error;
     }
-    return data;
   }
 
   /**
    * Get tasks with filters
    */
-  static async getTasks(filters: {
-    userId?: string;
-    teamId?: string;
-    status?: string;
-    deleted?: boolean
-  }) {
-    // console.log('TasksService.getTasks: Called with filters:', filters);
-    let query = supabase.from('tasks').select('*');
-
-    if (filters.userId) {
-      query = query.eq('assigned_to', filters.userId);
-    }
-    if (filters.teamId) {
-      query = query.eq('team_id', filters.teamId);
-    }
-    if (filters.status) {
-      query = query.eq('status', filters.status);
-    }
-
-    const { data: tasks, error } = await query.order('created_at', { ascending: false });
-
-    if (error) {
+  static async getTasks(filters: TaskFilters) {
+    try {
+      return await getTaskRows(supabase, filters);
+    } catch (error) {
       console.error('TasksService.getTasks: Error fetching tasks:', error);
       throw error;
     }
-
-    // Fetch assigner names
-    if (tasks && tasks.length > 0) {
-      const assignerIds = [...new Set(tasks.map(t => t.assigned_by).filter(id => id))];
-
-      if (assignerIds.length > 0) {
-        const { data: profiles } = await supabase
-          .from('user_profiles')
-          .select('id, full_name, username')
-          .in('id', assignerIds);
-
-        // Map profiles to tasks
-        const tasksWithNames = tasks.map(task => {
-          const profile = profiles?.find(p => p.id === task.assigned_by);
-          return {
-            ...task,
-            assignedByName: profile?.full_name || profile?.username || 'Unknown'
-          };
-        });
-
-        // console.log(`TasksService.getTasks: Found ${tasksWithNames.length} tasks with names`);
-        return tasksWithNames;
-      }
-    }
-
-    // console.log(`TasksService.getTasks: Found ${tasks?.length || 0} tasks`);
-    return tasks;
   }
 
   /**
    * Update task status
    */
   static async updateTaskStatus(taskId: string, status: string) {
-    const { data, error } = await supabase
-      .from('tasks')
-      .update({ status, updated_at: new Date().toISOString() })
-      .eq('id', taskId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
+    return TasksService.updateTask(taskId, { status });
   }
 
   /**
    * Update task details
    */
   static async updateTask(taskId: string, updates: any) {
-    const { data, error } = await supabase
-      .from('tasks')
-      .update({ ...updates, updated_at: new Date().toISOString() })
-      .eq('id', taskId)
-      .select()
-      .single();
+    const data = await saveTask(supabase, taskId, updates);
+    return 'status' in updates ? TasksService.syncZohoStatus(data) : data;
+  }
 
-    if (error) throw error;
-    return data;
+  /**
+   * Mirror a status change to the linked Zoho Projects task.
+   * Zoho wins when it changed last, so the returned row carries the resolved status.
+   * A failed sync never fails the local update.
+   */
+  private static async syncZohoStatus(task: any) {
+    if (!task?.zoho_task_id) return task;
+
+    try {
+      const { status } = await ZohoService.syncTaskStatus(task.id);
+      return { ...task, status };
+    } catch (error) {
+      console.error('Failed to sync task status to Zoho Projects:', error);
+      return task;
+    }
   }
 
   /**
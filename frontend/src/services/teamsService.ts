@@ -4,98 +4,41 @@
  */
 
 import { supabase } from '../lib/supabase';
+import type { TeamExtractionSettings } from '../api/apiClient';
+import { customRuleError } from '@meetingmind/extraction';
+import { getUserTeams, getTeamStats } from '@meetingmind/data';
 
 export class TeamsService {
   /**
-   * Get user's teams (Created + Member)
+   * Get user's teams (Created + Member), with their members
    */
   static async getTeams(userId: string) {
-    // console.log('TeamsService.getTeams: Called for user:', userId);
-
-    // First, get teams where user is the creator
-    const { data: createdTeams, error: createdError } = await supabase
-      .from('teams')
-      .select('*')
-      .eq('created_by', userId);
-
-    if (createdError) {
-      console.error('TeamsService.getTeams: Error fetching created teams:', createdError);
-      throw createdError;
-    }
-    // console.log('TeamsService.getTeams: Created teams:', createdTeams);
-
-    // Get team members separately for created teams
-    let teamsWithMembers = [];
-    if (createdTeams && createdTeams.length > 0) {
-      for (const team of createdTeams) {
-        const { data: members, error: membersError } = await supabase
-          .from('team_members')
-          .select('*')
-          .eq('team_id', team.id);
-
-        if (membersError) console.error('Error fetching team members:', membersError);
-
-        teamsWithMembers.push({
-          ...team,
-          team_members: members || [],
-          member_count: members ? members.length : 0
-        });
-      }
+    // Created teams first, then teams where the user is an accepted member (shared with the API)
+    let teams;
+    try {
+      teams = await getUserTeams(supabase, userId, '*');
+    } catch (error) {
+      console.error('TeamsService.getTeams: Error fetching teams:', error);
+      throw error;
     }
+    if (teams.length === 0) return [];
 
-    // Then, get teams where user is a member (ONLY ACCEPTED)
-    // console.log('TeamsService.getTeams: Fetching membership for user:', userId);
-    const { data: membershipData, error: memberError } = await supabase
+    // Get the members of all of them at once
+    const { data: members, error: membersError } = await supabase
       .from('team_members')
-      .select('team_id, status')
-      .eq('user_id', userId)
-      .eq('status', 'accepted');
-
-    if (memberError) {
-      console.error('TeamsService.getTeams: Error fetching membership:', memberError);
-      throw memberError;
-    }
-    // console.log('TeamsService.getTeams: Membership data:', membershipData);
-
-    // Get the actual team data for teams where user is a member
-    if (membershipData && membershipData.length > 0) {
-      const teamIds = membershipData.map(m => m.team_id);
-      // console.log('TeamsService.getTeams: Fetching details for team IDs:', teamIds);
-
-      const { data: memberTeams, error: memberTeamsError } = await supabase
-        .from('teams')
-        .select('*')
-        .in('id', teamIds);
+      .select('*')
+      .in('team_id', teams.map(team => team.id));
 
-      if (memberTeamsError) {
-        console.error('TeamsService.getTeams: Error fetching member teams:', memberTeamsError);
-        throw memberTeamsError;
-      }
-      // console.log('TeamsService.getTeams: Member teams details:', memberTeams);
-
-      // Add member teams that aren't already in created teams
-      if (memberTeams) {
-        for (const team of memberTeams) {
-          if (!teamsWithMembers.find(existingTeam => existingTeam.id === team.id)) {
-            const { data: members, error: membersError } = await supabase
-              .from('team_members')
-              .select('*')
-              .eq('team_id', team.id);
-
-            if (membersError) console.error('Error fetching team members:', membersError);
-
-            teamsWithMembers.push({
-              ...team,
-              team_members: members || [],
-              member_count: members ? members.length : 0
-            });
-          }
-        }
-      }
-    }
+    if (membersError) console.error('Error fetching team members:', membersError);
 
-    // console.log('TeamsService.getTeams: Final teams list:', teamsWithMembers);
-    return teamsWithMembers;
+    return teams.map(team => {
+      const teamMembers = (members || []).filter(m => m.team_id === team.id);
+      return {
+        ...team,
+        team_members: teamMembers,
+        member_count: teamMembers.length
+      };
+    });
   }
 
   /**
@@ -271,34 +214,45 @@ export class TeamsService {
   }
 
   /**
-   * Get team statistics
+   * Get team statistics (shared with the API)
    */
   static async getTeamStats(teamId: string) {
-    // Get tasks for this team
-    const { data: tasks, error: tasksError } = await supabase
-      .from('tasks')
-      .select('status')
-      .eq('team_id', teamId);
+    return getTeamStats(supabase, teamId);
+  }
 
-    if (tasksError) throw tasksError;
+  /**
+   * Get the team's extraction provider settings
+   */
+  static async getExtractionSettings(teamId: string): Promise<TeamExtractionSettings> {
+    const { data, error } = await supabase
+      .from('teams')
+      .select('extraction_settings')
+      .eq('id', teamId)
+      .single();
 
-    // Get team members count
-    const { data: members, error: membersError } = await supabase
-      .from('team_members')
-      .select('id')
-      .eq('team_id', teamId);
+    if (error) throw error;
+    return data?.extraction_settings || {};
+  }
 
-    if (membersError) throw membersError;
+  /**
+   * Update the team's extraction provider settings
+   */
+  static async updateExtractionSettings(teamId: string, settings: TeamExtractionSettings): Promise<TeamExtractionSettings> {
+    // Extraction would skip these rules anyway; refuse them here so the owner knows why
+    for (const rule of settings.rules?.customRules || []) {
+      const problem = customRuleError(rule);
+      if (problem) throw new Error(`Custom rule "${rule.id}": ${problem}`);
+    }
 
-    const stats = {
-      total: tasks?.length || 0,
-      pending: tasks?.filter(t => t.status === 'pending').length || 0,
-      inProgress: tasks?.filter(t => t.status === 'in-progress').length || 0,
-      completed: tasks?.filter(t => t.status === 'completed').length || 0,
-      memberCount: members?.length || 0,
-    };
+    const { data, error } = await supabase
+      .from('teams')
+      .update({ extraction_settings: settings })
+      .eq('id', teamId)
+      .select('extraction_settings')
+      .single();
 
-    return stats;
+    if (error) throw error;
+    return data.extraction_settings;
   }
 }
 
@@ -0,0 +1,57 @@
+/**
+ * Client for the /api/transcribe function
+ * Recordings are uploaded as the raw request body and transcribed by the server's local backend (whisper.cpp)
+ */
+
+import { supabase } from '../lib/supabase';
+import type { TranscriptionResult } from '../api/apiClient';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+export interface TranscribeOptions {
+  // ISO language code; the backend detects it when omitted
+  language?: string;
+  // How many people speak, for backends that only detect speaker turns
+  speakers?: number;
+  signal?: AbortSignal;
+}
+
+export class TranscriptionService {
+  /**
+   * Upload a recording and wait for its transcript
+   */
+  static async transcribe(file: File, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    if (!/^(audio|video)\//.test(file.type)) {
+      throw new Error('Please choose an audio or video file.');
+    }
+
+    const { data } = await supabase.auth.getSession();
+    const accessToken = data.session?.access_token;
+    if (!accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    const query = new URLSearchParams();
+    if (options.language) query.set('language', options.language);
+    if (options.speakers) query.set('speakers', String(options.speakers));
+
+    const response = await fetch(`${API_URL}/transcribe${query.toString() ? `?${query}` : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': file.type,
+        'X-File-Name': encodeURIComponent(file.name),
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: file,
+      signal: options.signal,
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(payload?.error || `Transcription failed with status ${response.status}`);
+    }
+    return payload as TranscriptionResult;
+  }
+}
+
+export default TranscriptionService;
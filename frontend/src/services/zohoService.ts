@@ -0,0 +1,118 @@
+/**
+ * Client for the /api/zoho/* functions
+ * Zoho tokens never reach the browser; every call goes through the API with the user's Supabase JWT
+ */
+
+import { supabase } from '../lib/supabase';
+import type { CreateTasksResponse } from '../api/apiClient';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+export interface ZohoConnection {
+  connected: boolean;
+  portalId?: string | null;
+  portalName?: string | null;
+  projectId?: string | null;
+  projectName?: string | null;
+  connectedAt?: string;
+}
+
+export interface ZohoOption {
+  id: string;
+  name: string;
+}
+
+export class ZohoService {
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const { data } = await supabase.auth.getSession();
+    const accessToken = data.session?.access_token;
+    if (!accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${API_URL}/zoho/${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        ...init.headers,
+      },
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(payload?.error || `Zoho request failed with status ${response.status}`);
+    }
+    return payload as T;
+  }
+
+  /**
+   * Connection status and selected project for a team
+   */
+  static async getConnection(teamId: string) {
+    return ZohoService.request<ZohoConnection>(`settings?teamId=${encodeURIComponent(teamId)}`);
+  }
+
+  /**
+   * Start the OAuth flow; resolves to the Zoho consent URL to navigate to
+   */
+  static async getAuthorizeUrl(teamId: string) {
+    const { url } = await ZohoService.request<{ url: string }>('connect', {
+      method: 'POST',
+      body: JSON.stringify({ teamId }),
+    });
+    return url;
+  }
+
+  static async disconnect(teamId: string) {
+    return ZohoService.request<ZohoConnection>(`settings?teamId=${encodeURIComponent(teamId)}`, { method: 'DELETE' });
+  }
+
+  static async listPortals(teamId: string) {
+    const { portals } = await ZohoService.request<{ portals: ZohoOption[] }>(`projects?teamId=${encodeURIComponent(teamId)}`);
+    return portals;
+  }
+
+  static async listProjects(teamId: string, portalId: string) {
+    const { projects } = await ZohoService.request<{ projects: ZohoOption[] }>(
+      `projects?teamId=${encodeURIComponent(teamId)}&portalId=${encodeURIComponent(portalId)}`
+    );
+    return projects;
+  }
+
+  static async selectProject(teamId: string, portal: ZohoOption, project: ZohoOption) {
+    return ZohoService.request<ZohoConnection>('settings', {
+      method: 'PUT',
+      body: JSON.stringify({
+        teamId,
+        portalId: portal.id,
+        portalName: portal.name,
+        projectId: project.id,
+        projectName: project.name,
+      }),
+    });
+  }
+
+  /**
+   * Create already-saved MeetingMind tasks in Zoho Projects
+   */
+  static async pushTasks(teamId: string, taskIds: string[], projectId?: string) {
+    return ZohoService.request<Pick<CreateTasksResponse, 'created' | 'errors' | 'warnings'>>('tasks', {
+      method: 'POST',
+      body: JSON.stringify({ teamId, taskIds, projectId }),
+    });
+  }
+
+  /**
+   * Push a task's status to its linked Zoho task. If Zoho changed more recently,
+   * Zoho's status wins and is returned instead.
+   */
+  static async syncTaskStatus(taskId: string) {
+    return ZohoService.request<{ status: string; winner: 'meetingmind' | 'zoho' | null }>('sync', {
+      method: 'POST',
+      body: JSON.stringify({ taskId }),
+    });
+  }
+}
+
+export default ZohoService;
@@ -0,0 +1,3 @@
+// Local calendar date; toISOString() would give tomorrow's date late in the evening east of UTC
+export const toLocalDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
@@ -0,0 +1,79 @@
+/**
+ * Locate extracted quotes (sourceText / evidence) inside the original transcript.
+ * Models rarely quote verbatim, so matching ignores case, whitespace runs and wrapping quotes.
+ */
+
+export interface TranscriptSpan {
+  start: number;
+  end: number;
+}
+
+// Lowercased, whitespace-collapsed copy of the text plus the original index of every kept character
+function normalizeWithMap(text: string) {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (!lastWasSpace) {
+        normalized += ' ';
+        map.push(i);
+      }
+      lastWasSpace = true;
+    } else {
+      normalized += char.toLowerCase();
+      map.push(i);
+      lastWasSpace = false;
+    }
+  }
+
+  return { normalized, map };
+}
+
+const cleanQuote = (quote: string) =>
+  quote.trim().replace(/^["'“”‘’]+|["'“”‘’.…]+$/g, '').replace(/\s+/g, ' ').toLowerCase().trim();
+
+/**
+ * Find a quote in the transcript. Falls back to the quote's opening words when the
+ * model paraphrased the end of it. Returns null when nothing plausible matches.
+ */
+export function findSourceSpan(transcript: string, quote?: string): TranscriptSpan | null {
+  if (!quote) return null;
+  const needle = cleanQuote(quote);
+  if (needle.length < 4) return null;
+
+  const { normalized, map } = normalizeWithMap(transcript);
+  const candidates = [needle, needle.slice(0, 40)].filter(c => c.length >= 12 || c === needle);
+
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1) {
+      return { start: map[index], end: map[index + candidate.length - 1] + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Spans for every quote, sorted and with overlaps merged so they can be rendered in one pass
+ */
+export function findSourceSpans(transcript: string, quotes: (string | undefined)[]): TranscriptSpan[] {
+  const spans = quotes
+    .map(quote => findSourceSpan(transcript, quote))
+    .filter((span): span is TranscriptSpan => span !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TranscriptSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
@@ -5,7 +5,14 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The shared extraction and data packages are linked CommonJS modules, so they have to be pre-bundled
+  optimizeDeps: {
+    include: ['@meetingmind/extraction', '@meetingmind/data'],
+  },
   build: {
+    commonjsOptions: {
+      include: [/packages\/(extraction|data)/, /node_modules/],
+    },
     outDir: 'dist',
     emptyOutDir: true,
     rollupOptions: {
@@ -13,8 +20,6 @@ export default defineConfig({
         manualChunks: {
           // Vendor chunk for React and related libraries
           vendor: ['react', 'react-dom', 'react-router-dom'],
-          // AI libraries chunk
-          ai: ['@google/generative-ai', 'openai'],
           // Supabase chunk
           supabase: ['@supabase/supabase-js'],
         },
@@ -0,0 +1,2 @@
+// The web app's own tests, and the shared extraction and data packages it builds on
+export default ['.', '../packages/extraction', '../packages/data'];
@@ -0,0 +1,58 @@
+/** The browser's session client or the API's admin client; typed loosely so the package needs no Supabase types */
+export interface SupabaseClientLike {
+  from(relation: string): any;
+}
+
+export interface TeamRoster {
+  members: { user_id: string; status: string; name: string }[];
+  ownerId: string | null;
+}
+
+/** Who a task goes to, or why it is unassigned; decided by the caller */
+export interface TaskAssignment {
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  unassigned_reason: string | null;
+}
+
+export interface NewTask {
+  title?: string;
+  description?: string;
+  priority?: string;
+  dueDate?: string;
+  confidence?: string;
+  inferred?: boolean;
+  optional?: boolean;
+  sourceText?: string;
+}
+
+export interface TaskFilters {
+  userId?: string;
+  teamId?: string;
+  status?: string | string[];
+}
+
+export interface TeamStats {
+  total: number;
+  pending: number;
+  inProgress: number;
+  completed: number;
+  memberCount: number;
+}
+
+export function getTeamRoster(supabase: SupabaseClientLike, teamId: string): Promise<TeamRoster>;
+export function buildTaskRow(
+  task: NewTask,
+  assignment: TaskAssignment,
+  teamId: string,
+  assignedBy: string,
+  meetingId?: string | null
+): Record<string, any>;
+/** All rows or none; throws "Supabase Error: ..." */
+export function insertTasks(supabase: SupabaseClientLike, rows: Record<string, any>[]): Promise<any[]>;
+/** Newest first, with `assignedByName` */
+export function getTasks(supabase: SupabaseClientLike, filters: TaskFilters): Promise<any[]>;
+export function saveTask(supabase: SupabaseClientLike, taskId: string, updates: Record<string, any>): Promise<any>;
+/** Owned teams, then accepted memberships; `columns` must include id */
+export function getUserTeams(supabase: SupabaseClientLike, userId: string, columns?: string): Promise<any[]>;
+export function getTeamStats(supabase: SupabaseClientLike, teamId: string): Promise<TeamStats>;
@@ -0,0 +1,19 @@
+/**
+ * @meetingmind/data
+ *
+ * Supabase task and team queries shared by the web app, the Vercel API and the Cliq server,
+ * so the board, the API and the chat commands read and write tasks the same way.
+ */
+
+const { getTeamRoster, buildTaskRow, insertTasks, getTasks, saveTask } = require('./src/tasks');
+const { getUserTeams, getTeamStats } = require('./src/teams');
+
+module.exports = {
+    getTeamRoster,
+    buildTaskRow,
+    insertTasks,
+    getTasks,
+    saveTask,
+    getUserTeams,
+    getTeamStats,
+};
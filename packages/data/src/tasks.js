@@ -0,0 +1,110 @@
+/**
+ * Task queries and rows shared by the web app's TasksService and the API's task service
+ *
+ * Every function takes the Supabase client to run on: the browser's session client keeps
+ * RLS, the API passes its admin client (or a user-scoped one). Who a task goes to stays with
+ * the callers: the web app assigns the member picked in review, the API resolves names since
+ * no one picks in chat. Zoho Projects sync stays with them too, since each reaches Zoho differently.
+ */
+
+/**
+ * A team's members (any status) and its owner, who can be assigned tasks without being a member
+ * @returns {Promise<{ members: { user_id: string, status: string, name: string }[], ownerId: string | null }>}
+ */
+async function getTeamRoster(supabase, teamId) {
+    const [{ data: members, error }, { data: team }] = await Promise.all([
+        supabase.from('team_members').select('user_id, status, name').eq('team_id', teamId),
+        supabase.from('teams').select('created_by').eq('id', teamId).single(),
+    ]);
+    if (error) throw error;
+
+    return { members: members || [], ownerId: (team && team.created_by) || null };
+}
+
+/**
+ * The row to insert into `tasks` for an extracted task
+ * @param {{ assigned_to: string | null, assigned_to_name: string | null, unassigned_reason: string | null }} assignment
+ */
+function buildTaskRow(task, assignment, teamId, assignedBy, meetingId) {
+    return {
+        team_id: teamId,
+        meeting_id: meetingId || null,
+        title: task.title || null,
+        description: task.description || task.title,
+        assigned_to: assignment.assigned_to,
+        assigned_to_name: assignment.assigned_to_name,
+        assigned_by: assignedBy,
+        priority: task.priority || 'medium',
+        status: 'pending',
+        unassigned_reason: assignment.unassigned_reason,
+        // Extraction metadata
+        due_date: task.dueDate || null,
+        confidence: task.confidence || null,
+        inferred: Boolean(task.inferred),
+        optional: Boolean(task.optional),
+        source_text: task.sourceText || null,
+    };
+}
+
+/**
+ * Insert task rows in one batch, so either all of them or none are created
+ */
+async function insertTasks(supabase, rows) {
+    const { data, error } = await supabase.from('tasks').insert(rows).select();
+    if (error) {
+        throw new Error(`Supabase Error: ${error.message} (${error.details || 'no details'})`);
+    }
+    return data;
+}
+
+/**
+ * Tasks with filters, newest first, with `assignedByName`
+ * @param {{ userId?: string, teamId?: string, status?: string | string[] }} filters
+ */
+async function getTasks(supabase, filters) {
+    let query = supabase.from('tasks').select('*');
+
+    if (filters.userId) {
+        query = query.eq('assigned_to', filters.userId);
+    }
+    if (filters.teamId) {
+        query = query.eq('team_id', filters.teamId);
+    }
+    if (Array.isArray(filters.status)) {
+        query = query.in('status', filters.status);
+    } else if (filters.status) {
+        query = query.eq('status', filters.status);
+    }
+
+    const { data: tasks, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+
+    const assignerIds = [...new Set((tasks || []).map(t => t.assigned_by).filter(Boolean))];
+    if (assignerIds.length === 0) return tasks || [];
+
+    const { data: profiles } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, username')
+        .in('id', assignerIds);
+
+    return tasks.map(task => {
+        const profile = (profiles || []).find(p => p.id === task.assigned_by);
+        return { ...task, assignedByName: (profile && (profile.full_name || profile.username)) || 'Unknown' };
+    });
+}
+
+/**
+ * Save changes to a task and return the updated row
+ */
+async function saveTask(supabase, taskId, updates) {
+    const { data, error } = await supabase
+        .from('tasks')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', taskId)
+        .select()
+        .single();
+    if (error) throw error;
+    return data;
+}
+
+module.exports = { getTeamRoster, buildTaskRow, insertTasks, getTasks, saveTask };
@@ -0,0 +1,53 @@
+/**
+ * Team queries shared by the web app's TeamsService and the API's team service.
+ * Like ./tasks, every function takes the Supabase client to run on.
+ */
+
+/**
+ * Teams a user owns, then the ones they have accepted membership of
+ * @param {string} [columns] - the team columns to select; must include id
+ */
+async function getUserTeams(supabase, userId, columns = 'id, name, created_by') {
+    const [{ data: owned, error: ownedError }, { data: memberships, error: memberError }] = await Promise.all([
+        supabase.from('teams').select(columns).eq('created_by', userId),
+        supabase.from('team_members').select('team_id').eq('user_id', userId).eq('status', 'accepted'),
+    ]);
+    if (ownedError) throw ownedError;
+    if (memberError) throw memberError;
+
+    const ownedIds = new Set((owned || []).map(t => t.id));
+    const joinedIds = [...new Set((memberships || []).map(m => m.team_id))].filter(id => !ownedIds.has(id));
+
+    let joined = [];
+    if (joinedIds.length > 0) {
+        const { data, error } = await supabase.from('teams').select(columns).in('id', joinedIds);
+        if (error) throw error;
+        joined = data || [];
+    }
+
+    return [...(owned || []), ...joined];
+}
+
+/**
+ * Task counts by status plus member count
+ * @returns {Promise<{ total: number, pending: number, inProgress: number, completed: number, memberCount: number }>}
+ */
+async function getTeamStats(supabase, teamId) {
+    const [{ data: tasks, error: tasksError }, { data: members, error: membersError }] = await Promise.all([
+        supabase.from('tasks').select('status').eq('team_id', teamId),
+        supabase.from('team_members').select('id').eq('team_id', teamId),
+    ]);
+    if (tasksError) throw tasksError;
+    if (membersError) throw membersError;
+
+    const count = (status) => (tasks || []).filter(t => t.status === status).length;
+    return {
+        total: (tasks || []).length,
+        pending: count('pending'),
+        inProgress: count('in-progress'),
+        completed: count('completed'),
+        memberCount: (members || []).length,
+    };
+}
+
+module.exports = { getUserTeams, getTeamStats };
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+
+const { buildTaskRow, insertTasks } = require('..');
+
+const UNASSIGNED = { assigned_to: null, assigned_to_name: null, unassigned_reason: 'No assignee specified' };
+
+describe('buildTaskRow', () => {
+    it('fills the row from the extracted task', () => {
+        const task = { title: 'Ship it', dueDate: '2026-10-23', optional: true, sourceText: 'ship it by Friday' };
+        expect(buildTaskRow(task, UNASSIGNED, 'team-1', 'official-1', 'meeting-1')).toEqual({
+            team_id: 'team-1',
+            meeting_id: 'meeting-1',
+            title: 'Ship it',
+            description: 'Ship it',
+            assigned_to: null,
+            assigned_to_name: null,
+            assigned_by: 'official-1',
+            priority: 'medium',
+            status: 'pending',
+            unassigned_reason: 'No assignee specified',
+            due_date: '2026-10-23',
+            confidence: null,
+            inferred: false,
+            optional: true,
+            source_text: 'ship it by Friday',
+        });
+    });
+
+    it('keeps the assignment the caller decided on', () => {
+        const assignment = { assigned_to: 'user-1', assigned_to_name: 'Sarah Johnson', unassigned_reason: null };
+        expect(buildTaskRow({ title: 'A', assignee: 'SJ' }, assignment, 'team-1', 'official-1')).toMatchObject({
+            ...assignment,
+            meeting_id: null,
+        });
+    });
+});
+
+describe('insertTasks', () => {
+    it('reports a failed insert with its details', async () => {
+        const supabase = {
+            from: () => ({ insert: () => ({ select: async () => ({ error: { message: 'denied', details: 'RLS' } }) }) }),
+        };
+        await expect(insertTasks(supabase, [])).rejects.toThrow('Supabase Error: denied (RLS)');
+    });
+});
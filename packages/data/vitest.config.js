@@ -0,0 +1,10 @@
+/**
+ * Unit tests for the shared data package. They run with the frontend's vitest,
+ * as part of `npm test` from the repo root or the frontend.
+ */
+module.exports = {
+    test: {
+        include: ['test/**/*.test.js'],
+        environment: 'node',
+    },
+};
@@ -0,0 +1,220 @@
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+export interface HeuristicTask {
+  title: string;
+  description: string;
+  assignee?: string;
+  priority?: TaskPriority;
+  dueDate?: string; // YYYY-MM-DD
+  timestamp?: string; // "mm:ss" of the speaker turn the task came from
+}
+
+export interface HeuristicExtractResponse {
+  tasks: HeuristicTask[];
+  metadata: {
+    processedAt: string;
+    provider: 'heuristic';
+    model: string;
+    transcriptLength: number;
+  };
+}
+
+export type RuleScope = 'speaker' | 'line' | 'bullet';
+
+export interface ExtractionRule {
+  id: string;
+  description: string;
+  scope: RuleScope;
+  pattern: RegExp;
+  build(match: RegExpMatchArray): { title: string; assignee?: string; dueText?: string };
+}
+
+/** A team-defined rule, stored as JSON in the team's extraction settings */
+export interface CustomRuleConfig {
+  id: string;
+  description?: string;
+  scope?: RuleScope;
+  pattern: string;
+  flags?: string;
+  titleGroup?: number;
+  assigneeGroup?: number;
+}
+
+/** Per-team rule configuration */
+export interface RuleConfig {
+  disabledRules?: string[];
+  fillerPhrases?: string[];
+  customRules?: CustomRuleConfig[];
+}
+
+/** Team calendar the due-date phrases resolve against */
+export interface DateSettings {
+  /** IANA zone, e.g. "Asia/Kolkata"; defaults to the runtime's zone (UTC on a server) */
+  timeZone?: string;
+  /** YYYY-MM-DD days off */
+  holidays?: string[];
+  /** Days of the week off, 0 = Sunday; defaults to [0, 6] */
+  weekend?: number[];
+  /** Any sprint's first day (YYYY-MM-DD) and the sprint length, for "end of sprint" */
+  sprint?: { start: string; weeks: number };
+}
+
+export interface DateContext extends DateSettings {
+  /** YYYY-MM-DD, or an instant read in timeZone; defaults to now */
+  meetingDate?: string | Date;
+}
+
+export interface HeuristicExtractOptions {
+  rules?: RuleConfig | null;
+  dates?: DateContext;
+}
+
+export const HEURISTIC_MODEL: string;
+export const DEFAULT_RULES: ExtractionRule[];
+export const DEFAULT_FILLER_PATTERNS: RegExp[];
+
+export function mockExtractTasks(notes: string | Transcript, options?: HeuristicExtractOptions): HeuristicExtractResponse;
+export function resolveRuleSet(config?: RuleConfig | null): { rules: ExtractionRule[]; fillerPatterns: RegExp[] };
+/**
+ * Why a custom rule cannot be used (invalid, too long, or a repeated group that can hang, like (a+)+ or (a|aa)+), or null.
+ * resolveRuleSet skips such rules; check them when saving settings.
+ */
+export function customRuleError(rule: Pick<CustomRuleConfig, 'pattern' | 'flags'>): string | null;
+export function extractDueDate(text: string, context?: DateContext): string | undefined;
+/**
+ * The first date phrase in the text and the day it resolves to. `deadline` is false when the
+ * phrase may just mention a day ("the March 5 release", "on Monday")
+ */
+export function resolveDueDate(text: string, context?: DateContext): { date: string; phrase: string; deadline: boolean } | undefined;
+/** Re-check a model's dueDate: a deadline the resolver understands wins, past dates are dropped, days off move earlier */
+export function reconcileDueDate<T extends { dueDate?: string; sourceText?: string; title?: string }>(task: T, context?: DateContext): T;
+/** The calendar date (YYYY-MM-DD) of an instant in a time zone */
+export function todayIn(timeZone?: string, now?: Date): string;
+export function isValidTimeZone(timeZone: unknown): timeZone is string;
+
+/** Minimal task shape the chunk merge works on */
+export interface MergeableTask {
+  title: string;
+  description?: string;
+  assignee?: string;
+  priority?: TaskPriority;
+  dueDate?: string;
+  inferred?: boolean;
+  sourceText?: string;
+  timestamp?: string;
+  evidence?: string[];
+}
+
+export const DEFAULT_MAX_CHARS: number;
+
+export function splitTranscript(notes: string, options?: { maxChars?: number }): string[];
+export function mergeExtractedTasks<T extends MergeableTask>(taskLists: T[][]): T[];
+export function addTask<T extends MergeableTask>(merged: T[], task: T): { index: number; added: boolean };
+export function areSimilarTasks(a: MergeableTask, b: MergeableTask, threshold?: number): boolean;
+
+/** Names from an "Attendees:" line plus every speaker in a timestamped transcript */
+export function detectAttendees(notes: string | Transcript): string[];
+
+/** One speaker turn of an imported or transcribed meeting */
+export interface SpeakerTurn {
+  start: number | null; // seconds from the start of the meeting
+  end?: number | null;
+  speaker: string | null; // as written in the export, e.g. "Sarah Johnson"
+  text: string;
+}
+
+/** Notes read into speaker turns once, then handed to every extractor */
+export interface Transcript {
+  /** In order; note lines without a speaker are turns with speaker null */
+  turns: SpeakerTurn[];
+  /** Each speaker once, in order of their first turn */
+  speakers: string[];
+  /** The notes the turns were read from */
+  text: string;
+}
+
+export function parseTranscript(notes: string): Transcript;
+export function createTranscript(turns: SpeakerTurn[], text?: string): Transcript;
+export function toTranscript(input: string | Transcript): Transcript;
+/** Give a task its source turn's timestamp, and a first-person commitment that turn's speaker */
+export function attributeTask<T extends { assignee?: string; sourceText?: string; timestamp?: string }>(task: T, transcript: Transcript): T;
+/** The speaker list and one "[mm:ss] Name: text" line per turn, as shown to the LLM */
+export function renderTranscript(transcript: Transcript): string;
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'teams' | 'meet' | 'text';
+
+export interface ImportedTranscript {
+  format: TranscriptFormat;
+  turns: SpeakerTurn[];
+  /** "[mm:ss] Name: text" lines, ready for extraction */
+  transcript: string;
+}
+
+export function importTranscript(text: string, options?: { fileName?: string; format?: TranscriptFormat }): ImportedTranscript;
+/** Like importTranscript, but unpacks .docx files and decodes everything else as UTF-8 */
+export function importTranscriptFile(fileName: string, data: ArrayBuffer | Uint8Array): Promise<ImportedTranscript>;
+export function detectTranscriptFormat(text: string, fileName?: string): TranscriptFormat;
+export function formatTranscript(turns: SpeakerTurn[]): string;
+export function formatTimestamp(seconds: number): string;
+export function parseTimestamp(value: string): number | null;
+/** A speaker's full display name as transcript lines show it: "Johnson, Sarah (PM)" -> "Sarah Johnson" */
+export function speakerName(name: string | null | undefined): string | null;
+/** One line of text per paragraph of a .docx file */
+export function readDocxText(data: ArrayBuffer | Uint8Array): Promise<string>;
+
+/** Anything with a name: a profile, a team member row or a server-side member */
+export interface AssigneeMember {
+  full_name?: string;
+  name?: string;
+  username?: string;
+  email?: string | null;
+  /** Nicknames and other names the member goes by, from their profile */
+  aliases?: string[] | null;
+}
+
+export type AssigneeMatchReason = 'exact' | 'alias' | 'name' | 'initials' | 'prefix' | 'fuzzy';
+
+export interface AssigneeCandidate<M extends AssigneeMember = AssigneeMember> {
+  member: M;
+  score: number; // 0 to 1
+  reason: AssigneeMatchReason;
+}
+
+export interface AssigneeResolution<M extends AssigneeMember = AssigneeMember> {
+  /** Set only when the best candidate is clearly ahead of the rest */
+  match: M | null;
+  candidates: AssigneeCandidate<M>[];
+  confidence: 'high' | 'medium' | 'low';
+  /** The top candidates score about the same, so the user should pick */
+  ambiguous: boolean;
+}
+
+export function rankAssignees<M extends AssigneeMember>(assignee: string, members: M[]): AssigneeCandidate<M>[];
+export function resolveAssignee<M extends AssigneeMember>(assignee: string, members: M[]): AssigneeResolution<M>;
+
+/** A task in review; `key` links it to the extracted task it came from */
+export type KeyedTask<T extends MergeableTask = MergeableTask> = T & { key: string };
+
+export interface ReextractionDiff<T extends MergeableTask = MergeableTask> {
+  added: KeyedTask<T>[];
+  /** Tasks the notes no longer mention; `kept` when the user had edited them, so they stay */
+  removed: { task: KeyedTask<T>; kept: boolean }[];
+  /** `fields` took the new extraction's values; `kept` are fields where the user's edit won */
+  changed: { task: KeyedTask<T>; fields: string[]; kept: string[] }[];
+}
+
+export interface ReextractionResult<T extends MergeableTask = MergeableTask> {
+  /** The reconciled list for review */
+  tasks: KeyedTask<T>[];
+  /** The new extraction with keys, to reconcile against next time */
+  extracted: KeyedTask<T>[];
+  diff: ReextractionDiff<T>;
+}
+
+export function assignTaskKeys<T extends object>(tasks: T[]): (T & { key: string })[];
+/** `previous` and `reviewed` carry the keys given out by assignTaskKeys or an earlier reconcile */
+export function reconcileReextraction<T extends MergeableTask & { key?: string }>(
+  previous: T[],
+  reviewed: T[],
+  next: T[]
+): ReextractionResult<T>;
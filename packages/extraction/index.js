@@ -0,0 +1,67 @@
+/**
+ * @meetingmind/extraction
+ *
+ * Heuristic task extraction shared by the web app, the Vercel API and the Cliq server,
+ * so every entry point returns the same tasks for the same notes.
+ */
+
+const { mockExtractTasks, HEURISTIC_MODEL } = require('./src/extractor');
+const { DEFAULT_RULES, DEFAULT_FILLER_PATTERNS, resolveRuleSet, customRuleError } = require('./src/rules');
+const { extractDueDate, resolveDueDate, reconcileDueDate, todayIn, isValidTimeZone } = require('./src/dates');
+const { splitTranscript, DEFAULT_MAX_CHARS } = require('./src/chunking');
+const { mergeExtractedTasks, addTask, areSimilarTasks } = require('./src/merge');
+const { detectAttendees } = require('./src/attendees');
+const {
+    parseTranscript,
+    createTranscript,
+    toTranscript,
+    attributeTask,
+    renderTranscript,
+    importTranscript,
+    importTranscriptFile,
+    detectTranscriptFormat,
+    formatTranscript,
+    formatTimestamp,
+    parseTimestamp,
+    speakerName,
+} = require('./src/transcripts');
+const { readDocxText } = require('./src/docx');
+const { resolveAssignee, rankAssignees } = require('./src/assignees');
+const { reconcileReextraction, assignTaskKeys } = require('./src/reextract');
+
+module.exports = {
+    mockExtractTasks,
+    HEURISTIC_MODEL,
+    DEFAULT_RULES,
+    DEFAULT_FILLER_PATTERNS,
+    resolveRuleSet,
+    customRuleError,
+    extractDueDate,
+    resolveDueDate,
+    reconcileDueDate,
+    todayIn,
+    isValidTimeZone,
+    splitTranscript,
+    DEFAULT_MAX_CHARS,
+    mergeExtractedTasks,
+    addTask,
+    areSimilarTasks,
+    detectAttendees,
+    parseTranscript,
+    createTranscript,
+    toTranscript,
+    attributeTask,
+    renderTranscript,
+    importTranscript,
+    importTranscriptFile,
+    detectTranscriptFormat,
+    formatTranscript,
+    formatTimestamp,
+    parseTimestamp,
+    speakerName,
+    readDocxText,
+    resolveAssignee,
+    rankAssignees,
+    reconcileReextraction,
+    assignTaskKeys,
+};
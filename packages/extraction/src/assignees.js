@@ -0,0 +1,158 @@
+/**
+ * Match an extracted assignee name ("Sam", "SJ", "Micheal", a nickname) to team members
+ *
+ * Every member is scored against each of their names - full name, display name, username,
+ * email and the aliases they set in their profile - and the candidates come back ranked,
+ * so callers can ask the user when two members score about the same.
+ */
+
+/**
+ * @typedef {Object} AssigneeMember
+ * @property {string} [full_name]
+ * @property {string} [name]
+ * @property {string} [username]
+ * @property {string|null} [email]
+ * @property {string[]|null} [aliases] - nicknames and other names the member goes by
+ *
+ * @typedef {'exact'|'alias'|'name'|'initials'|'prefix'|'fuzzy'} MatchReason
+ *
+ * @typedef {Object} AssigneeCandidate
+ * @property {AssigneeMember} member
+ * @property {number} score - 0 to 1
+ * @property {MatchReason} reason
+ */
+
+// Below this a member is not offered at all
+const MIN_SCORE = 0.5;
+// Top candidates closer than this need the user to pick
+const AMBIGUITY_GAP = 0.1;
+// Edit-distance matches need at least this similarity
+const MIN_SIMILARITY = 0.75;
+
+const normalize = (value) => String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9@.\s'-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tokensOf = (value) => normalize(value).split(/[\s.'-]+/).filter(Boolean);
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent transpositions,
+ * so "Micheal" is one edit from "Michael"
+ */
+function editDistance(a, b) {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+    for (let j = 1; j < cols; j++) d[0][j] = j;
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+const similarity = (a, b) => 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+function memberNames(member) {
+    const email = member.email ? String(member.email).split('@')[0] : null;
+    return {
+        names: [member.full_name, member.name, member.username, email].filter(Boolean),
+        aliases: (member.aliases || []).filter(Boolean),
+    };
+}
+
+/**
+ * Best score for one member, or null when nothing matches well enough
+ * @returns {{ score: number, reason: MatchReason } | null}
+ */
+function scoreMember(query, member) {
+    const { names, aliases } = memberNames(member);
+    const queryTokens = query.split(' ');
+    let best = null;
+    const consider = (score, reason) => {
+        if (!best || score > best.score) best = { score, reason };
+    };
+
+    for (const alias of aliases) {
+        const value = normalize(alias);
+        if (value === query) consider(0.95, 'alias');
+        else if (value.length >= 4 && similarity(query, value) >= MIN_SIMILARITY) consider(0.65 * similarity(query, value), 'fuzzy');
+    }
+
+    for (const name of names) {
+        const value = normalize(name);
+        if (!value) continue;
+        if (value === query) {
+            consider(1, 'exact');
+            continue;
+        }
+
+        const tokens = tokensOf(name);
+        // "Sarah" or "Johnson" for "Sarah Johnson"
+        if (queryTokens.length === 1 && tokens.includes(query)) consider(0.85, 'name');
+
+        // "SJ" for "Sarah Johnson"
+        const initials = tokens.map(t => t[0]).join('');
+        if (tokens.length > 1 && /^[a-z]{2,3}$/.test(query) && query === initials) consider(0.8, 'initials');
+
+        // "Sam" for "Samantha": a shortened name, and equally likely for every member it fits
+        if (query.length >= 3 && tokens.some(t => t.startsWith(query))) consider(0.6, 'prefix');
+
+        // "Jon" for "John", "Micheal" for "Michael"
+        const fuzzy = Math.max(similarity(query, value), ...tokens.map(t => (query.length >= 3 ? similarity(query, t) : 0)));
+        if (fuzzy >= MIN_SIMILARITY) consider(0.7 * fuzzy, 'fuzzy');
+    }
+
+    return best;
+}
+
+/**
+ * Rank members for an extracted assignee name, best first
+ * @param {string} assignee
+ * @param {AssigneeMember[]} members
+ * @returns {AssigneeCandidate[]}
+ */
+function rankAssignees(assignee, members) {
+    const query = normalize(String(assignee || '').replace(/^@/, ''));
+    if (!query) return [];
+
+    return members
+        .map(member => ({ member, ...scoreMember(query, member) }))
+        .filter(candidate => candidate.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .map(({ member, score, reason }) => ({ member, score: Math.round(score * 100) / 100, reason }));
+}
+
+/**
+ * Resolve an extracted assignee name to a member.
+ * `match` is only set when the best candidate is clearly ahead; otherwise `ambiguous`
+ * is true and the user should pick from `candidates`.
+ * @param {string} assignee
+ * @param {AssigneeMember[]} members
+ */
+function resolveAssignee(assignee, members) {
+    const candidates = rankAssignees(assignee, members);
+    const [top, second] = candidates;
+    if (!top) {
+        return { match: null, candidates, confidence: 'low', ambiguous: false };
+    }
+
+    const ambiguous = Boolean(second) && top.score - second.score < AMBIGUITY_GAP;
+    let confidence = 'low';
+    if (!ambiguous && top.score >= 0.8) confidence = 'high';
+    else if (!ambiguous && top.score >= 0.6) confidence = 'medium';
+
+    return { match: ambiguous ? null : top.member, candidates, confidence, ambiguous };
+}
+
+module.exports = { resolveAssignee, rankAssignees, editDistance };
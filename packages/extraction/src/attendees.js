@@ -0,0 +1,30 @@
+/**
+ * Work out who attended a meeting from its notes: an "Attendees:" line,
+ * plus everyone who speaks in a timestamped transcript.
+ */
+
+const { toTranscript } = require('./transcripts');
+
+const ATTENDEES_LINE = /^\s*(?:attendees|participants|present)\s*:\s*(.+)$/im;
+
+function detectAttendees(input) {
+    const transcript = toTranscript(input);
+    const names = [];
+    const add = (name) => {
+        const trimmed = name.trim().replace(/[.;]+$/, '');
+        if (trimmed && !names.some(n => n.toLowerCase() === trimmed.toLowerCase())) {
+            names.push(trimmed);
+        }
+    };
+
+    const listed = transcript.text.match(ATTENDEES_LINE);
+    if (listed) {
+        listed[1].split(/,|\band\b|&/i).forEach(add);
+    }
+
+    transcript.speakers.forEach(add);
+
+    return names;
+}
+
+module.exports = { detectAttendees };
@@ -0,0 +1,95 @@
+/**
+ * Split long transcripts into chunks on speaker/timestamp boundaries,
+ * so each model call stays well under the output token cap.
+ */
+
+const DEFAULT_MAX_CHARS = 12000;
+
+// "[00:22] Seenu: ...", "00:22 Seenu: ...", "[01:02:03] ..."
+const TIMESTAMP_LINE = /^\[?\d{1,2}:\d{2}(?::\d{2})?\]?\s+\S/;
+// "Seenu: ...", "Seenu (PM): ..."
+const SPEAKER_LINE = /^[A-Z][\w.'-]*(?:\s[A-Z][\w.'-]*){0,3}(?:\s*\([^)]*\))?:\s+\S/;
+
+const isTurnBoundary = (line) => TIMESTAMP_LINE.test(line) || SPEAKER_LINE.test(line);
+
+/**
+ * Group lines into turns. Text before the first boundary (title, attendees) is returned as the header.
+ * Transcripts without speaker markers fall back to blank-line separated paragraphs.
+ */
+function splitIntoTurns(notes) {
+    const lines = notes.split('\n');
+    const hasSpeakers = lines.some(line => isTurnBoundary(line.trim()));
+
+    if (!hasSpeakers) {
+        return { header: '', turns: notes.split(/\n\s*\n/).filter(p => p.trim()) };
+    }
+
+    const headerLines = [];
+    const turns = [];
+    for (const line of lines) {
+        if (isTurnBoundary(line.trim())) {
+            turns.push(line);
+        } else if (turns.length === 0) {
+            headerLines.push(line);
+        } else {
+            turns[turns.length - 1] += `\n${line}`;
+        }
+    }
+
+    return { header: headerLines.join('\n').trim(), turns };
+}
+
+// A single turn longer than the budget is split on lines, then hard-cut as a last resort
+function splitOversizedTurn(turn, maxChars) {
+    const pieces = [];
+    let current = '';
+    for (const line of turn.split('\n')) {
+        if (line.length > maxChars) {
+            if (current) pieces.push(current);
+            current = '';
+            for (let i = 0; i < line.length; i += maxChars) {
+                pieces.push(line.slice(i, i + maxChars));
+            }
+            continue;
+        }
+        if (current && current.length + line.length + 1 > maxChars) {
+            pieces.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+/**
+ * Split notes into chunks of at most `maxChars` characters without breaking a speaker turn.
+ * The transcript header (title, attendees) is repeated at the top of every chunk for context.
+ * Notes that already fit are returned as a single chunk, unchanged.
+ */
+function splitTranscript(notes, options = {}) {
+    const maxChars = options.maxChars || DEFAULT_MAX_CHARS;
+    if (notes.length <= maxChars) return [notes];
+
+    const { header, turns } = splitIntoTurns(notes);
+    const budget = Math.max(maxChars - header.length, Math.floor(maxChars / 2));
+    const withHeader = (body) => (header ? `${header}\n\n${body}` : body);
+
+    const chunks = [];
+    let current = '';
+    for (const turn of turns) {
+        const pieces = turn.length > budget ? splitOversizedTurn(turn, budget) : [turn];
+        for (const piece of pieces) {
+            if (current && current.length + piece.length + 1 > budget) {
+                chunks.push(withHeader(current));
+                current = '';
+            }
+            current = current ? `${current}\n${piece}` : piece;
+        }
+    }
+    if (current) chunks.push(withHeader(current));
+
+    return chunks;
+}
+
+module.exports = { splitTranscript, DEFAULT_MAX_CHARS };
@@ -0,0 +1,328 @@
+/**
+ * Due date resolution from free text
+ *
+ * Phrases like "by Friday", "next Monday", "in two weeks", "EOW" or "end of sprint" are
+ * resolved against the meeting day in the team's time zone, and deadlines are moved off
+ * weekends and holidays. Days are handled as calendar dates (UTC midnights), so nothing
+ * shifts by a day whatever the server's or the browser's time zone.
+ */
+
+/**
+ * @typedef {Object} DateContext
+ * @property {string|Date} [meetingDate] - YYYY-MM-DD, or an instant read in `timeZone`; defaults to now
+ * @property {string} [timeZone] - IANA zone, e.g. "Asia/Kolkata"; defaults to the runtime's zone, which is UTC
+ *   on a server, so callers pass the team's zone or the user's browser zone
+ * @property {string[]} [holidays] - YYYY-MM-DD days off
+ * @property {number[]} [weekend] - days of the week off, 0 = Sunday; defaults to Saturday and Sunday
+ * @property {{ start: string, weeks: number }} [sprint] - any sprint's first day and the sprint length
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKEND = [0, 6];
+
+const MONTHS = {
+    jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3,
+    apr: 4, april: 4, may: 5, jun: 6, june: 6, jul: 7,
+    july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9,
+    oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12
+};
+const MONTH_NAMES = 'january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec';
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_NAMES = WEEKDAYS.join('|');
+
+const NUMBER_WORDS = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, couple: 2, few: 3,
+};
+const COUNT = '(\\d+|a couple of|a few|an?|one|two|three|four|five|six|seven|eight|nine|ten)';
+
+const toCount = (value) => {
+    const word = value.toLowerCase().replace(/^a (couple|few) of$/, '$1').replace(/^a few$/, 'few');
+    return /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word];
+};
+
+// Words that make a date in the notes a deadline rather than a mention ("we shipped on Monday")
+const DEADLINE_CUE = /\b(?:by|until|till|before|due|deadline|no later than)\b/i;
+
+const parseDay = (iso) => new Date(`${iso}T00:00:00Z`);
+const formatDay = (date) => date.toISOString().slice(0, 10);
+const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+
+const defaultTimeZone = () => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch (error) {
+        return 'UTC';
+    }
+};
+
+/**
+ * Whether the runtime knows an IANA zone name
+ * @param {string} timeZone
+ */
+function isValidTimeZone(timeZone) {
+    if (typeof timeZone !== 'string' || !timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+function todayIn(timeZone, now = new Date()) {
+    let parts;
+    try {
+        parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timeZone || defaultTimeZone(),
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+        }).formatToParts(now);
+    } catch (error) {
+        // Unknown zone names fall back to UTC rather than failing the extraction
+        return now.toISOString().slice(0, 10);
+    }
+    const part = (type) => parts.find(p => p.type === type).value;
+    return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+function isRealDate(year, month, day) {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Working-day arithmetic for one team and meeting
+ * @param {DateContext} context
+ */
+function createCalendar(context = {}) {
+    const weekend = context.weekend || DEFAULT_WEEKEND;
+    const holidays = new Set(context.holidays || []);
+    const meetingDay = typeof context.meetingDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(context.meetingDate)
+        ? context.meetingDate
+        : todayIn(context.timeZone, context.meetingDate ? new Date(context.meetingDate) : new Date());
+    const today = parseDay(meetingDay);
+
+    const isWorkingDay = (date) => !weekend.includes(date.getUTCDay()) && !holidays.has(formatDay(date));
+
+    const rollForward = (date) => {
+        let day = date;
+        for (let i = 0; i < 366 && !isWorkingDay(day); i++) day = addDays(day, 1);
+        return day;
+    };
+
+    // Deadlines on a day off move to the working day before, unless that is already past
+    const rollBack = (date) => {
+        let day = date;
+        for (let i = 0; i < 366 && !isWorkingDay(day); i++) day = addDays(day, -1);
+        return day < today ? rollForward(date) : day;
+    };
+
+    const addWorkingDays = (date, count) => {
+        let day = date;
+        for (let added = 0; added < count;) {
+            day = addDays(day, 1);
+            if (isWorkingDay(day)) added++;
+        }
+        return day;
+    };
+
+    // Weeks run Monday to Sunday
+    const startOfWeek = (date) => addDays(date, -((date.getUTCDay() + 6) % 7));
+
+    const endOfMonth = (date, monthsAhead = 0) =>
+        new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthsAhead + 1, 0));
+
+    const endOfSprint = () => {
+        const sprint = context.sprint;
+        if (!sprint || !/^\d{4}-\d{2}-\d{2}$/.test(sprint.start || '') || !(sprint.weeks > 0)) return null;
+        const length = sprint.weeks * 7;
+        const elapsed = Math.floor((today - parseDay(sprint.start)) / DAY_MS);
+        const index = Math.floor(elapsed / length);
+        return addDays(parseDay(sprint.start), (index + 1) * length - 1);
+    };
+
+    return { today, isWorkingDay, rollForward, rollBack, addWorkingDays, startOfWeek, endOfMonth, endOfSprint };
+}
+
+/**
+ * Phrase resolvers, most specific first. Each returns a Date or null. `deadline` marks
+ * phrases that only point forward ("tomorrow", "next week"); dates and weekdays are only
+ * deadlines when the text says so ("by March 5").
+ */
+const RESOLVERS = [
+    {
+        pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+        resolve: (m) => (isRealDate(+m[1], +m[2], +m[3]) ? parseDay(m[0]) : null),
+    },
+    {
+        // "March 5", "Mar 5th", "5 March", "5th of March"
+        pattern: new RegExp(`\\b(?:(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?|(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES}))\\b`, 'i'),
+        resolve: (m, cal) => {
+            const month = MONTHS[(m[1] || m[4]).toLowerCase()];
+            const day = Number(m[2] || m[3]);
+            let year = cal.today.getUTCFullYear();
+            if (!isRealDate(year, month, day)) return null;
+            // A date already behind us means next year's
+            if (Date.UTC(year, month - 1, day) < cal.today.getTime()) year += 1;
+            return isRealDate(year, month, day) ? new Date(Date.UTC(year, month - 1, day)) : null;
+        },
+    },
+    {
+        pattern: /\b(?:eod|cob|end of (?:the )?day|close of business)\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.today,
+    },
+    {
+        pattern: /\b(?:today|tonight)\b/i,
+        resolve: (m, cal) => cal.today,
+    },
+    {
+        pattern: /\bday after tomorrow\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollForward(addDays(cal.today, 2)),
+    },
+    {
+        pattern: /\btomorrow\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollForward(addDays(cal.today, 1)),
+    },
+    {
+        pattern: new RegExp(`\\b(?:in|within)\\s+${COUNT}\\s+(?:business|working|work)\\s+days?\\b`, 'i'),
+        deadline: true,
+        resolve: (m, cal) => cal.addWorkingDays(cal.today, toCount(m[1])),
+    },
+    {
+        pattern: new RegExp(`\\b(?:in|within)\\s+${COUNT}\\s+(days?|weeks?|months?)\\b`, 'i'),
+        deadline: true,
+        resolve: (m, cal) => {
+            const count = toCount(m[1]);
+            const unit = m[2].toLowerCase();
+            if (unit.startsWith('day')) return cal.rollForward(addDays(cal.today, count));
+            if (unit.startsWith('week')) return cal.rollForward(addDays(cal.today, count * 7));
+            const target = new Date(Date.UTC(cal.today.getUTCFullYear(), cal.today.getUTCMonth() + count, 1));
+            const lastDay = cal.endOfMonth(target).getUTCDate();
+            target.setUTCDate(Math.min(cal.today.getUTCDate(), lastDay));
+            return cal.rollForward(target);
+        },
+    },
+    {
+        pattern: /\bend of (?:the )?next week\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollBack(addDays(cal.startOfWeek(cal.today), 13)),
+    },
+    {
+        pattern: /\b(?:eow|end of (?:the |this )?week|this week)\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollBack(addDays(cal.startOfWeek(cal.today), 6)),
+    },
+    {
+        pattern: /\bnext week\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollForward(addDays(cal.startOfWeek(cal.today), 7)),
+    },
+    {
+        pattern: /\bend of (?:the )?next month\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollBack(cal.endOfMonth(cal.today, 1)),
+    },
+    {
+        pattern: /\b(?:eom|end of (?:the |this )?month)\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollBack(cal.endOfMonth(cal.today)),
+    },
+    {
+        pattern: /\bnext month\b/i,
+        deadline: true,
+        resolve: (m, cal) => cal.rollForward(addDays(cal.endOfMonth(cal.today), 1)),
+    },
+    {
+        pattern: /\b(?:eos|end of (?:the |this )?sprint|sprint end)\b/i,
+        deadline: true,
+        resolve: (m, cal) => {
+            const end = cal.endOfSprint();
+            return end && cal.rollBack(end);
+        },
+    },
+    {
+        // "next Monday": that day in the week after this one
+        pattern: new RegExp(`\\bnext\\s+(${WEEKDAY_NAMES})\\b`, 'i'),
+        deadline: true,
+        resolve: (m, cal) => {
+            const offset = (WEEKDAYS.indexOf(m[1].toLowerCase()) + 6) % 7;
+            return cal.rollBack(addDays(cal.startOfWeek(cal.today), 7 + offset));
+        },
+    },
+    {
+        // "by Friday", "this Friday", "on Friday": the next one after the meeting. A weekday
+        // without one of these is too often about the past ("shipped Monday") to count.
+        pattern: new RegExp(`\\b(by|on|this|until|till|before|due)\\s+(${WEEKDAY_NAMES})\\b`, 'i'),
+        deadline: (m) => m[1].toLowerCase() !== 'on',
+        resolve: (m, cal) => {
+            const ahead = (WEEKDAYS.indexOf(m[2].toLowerCase()) - cal.today.getUTCDay() + 7) % 7 || 7;
+            return cal.rollBack(addDays(cal.today, ahead));
+        },
+    },
+];
+
+/**
+ * Resolve the first date phrase in `text`.
+ * @param {string} text
+ * @param {DateContext} [context]
+ * @returns {{ date: string, phrase: string, deadline: boolean } | undefined} `deadline` is false
+ *   when the phrase may just mention a day ("the March 5 release", "on Monday")
+ */
+function resolveDueDate(text, context = {}) {
+    if (!text) return undefined;
+    const calendar = createCalendar(context);
+
+    for (const { pattern, resolve, deadline } of RESOLVERS) {
+        const match = String(text).match(pattern);
+        if (!match) continue;
+        const date = resolve(match, calendar);
+        if (date) {
+            const forward = typeof deadline === 'function' ? deadline(match) : Boolean(deadline);
+            return { date: formatDay(date), phrase: match[0], deadline: forward || DEADLINE_CUE.test(text) };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The due date (YYYY-MM-DD) a piece of text mentions, if any
+ * @param {string} text
+ * @param {DateContext} [context]
+ */
+function extractDueDate(text, context) {
+    const resolved = resolveDueDate(text, context);
+    return resolved ? resolved.date : undefined;
+}
+
+/**
+ * Check a due date a model produced. When the task's quote or title has a deadline the
+ * resolver understands, its date wins; otherwise the model's date is kept, except that a
+ * date before the meeting is dropped and one on a day off moves to the working day before.
+ * @param {{ dueDate?: string, sourceText?: string, title?: string }} task
+ * @param {DateContext} [context]
+ */
+function reconcileDueDate(task, context = {}) {
+    const resolved = [resolveDueDate(task.sourceText, context), resolveDueDate(task.title, context)]
+        .find(candidate => candidate && candidate.deadline);
+    if (resolved) {
+        return resolved.date === task.dueDate ? task : { ...task, dueDate: resolved.date };
+    }
+    if (!task.dueDate || !/^\d{4}-\d{2}-\d{2}$/.test(task.dueDate)) return task;
+
+    const calendar = createCalendar(context);
+    const due = parseDay(task.dueDate);
+    if (due < calendar.today) return { ...task, dueDate: undefined };
+
+    const dueDate = formatDay(calendar.rollBack(due));
+    return dueDate === task.dueDate ? task : { ...task, dueDate };
+}
+
+module.exports = { extractDueDate, resolveDueDate, reconcileDueDate, todayIn, isValidTimeZone };
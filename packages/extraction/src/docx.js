@@ -0,0 +1,92 @@
+/**
+ * Read the paragraphs of a .docx file, for Teams transcripts saved as Word documents
+ *
+ * A .docx is a zip archive; only word/document.xml is needed, so this reads the zip
+ * directory itself and inflates that one entry with DecompressionStream, which both
+ * browsers and Node 18+ provide.
+ */
+
+const DOCUMENT_PATH = 'word/document.xml';
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+const XML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function findDocumentEntry(view) {
+    // The end-of-directory record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) throw new Error('This file is not a Word document.');
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < count && view.getUint32(offset, true) === DIRECTORY_ENTRY; i++) {
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+        if (name === DOCUMENT_PATH) {
+            return {
+                method: view.getUint16(offset + 10, true),
+                size: view.getUint32(offset + 20, true),
+                headerOffset: view.getUint32(offset + 42, true),
+            };
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    throw new Error('This Word document has no body.');
+}
+
+async function inflate(bytes) {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** word/document.xml -> one line of text per paragraph */
+function documentXmlToText(xml) {
+    return xml
+        .split(/<\/w:p>/)
+        .map(paragraph => paragraph
+            .replace(/<w:tab\/>/g, '\t')
+            .replace(/<w:br\/>/g, '\n')
+            .replace(/<[^>]+>/g, '')
+            .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity])
+            .trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * @param {ArrayBuffer|Uint8Array} data - the .docx file contents
+ * @returns {Promise<string>}
+ */
+async function readDocxText(data) {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const entry = findDocumentEntry(view);
+
+    if (view.getUint32(entry.headerOffset, true) !== LOCAL_HEADER) {
+        throw new Error('This Word document is damaged.');
+    }
+    const start = entry.headerOffset + 30
+        + view.getUint16(entry.headerOffset + 26, true)
+        + view.getUint16(entry.headerOffset + 28, true);
+    const compressed = bytes.subarray(start, start + entry.size);
+
+    let content;
+    if (entry.method === 0) content = compressed;
+    else if (entry.method === 8) content = await inflate(compressed);
+    else throw new Error('This Word document uses an unsupported compression method.');
+
+    return documentXmlToText(new TextDecoder().decode(content));
+}
+
+module.exports = { readDocxText, documentXmlToText };
@@ -0,0 +1,107 @@
+/**
+ * Heuristic task extraction from meeting notes and transcripts
+ */
+
+const { extractDueDate } = require('./dates');
+const { resolveRuleSet } = require('./rules');
+const { toTranscript, formatTimestamp } = require('./transcripts');
+
+const HEURISTIC_MODEL = 'mock-extractor-v1';
+
+const BULLET_LINE = /^[-*•]\s+(.+)$/;
+
+/**
+ * Extract tasks from notes without calling a model.
+ * Returns deterministic results for the same notes and rule configuration.
+ * Speaker turns assign commitments to their speaker and stamp tasks with the turn's time.
+ * Due dates resolve against `options.dates` (meeting day, time zone, days off).
+ * @param {string|import('./transcripts').Transcript} input - raw notes or a parsed Transcript
+ */
+function mockExtractTasks(input, options = {}) {
+    const transcript = toTranscript(input);
+    const notes = transcript.text;
+    const { rules, fillerPatterns } = resolveRuleSet(options.rules);
+    const dueDateOf = (...texts) => texts.reduce((found, text) => found || extractDueDate(text, options.dates), undefined);
+    const tasks = [];
+
+    const isFiller = (text) => fillerPatterns.some(p => p.test(text));
+
+    const pushTask = (title, opts = {}) => {
+        if (!title) return;
+        if (tasks.some(t => t.title.toLowerCase().includes(title.toLowerCase().substring(0, 20)))) return;
+        tasks.push({
+            title,
+            description: `Extracted from transcript`,
+            assignee: opts.assignee,
+            dueDate: opts.dueDate,
+            priority: 'medium',
+            timestamp: opts.timestamp,
+        });
+    };
+
+    const applyRules = (scope, text, defaults = {}) => {
+        let matched = false;
+        for (const rule of rules) {
+            if (rule.scope !== scope) continue;
+            const match = text.match(rule.pattern);
+            if (!match) continue;
+
+            const { title, assignee, dueText } = rule.build(match);
+            pushTask(title, {
+                assignee: assignee || defaults.assignee,
+                // The rule's own due text first, then anything else on the line ("to fix X by next Monday")
+                dueDate: dueDateOf(dueText, title, text),
+                timestamp: defaults.timestamp,
+            });
+            matched = true;
+        }
+        return matched;
+    };
+
+    for (const turn of transcript.turns) {
+        if (turn.speaker) {
+            const timestamp = typeof turn.start === 'number' ? formatTimestamp(turn.start) : undefined;
+            applyRules('speaker', turn.text, { assignee: turn.speaker, timestamp });
+            continue;
+        }
+
+        // Parse non-speaker lines (usually manager assigning tasks)
+        const line = turn.text.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
+        if (isFiller(line)) continue;
+        applyRules('line', line);
+    }
+
+    // Process bullet points and action items if present
+    const bullets = transcript.turns.filter(turn => !turn.speaker && BULLET_LINE.test(turn.text));
+    if (bullets.length > 0 && rules.some(rule => rule.scope === 'bullet')) {
+        for (const bullet of bullets) {
+            const cleanBullet = bullet.text.match(BULLET_LINE)[1].trim();
+            if (isFiller(cleanBullet)) continue;
+
+            if (!applyRules('bullet', cleanBullet) && cleanBullet.length > 10) {
+                pushTask(cleanBullet, { dueDate: dueDateOf(cleanBullet) });
+            }
+        }
+    }
+
+    // Fallback for non-transcript notes
+    if (tasks.length === 0 && notes.trim().length > 0) {
+        tasks.push({
+            title: 'Review meeting notes',
+            description: notes.substring(0, 200),
+            priority: 'low',
+        });
+    }
+
+    return {
+        tasks,
+        metadata: {
+            processedAt: new Date().toISOString(),
+            provider: 'heuristic',
+            model: HEURISTIC_MODEL,
+            transcriptLength: notes.length,
+        },
+    };
+}
+
+module.exports = { mockExtractTasks, HEURISTIC_MODEL };
@@ -0,0 +1,109 @@
+/**
+ * Merge task lists extracted from separate transcript chunks,
+ * folding semantically similar tasks together and keeping every chunk's evidence.
+ */
+
+const STOPWORDS = new Set([
+    'a', 'an', 'the', 'to', 'of', 'for', 'and', 'or', 'on', 'in', 'by', 'with', 'at',
+    'our', 'we', 'i', 'it', 'this', 'that', 'be', 'is', 'up', 'out', 'new', 'all',
+    'optional', 'please', 'task',
+]);
+
+const PRIORITY_RANK = { low: 0, medium: 1, high: 2 };
+
+// Crude stemming is enough to line up "update docs" with "updating the documentation"
+function stem(word) {
+    return word
+        .replace(/(ing|ed|es|s|e)$/, '')
+        .replace(/ation$/, '')
+        .slice(0, 6);
+}
+
+function titleTokens(title) {
+    return new Set(
+        String(title || '')
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, ' ')
+            .split(/\s+/)
+            .filter(word => word && !STOPWORDS.has(word))
+            .map(stem)
+    );
+}
+
+function jaccard(a, b) {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const token of a) {
+        if (b.has(token)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+const sameAssignee = (a, b) =>
+    !a.assignee || !b.assignee || a.assignee.toLowerCase() === b.assignee.toLowerCase();
+
+/**
+ * Two tasks describe the same work when their titles overlap heavily and
+ * they are not explicitly owned by different people.
+ */
+function areSimilarTasks(a, b, threshold = 0.6) {
+    if (!sameAssignee(a, b)) return false;
+
+    const tokensA = titleTokens(a.title);
+    const tokensB = titleTokens(b.title);
+    const smaller = tokensA.size <= tokensB.size ? tokensA : tokensB;
+    const larger = smaller === tokensA ? tokensB : tokensA;
+    const contained = smaller.size >= 2 && [...smaller].every(token => larger.has(token));
+
+    return contained || jaccard(tokensA, tokensB) >= threshold;
+}
+
+const evidenceOf = (task) => [...(task.evidence || []), task.sourceText].filter(Boolean);
+
+function mergeTask(existing, incoming) {
+    const evidence = [...new Set([...evidenceOf(existing), ...evidenceOf(incoming)])];
+
+    return {
+        ...existing,
+        assignee: existing.assignee || incoming.assignee,
+        dueDate: existing.dueDate || incoming.dueDate,
+        priority: (PRIORITY_RANK[incoming.priority] ?? 1) > (PRIORITY_RANK[existing.priority] ?? 1)
+            ? incoming.priority
+            : existing.priority,
+        // A task stated outright in any chunk is no longer just inferred
+        inferred: existing.inferred === false || incoming.inferred === false ? false : existing.inferred,
+        description: incoming.description && incoming.description.length > (existing.description || '').length
+            ? incoming.description
+            : existing.description,
+        sourceText: existing.sourceText || incoming.sourceText,
+        // The first mention is where the task came up
+        timestamp: existing.timestamp || incoming.timestamp,
+        evidence: evidence.length > 0 ? evidence : undefined,
+    };
+}
+
+/**
+ * Fold one task into a merged list. Returns the index it landed at and whether it was new.
+ */
+function addTask(merged, task) {
+    const index = merged.findIndex(existing => areSimilarTasks(existing, task));
+    if (index === -1) {
+        const evidence = evidenceOf(task);
+        merged.push({ ...task, evidence: evidence.length > 0 ? evidence : undefined });
+        return { index: merged.length - 1, added: true };
+    }
+    merged[index] = mergeTask(merged[index], task);
+    return { index, added: false };
+}
+
+function mergeExtractedTasks(taskLists) {
+    const merged = [];
+    for (const tasks of taskLists) {
+        for (const task of tasks) {
+            addTask(merged, task);
+        }
+    }
+    return merged;
+}
+
+module.exports = { mergeExtractedTasks, addTask, areSimilarTasks };
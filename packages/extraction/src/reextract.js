@@ -0,0 +1,141 @@
+/**
+ * Reconcile a re-extraction with the tasks the user already reviewed
+ *
+ * Three lists are involved: the tasks as extracted last time, the user's reviewed list
+ * (edited, removed or added by hand) and the new extraction. Every task carries a `key`;
+ * a reviewed task shares its key with the extracted original it came from, and a task the
+ * user added by hand has a key no extraction knows.
+ *
+ * Fields the user edited keep the user's value, untouched fields take the new extraction's,
+ * tasks the user removed stay removed, and tasks the notes no longer mention are dropped
+ * unless the user had edited them.
+ */
+
+const { areSimilarTasks } = require('./merge');
+
+// Fields the user can edit in review; the rest always follow the new extraction
+const EDITABLE_FIELDS = ['title', 'description', 'assignee', 'priority', 'dueDate', 'optional'];
+
+// Set together with the assignee (by the web app), so they travel with it
+const ASSIGNEE_COMPANIONS = ['matchedUser', 'assigneeCandidates'];
+
+const valueOf = (task, field) => (field === 'optional' ? Boolean(task[field]) : task[field] || null);
+
+const sameText = (a, b) => Boolean(a) && Boolean(b)
+    && a.replace(/\s+/g, ' ').trim().toLowerCase() === b.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const createKey = () => `task-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Give every task a key, keeping the ones it has
+ * @template T
+ * @param {T[]} tasks
+ * @returns {(T & { key: string })[]}
+ */
+function assignTaskKeys(tasks) {
+    return tasks.map(task => (task.key ? task : { ...task, key: createKey() }));
+}
+
+// Strongest evidence first: the same quote, then a similar title
+const MATCHERS = [
+    (old, task) => sameText(old.sourceText, task.sourceText),
+    (old, task) => areSimilarTasks({ title: old.title }, { title: task.title }),
+];
+
+/**
+ * Pair each new task with the previous extraction of the same work
+ * @returns {Map<string, Object>} previous key -> new task
+ */
+function pairTasks(previous, next) {
+    const pairs = new Map();
+    const unpaired = new Set(next);
+    for (const matches of MATCHERS) {
+        for (const old of previous) {
+            if (pairs.has(old.key)) continue;
+            const match = [...unpaired].find(task => matches(old, task));
+            if (match) {
+                pairs.set(old.key, match);
+                unpaired.delete(match);
+            }
+        }
+    }
+    return pairs;
+}
+
+function mergeTask(original, reviewed, next) {
+    const merged = { ...next, key: reviewed.key };
+    const changed = [];
+    const kept = [];
+
+    for (const field of EDITABLE_FIELDS) {
+        const edited = valueOf(reviewed, field) !== valueOf(original, field);
+        const source = edited ? reviewed : next;
+        merged[field] = source[field];
+        if (field === 'assignee') {
+            ASSIGNEE_COMPANIONS.forEach(companion => { merged[companion] = source[companion]; });
+        }
+
+        const reextracted = valueOf(next, field) !== valueOf(original, field);
+        if (edited && reextracted && valueOf(next, field) !== valueOf(reviewed, field)) kept.push(field);
+        else if (!edited && reextracted) changed.push(field);
+    }
+    return { merged, changed, kept };
+}
+
+/**
+ * @param {Object[]} previous - the last extraction, with keys
+ * @param {Object[]} reviewed - the user's current list, with keys
+ * @param {Object[]} next - the new extraction
+ * @returns {{
+ *   tasks: Object[],
+ *   extracted: Object[],
+ *   diff: {
+ *     added: Object[],
+ *     removed: { task: Object, kept: boolean }[],
+ *     changed: { task: Object, fields: string[], kept: string[] }[],
+ *   },
+ * }} `tasks` is the reconciled list for review, `extracted` the keyed new extraction to
+ *   reconcile against next time. A removed task with `kept` was edited by the user and stays.
+ */
+function reconcileReextraction(previous, reviewed, next) {
+    const originals = new Map(previous.map(task => [task.key, task]));
+    const pairs = pairTasks(previous, next);
+    const pairedKeys = new Map([...pairs].map(([key, task]) => [task, key]));
+    const extracted = next.map(task => ({ ...task, key: pairedKeys.get(task) || createKey() }));
+    const extractedByTask = new Map(next.map((task, i) => [task, extracted[i]]));
+
+    const tasks = [];
+    const diff = { added: [], removed: [], changed: [] };
+
+    for (const task of reviewed) {
+        const original = originals.get(task.key);
+        if (!original) {
+            // Added by hand
+            tasks.push(task);
+            continue;
+        }
+
+        const match = pairs.get(task.key);
+        if (!match) {
+            const edited = EDITABLE_FIELDS.some(field => valueOf(task, field) !== valueOf(original, field));
+            if (edited) tasks.push(task);
+            diff.removed.push({ task, kept: edited });
+            continue;
+        }
+
+        const { merged, changed, kept } = mergeTask(original, task, extractedByTask.get(match));
+        tasks.push(merged);
+        if (changed.length > 0 || kept.length > 0) diff.changed.push({ task: merged, fields: changed, kept });
+    }
+
+    // New work is appended; a task the user removed stays removed even if it was extracted again
+    for (const task of extracted) {
+        if (originals.has(task.key)) continue;
+        tasks.push(task);
+        diff.added.push(task);
+    }
+
+    return { tasks, extracted, diff };
+}
+
+module.exports = { reconcileReextraction, assignTaskKeys };
@@ -0,0 +1,243 @@
+/**
+ * Heuristic extraction rules
+ *
+ * Each rule matches one transcript line and turns the match into a task.
+ * - scope 'speaker': runs on the content of "[00:22] Name: ..." lines; the speaker becomes the assignee
+ * - scope 'line': runs on every other non-filler line
+ * - scope 'bullet': runs on "- ..." / "* ..." / "• ..." bullet points
+ */
+
+const DEFAULT_FILLER_PATTERNS = [
+    /^hi[,! ]?$/i, /^hello[,! ]?$/i, /^morning[,! ]?$/i, /^good morning/i,
+    /^yeah[,! ]?$/i, /^yep[,! ]?$/i, /^okay[,! ]?$/i, /^ok[,! ]?$/i,
+    /^all good/i, /^sounds good/i, /^no blockers/i, /^bye[,! ]?$/i,
+    /^great[,! ]?$/i, /^perfect[,! ]?$/i, /^no issues/i, /^on track/i,
+];
+
+const DEFAULT_RULES = [
+    {
+        id: 'speaker-commitment',
+        description: '"[00:22] Name: I can/will/\'ll do X" - the speaker commits to a task',
+        scope: 'speaker',
+        pattern: /^i\s+(?:can|will|'ll)\s+(.+)/i,
+        build: (m) => ({ title: m[1].replace(/\.$/, '') }),
+    },
+    {
+        id: 'can-you',
+        description: '"Name, (after X,) can you Y?"',
+        scope: 'line',
+        pattern: /([A-Z][a-z]+),\s+(?:after\s+[^,]+,\s+)?can\s+you\s+(.+?)\?/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+    {
+        id: 'whos-doing',
+        description: '"Who\'s doing/updating/handling X?" - needs an owner',
+        scope: 'line',
+        pattern: /who'?s\s+(doing|updating|handling)\s+(.+?)\?/i,
+        build: (m) => ({ title: `${m[1]} ${m[2]}` }),
+    },
+    {
+        id: 'we-need',
+        description: '"We need X."',
+        scope: 'line',
+        pattern: /we\s+need\s+(.+?)\./i,
+        build: (m) => ({ title: m[1] }),
+    },
+    {
+        id: 'to-by',
+        description: '"Name to do X by Date"',
+        scope: 'line',
+        pattern: /([A-Z][a-z]+)\s+to\s+(.+?)\s+by\s+(\w+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2], dueText: `by ${m[3]}` }),
+    },
+    {
+        id: 'will',
+        description: '"Name will do X"',
+        scope: 'line',
+        pattern: /([A-Z][a-z]+)\s+will\s+(.+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+    {
+        id: 'needs-to',
+        description: '"Name needs to X"',
+        scope: 'line',
+        pattern: /([A-Z][a-z]+)\s+needs?\s+to\s+(.+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+    {
+        id: 'mentioned-said',
+        description: '"Name mentioned/said he/she/they will X"',
+        scope: 'line',
+        pattern: /([A-Z][a-z]+)\s+(?:mentioned|said)\s+(?:he|she|they)\s+(?:will|'ll|needs?\s+to)\s+(.+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+    {
+        id: 'told-asked',
+        description: '"told/asked Name to do X"',
+        scope: 'line',
+        pattern: /(?:told|asked)\s+([A-Z][a-z]+)\s+to\s+(.+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+    {
+        id: 'your-task',
+        description: '"Name, this is your task - X"',
+        scope: 'line',
+        pattern: /([A-Z][a-z]+),\s+this\s+is\s+your\s+task\s*[-:]\s*(.+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+    {
+        id: 'someone-should',
+        description: '"Someone should X" - unassigned',
+        scope: 'line',
+        pattern: /someone\s+should\s+(.+)/i,
+        build: (m) => ({ title: m[1] }),
+    },
+    {
+        id: 'bullet-assignment',
+        description: 'Bullet points, with "Name to/will/needs to/should X" assignments',
+        scope: 'bullet',
+        pattern: /([A-Z][a-z]+)\s+(?:to|will|needs?\s+to|should)\s+(.+)/i,
+        build: (m) => ({ assignee: m[1], title: m[2] }),
+    },
+];
+
+// Custom patterns run on every transcript line with the backtracking RegExp engine, so they are
+// kept short and free of repeated groups that can match one string in many ways, like (a+)+ or
+// (a|aa)+, which can take minutes on a crafted line
+const MAX_PATTERN_LENGTH = 200;
+
+// A quantifier at `index`: its length and whether it repeats (*, +, {2,}, {1,5}; not ? or {1})
+function readQuantifier(pattern, index) {
+    const char = pattern[index];
+    if (char === '*' || char === '+') return { length: 1, repeats: true };
+    if (char === '?') return { length: 1, repeats: false };
+    const range = char === '{' && pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!range) return null;
+    const max = range[2] ? (range[3] === '' ? Infinity : Number(range[3])) : Number(range[1]);
+    return { length: range[0].length, repeats: max > 1 };
+}
+
+/**
+ * Why a repeated group can backtrack exponentially, or null: it contains a repeated atom, e.g.
+ * (a+)+, (\w*\s)*, (?:x{2,})+, or an alternation, e.g. (a|aa)+, whose branches may overlap
+ */
+function repeatedGroupError(pattern) {
+    const groups = [{ repeats: false, alternates: false }];
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        let closed = null;
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            // Skip the character class; it is one atom
+            for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+                if (pattern[i] === '\\') i++;
+            }
+        } else if (char === '(') {
+            groups.push({ repeats: false, alternates: false });
+            // Skip (?:, (?=, (?<name> and the like so their ? is not read as a quantifier
+            if (pattern[i + 1] === '?') {
+                const modifier = pattern.slice(i + 1).match(/^\?(?:<[A-Za-z_$][\w$]*>|<=|<!|[:=!])/);
+                i += modifier ? modifier[0].length : 1;
+            }
+            continue;
+        } else if (char === '|') {
+            groups[groups.length - 1].alternates = true;
+            continue;
+        } else if (char === ')') {
+            closed = groups.length > 1 ? groups.pop() : { repeats: false, alternates: false };
+        } else if (readQuantifier(pattern, i)) {
+            // A quantifier with nothing before it; the RegExp constructor reports it
+            continue;
+        }
+
+        const quantifier = readQuantifier(pattern, i + 1);
+        const repeats = Boolean(quantifier && quantifier.repeats);
+        if (closed && repeats && closed.repeats) {
+            return 'The pattern repeats a group that itself repeats, like (a+)+, which can hang extraction';
+        }
+        if (closed && repeats && closed.alternates) {
+            return 'The pattern repeats a group with alternatives, like (a|aa)+, which can hang extraction';
+        }
+
+        const current = groups[groups.length - 1];
+        current.repeats = current.repeats || repeats || Boolean(closed && closed.repeats);
+        current.alternates = current.alternates || Boolean(closed && closed.alternates);
+        if (quantifier) {
+            i += quantifier.length;
+            // a+? is still one quantifier
+            if (pattern[i + 1] === '?') i++;
+        }
+    }
+    return null;
+}
+
+/**
+ * Why a team-defined rule cannot be used, or null when it can. Checked when settings are saved
+ * and again whenever a rule is compiled.
+ * @param {{ pattern?: string, flags?: string }} rule
+ * @returns {string | null}
+ */
+function customRuleError(rule) {
+    const pattern = rule && rule.pattern;
+    if (typeof pattern !== 'string' || !pattern) return 'The pattern is empty';
+    if (pattern.length > MAX_PATTERN_LENGTH) return `The pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+    try {
+        new RegExp(pattern, rule.flags ?? 'i');
+    } catch (error) {
+        return error.message;
+    }
+    return repeatedGroupError(pattern);
+}
+
+/**
+ * Compile a team-defined rule ({ id, pattern, flags, titleGroup, assigneeGroup }) stored as JSON.
+ * Throws for patterns customRuleError rejects.
+ */
+function compileCustomRule(rule) {
+    const problem = customRuleError(rule);
+    if (problem) throw new Error(problem);
+
+    const titleGroup = rule.titleGroup || 1;
+    return {
+        id: rule.id,
+        description: rule.description || rule.pattern,
+        scope: rule.scope || 'line',
+        pattern: new RegExp(rule.pattern, rule.flags ?? 'i'),
+        build: (m) => ({
+            title: m[titleGroup],
+            assignee: rule.assigneeGroup ? m[rule.assigneeGroup] : undefined,
+        }),
+    };
+}
+
+function escapeRegExp(text) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Resolve a team's rule configuration into the concrete rule and filler lists.
+ * A team without settings has a null configuration, which means the defaults.
+ */
+function resolveRuleSet(config) {
+    const { disabledRules, customRules: custom, fillerPhrases } = config || {};
+    const disabled = new Set(disabledRules || []);
+    const customRules = (custom || []).flatMap(rule => {
+        try {
+            return [compileCustomRule(rule)];
+        } catch (error) {
+            console.error(`[Extraction] Skipping invalid custom rule '${rule.id}':`, error.message);
+            return [];
+        }
+    });
+
+    return {
+        rules: [...DEFAULT_RULES, ...customRules].filter(rule => !disabled.has(rule.id)),
+        fillerPatterns: [
+            ...DEFAULT_FILLER_PATTERNS,
+            ...(fillerPhrases || []).filter(Boolean).map(phrase => new RegExp(`^${escapeRegExp(phrase.trim())}`, 'i')),
+        ],
+    };
+}
+
+module.exports = { DEFAULT_RULES, DEFAULT_FILLER_PATTERNS, resolveRuleSet, customRuleError };
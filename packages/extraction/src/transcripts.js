@@ -0,0 +1,394 @@
+/**
+ * The speaker-turn model every extractor works on, and imports for the transcripts
+ * Zoom, Teams and Google Meet export
+ *
+ * Notes are parsed into a Transcript once (parseTranscript) and handed to the heuristic
+ * extractor and the LLM prompt alike. Imported exports are parsed into the same turns,
+ * which formatTranscript writes out as "[mm:ss] Name: text" lines.
+ */
+
+const { readDocxText } = require('./docx');
+
+/**
+ * @typedef {Object} SpeakerTurn
+ * @property {number|null} start - seconds from the start of the meeting, null when the export has no timing
+ * @property {number|null} [end]
+ * @property {string|null} speaker - as written in the export, e.g. "Sarah Johnson"
+ * @property {string} text
+ */
+
+/**
+ * @typedef {Object} Transcript
+ * @property {SpeakerTurn[]} turns - in order; note lines without a speaker are turns with speaker null
+ * @property {string[]} speakers - each speaker once, in order of their first turn
+ * @property {string} text - the notes the turns were read from
+ */
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{1,2}(?:[.,]\d+)?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{1,2}(?:[.,]\d+)?)/;
+const TIME_ONLY = /^\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?$/;
+// "Sarah Johnson: text" - up to four words before the colon, so ordinary sentences with a colon are left alone
+const NAMED_LINE = /^([\p{L}][\p{L}'’.-]*(?:,?\s+[\p{L}][\p{L}'’.-]*){0,3})\s*:\s+(.+)$/u;
+// Teams .docx headers: "Sarah Johnson   0:03" or "Sarah Johnson 1:02:45"
+const TEAMS_HEADER = /^(\S.*?)\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+const VOICE_TAG = /<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+// Lowercase words that may sit between the capitalized words of a name: "Ana de la Cruz"
+const NAME_PARTICLES = ['van', 'von', 'de', 'der', 'den', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'bin', 'al'];
+// "[00:22] Seenu: ...", "00:22 Sarah Johnson (PM): ..." - a timestamp, a name of up to four capitalized
+// words (plus particles), a colon
+const TURN_LINE = new RegExp(
+    '^\\[?(\\d{1,2}:\\d{2}(?::\\d{2})?)\\]?\\s+'
+    + `([\\p{L}\\d_][\\p{L}\\p{M}\\d_.'’-]*(?:\\s+(?:(?:${NAME_PARTICLES.join('|')})\\s+){0,2}\\p{Lu}[\\p{L}\\p{M}\\d_.'’-]*){0,3})`
+    + '(?:\\s*\\([^)]*\\))?:\\s*(.+)$',
+    'u'
+);
+// "I will ...", "I can ...", "I'll ..." - the speaker takes the task on
+const COMMITMENT = /\bI\s+(?:can|will)\b|\bI['’]ll\b/i;
+// Assignees a model copies from a first-person commitment instead of naming the speaker
+const FIRST_PERSON = /^(?:i|me|myself|speaker)$/i;
+
+const pad = (n) => String(n).padStart(2, '0');
+
+/** "01:02:03.500", "1:02:03,5", "02:03" or "0:0:5.120" -> seconds */
+function parseTimestamp(value) {
+    const parts = String(value).trim().replace(',', '.').split(':').map(Number);
+    if (parts.some(Number.isNaN)) return null;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatTimestamp(seconds) {
+    const total = Math.max(0, Math.floor(seconds || 0));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = `${pad(minutes)}:${pad(total % 60)}`;
+    return hours > 0 ? `${pad(hours)}:${rest}` : rest;
+}
+
+/**
+ * A speaker's display name as the "[mm:ss] Name:" lines show it: "Johnson, Sarah (PM)" ->
+ * "Sarah Johnson". Words start with a capital (particles like "de" excepted) and there are at
+ * most four, so the line parses back to the same speaker. Returns null when nothing usable is left.
+ */
+function speakerName(name) {
+    if (!name) return null;
+    const cleaned = String(name).replace(/\([^)]*\)/g, ' ').trim();
+    const [last, ...rest] = cleaned.split(',');
+    const ordered = rest.length > 0 ? `${rest.join(' ')} ${last}` : cleaned;
+    const words = ordered
+        .split(/\s+/)
+        .map(word => word.replace(/[^\p{L}\p{M}\d_.'’-]/gu, '').replace(/^[^\p{L}\d_]+/u, ''))
+        .filter(Boolean)
+        .slice(0, 4)
+        .map((word, i) => (i > 0 && NAME_PARTICLES.includes(word) ? word : word[0].toUpperCase() + word.slice(1)));
+    return words.length > 0 ? words.join(' ') : null;
+}
+
+const cleanText = (text) => text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const splitLines = (text) => String(text).replace(/^﻿/, '').replace(/\r\n?/g, '\n').split('\n');
+
+/**
+ * WebVTT and SRT captions. Zoom writes the speaker as a "Name: " prefix,
+ * Teams as a <v Name> voice tag; both are picked up per cue.
+ * @returns {SpeakerTurn[]}
+ */
+function parseCaptions(text) {
+    const turns = [];
+    const blocks = splitLines(text).join('\n').split(/\n\s*\n/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+        const timingIndex = lines.findIndex(l => CUE_TIMING.test(l));
+        if (timingIndex === -1) continue;
+
+        const [, start, end] = lines[timingIndex].match(CUE_TIMING);
+        const raw = lines.slice(timingIndex + 1).join(' ');
+        if (!raw) continue;
+
+        const voice = raw.match(VOICE_TAG);
+        let speaker = voice ? voice[1].trim() : null;
+        let body = cleanText(raw);
+        if (!speaker) {
+            const named = body.match(NAMED_LINE);
+            if (named) {
+                speaker = named[1];
+                body = named[2];
+            }
+        }
+        if (body) {
+            turns.push({ start: parseTimestamp(start), end: parseTimestamp(end), speaker, text: body });
+        }
+    }
+    return turns;
+}
+
+/**
+ * Google Meet .txt transcripts: "Name: text" lines, with the elapsed time on a line of
+ * its own every few minutes. Lines without a speaker continue the previous turn.
+ * @returns {SpeakerTurn[]}
+ */
+function parseMeetTranscript(text) {
+    const turns = [];
+    let time = null;
+
+    for (const rawLine of splitLines(text)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const timestamp = line.match(TIME_ONLY);
+        if (timestamp) {
+            time = parseTimestamp(timestamp[1]);
+            continue;
+        }
+
+        const named = line.match(NAMED_LINE);
+        if (named) {
+            turns.push({ start: time, speaker: named[1], text: named[2].trim() });
+        } else if (turns.length > 0) {
+            turns[turns.length - 1].text += ` ${line}`;
+        }
+        // Anything before the first speaker is the export's title block
+    }
+    return turns;
+}
+
+/**
+ * Teams transcripts saved as Word documents, after the paragraphs have been read out
+ * (see readDocxText). Older exports put a "0:0:0.0 --> 0:0:5.120" line above the speaker,
+ * newer ones write "Sarah Johnson   0:03" above each turn.
+ * @returns {SpeakerTurn[]}
+ */
+function parseTeamsTranscript(text) {
+    const turns = [];
+    let pending = null;
+    let current = null;
+
+    for (const rawLine of splitLines(text)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const cue = line.match(CUE_TIMING);
+        if (cue) {
+            pending = { start: parseTimestamp(cue[1]), end: parseTimestamp(cue[2]) };
+            current = null;
+            continue;
+        }
+
+        if (pending) {
+            current = { ...pending, speaker: line, text: '' };
+            turns.push(current);
+            pending = null;
+            continue;
+        }
+
+        const header = line.match(TEAMS_HEADER);
+        if (header) {
+            current = { start: parseTimestamp(header[2]), speaker: header[1].trim(), text: '' };
+            turns.push(current);
+            continue;
+        }
+
+        if (current) {
+            current.text = current.text ? `${current.text} ${line}` : line;
+        }
+    }
+    return turns
+        .map(turn => ({ ...turn, text: cleanText(turn.text) }))
+        .filter(turn => turn.text);
+}
+
+/**
+ * Read notes into speaker turns. Timestamped "[mm:ss] Name: text" lines become speaker turns;
+ * every other non-empty line is kept as a turn without a speaker.
+ * @param {string} notes
+ * @returns {Transcript}
+ */
+function parseTranscript(notes) {
+    const text = String(notes || '');
+    const turns = [];
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const match = line.match(TURN_LINE);
+        turns.push(match
+            ? { start: parseTimestamp(match[1]), speaker: match[2].trim(), text: match[3].trim() }
+            : { start: null, speaker: null, text: line });
+    }
+    return createTranscript(turns, text);
+}
+
+/**
+ * Build a Transcript from turns, e.g. ones an import or a transcription backend produced
+ * @param {SpeakerTurn[]} turns
+ * @param {string} [text] - defaults to the turns written out by formatTranscript
+ * @returns {Transcript}
+ */
+function createTranscript(turns, text) {
+    const speakers = [];
+    for (const turn of turns) {
+        if (turn.speaker && !speakers.includes(turn.speaker)) speakers.push(turn.speaker);
+    }
+    return { turns, speakers, text: text === undefined ? formatTranscript(turns) : text };
+}
+
+/** Extractors accept either raw notes or an already parsed Transcript */
+const toTranscript = (input) => (typeof input === 'string' ? parseTranscript(input) : input);
+
+const turnTimestamp = (turn) => (typeof turn.start === 'number' ? formatTimestamp(turn.start) : undefined);
+
+const normalizeQuote = (text) => String(text).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function findSourceTurn(transcript, task) {
+    if (task.sourceText) {
+        const quote = normalizeQuote(task.sourceText);
+        const turn = quote && transcript.turns.find(t => normalizeQuote(t.text).includes(quote));
+        if (turn) return turn;
+    }
+    if (task.timestamp) {
+        return transcript.turns.find(t => t.speaker && turnTimestamp(t) === task.timestamp);
+    }
+    return undefined;
+}
+
+/**
+ * Tie a task back to the turn it came from (by its quote, else its timestamp): the task
+ * gets the turn's timestamp, and a first-person commitment with no named assignee goes
+ * to the turn's speaker.
+ * @param {Object} task
+ * @param {Transcript} transcript
+ */
+function attributeTask(task, transcript) {
+    const turn = findSourceTurn(transcript, task);
+    if (!turn) return task;
+
+    const attributed = { ...task };
+    if (!attributed.timestamp && turnTimestamp(turn)) attributed.timestamp = turnTimestamp(turn);
+
+    const unassigned = !attributed.assignee || FIRST_PERSON.test(String(attributed.assignee).trim());
+    if (turn.speaker && unassigned && COMMITMENT.test(task.sourceText || turn.text)) {
+        attributed.assignee = turn.speaker;
+    }
+    return attributed;
+}
+
+/**
+ * The transcript as the LLM prompt shows it: the speaker list, then one line per turn,
+ * so the model sees who said each line instead of inferring it
+ * @param {Transcript} transcript
+ */
+function renderTranscript(transcript) {
+    const lines = transcript.turns.map(turn => {
+        if (!turn.speaker) return turn.text;
+        const timestamp = turnTimestamp(turn);
+        return `${timestamp ? `[${timestamp}] ` : ''}${turn.speaker}: ${turn.text}`;
+    });
+    if (transcript.speakers.length === 0) return lines.join('\n');
+    return `Speakers: ${transcript.speakers.join(', ')}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Which parser a file needs, from its name and first lines
+ * @returns {'vtt'|'srt'|'teams'|'meet'|'text'}
+ */
+function detectTranscriptFormat(text, fileName = '') {
+    const extension = (fileName.match(/\.([a-z0-9]+)$/i) || [])[1]?.toLowerCase();
+    const lines = splitLines(text).map(l => l.trim()).filter(Boolean);
+
+    if (extension === 'vtt' || lines[0]?.startsWith('WEBVTT')) return 'vtt';
+    if (extension === 'srt' || (/^\d+$/.test(lines[0] || '') && CUE_TIMING.test(lines[1] || ''))) return 'srt';
+    if (extension === 'docx') return 'teams';
+
+    // Already in the "[mm:ss] Name:" shape, or plain notes
+    if (lines.some(l => /^\[\d{2}:\d{2}(?::\d{2})?\]\s/.test(l))) return 'text';
+    if (lines.some(l => CUE_TIMING.test(l))) return 'teams';
+    if (lines.some(l => TIME_ONLY.test(l)) && lines.some(l => NAMED_LINE.test(l))) return 'meet';
+    return 'text';
+}
+
+const PARSERS = {
+    vtt: parseCaptions,
+    srt: parseCaptions,
+    teams: parseTeamsTranscript,
+    meet: parseMeetTranscript,
+};
+
+/**
+ * One line per speaker turn; consecutive turns by the same speaker are joined.
+ * Turns without a start time reuse the previous one; turns without a speaker become plain lines.
+ * @param {SpeakerTurn[]} turns
+ */
+function formatTranscript(turns) {
+    const merged = [];
+    let time = 0;
+    for (const turn of turns) {
+        const text = String(turn.text || '').trim();
+        if (!text) continue;
+        if (typeof turn.start === 'number') time = turn.start;
+
+        const speaker = speakerName(turn.speaker);
+        const last = merged[merged.length - 1];
+        if (last && speaker && last.speaker === speaker) {
+            last.text += ` ${text}`;
+        } else {
+            merged.push({ start: time, speaker, text });
+        }
+    }
+    return merged
+        .map(turn => (turn.speaker ? `[${formatTimestamp(turn.start)}] ${turn.speaker}: ${turn.text}` : turn.text))
+        .join('\n');
+}
+
+/**
+ * Parse an exported transcript and rewrite it for extraction.
+ * Text that is not in a known export format is returned unchanged.
+ */
+function importTranscript(text, options = {}) {
+    const format = options.format || detectTranscriptFormat(text, options.fileName);
+    const parse = PARSERS[format];
+    if (!parse) {
+        return { format: 'text', turns: [], transcript: String(text).trim() };
+    }
+
+    const turns = parse(text);
+    if (turns.length === 0) {
+        throw new Error(`No speaker turns were found in this ${format.toUpperCase()} file.`);
+    }
+    return { format, turns, transcript: formatTranscript(turns) };
+}
+
+/**
+ * Import an uploaded file: Word documents are unpacked first, everything else is read as UTF-8 text
+ * @param {string} fileName
+ * @param {ArrayBuffer|Uint8Array} data
+ */
+async function importTranscriptFile(fileName, data) {
+    if (/\.docx$/i.test(fileName)) {
+        return importTranscript(await readDocxText(data), { format: 'teams' });
+    }
+    return importTranscript(new TextDecoder().decode(data), { fileName });
+}
+
+module.exports = {
+    parseTranscript,
+    createTranscript,
+    toTranscript,
+    attributeTask,
+    renderTranscript,
+    importTranscript,
+    importTranscriptFile,
+    detectTranscriptFormat,
+    parseCaptions,
+    parseMeetTranscript,
+    parseTeamsTranscript,
+    formatTranscript,
+    formatTimestamp,
+    parseTimestamp,
+    speakerName,
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+
+const { resolveAssignee, rankAssignees } = require('..');
+
+const MEMBERS = [
+    { full_name: 'Samuel Ortiz', email: 'samuel@example.com' },
+    { full_name: 'Samantha Lee' },
+    { full_name: 'Sarah Johnson', aliases: ['SJ'] },
+    { full_name: 'Michael Chen' },
+];
+
+describe('resolveAssignee', () => {
+    it('matches a first name with high confidence', () => {
+        expect(resolveAssignee('Sarah', MEMBERS)).toMatchObject({
+            match: MEMBERS[2],
+            confidence: 'high',
+            ambiguous: false,
+        });
+    });
+
+    it('matches aliases and misspellings', () => {
+        expect(resolveAssignee('SJ', MEMBERS).match).toBe(MEMBERS[2]);
+        expect(resolveAssignee('@Micheal', MEMBERS)).toMatchObject({ match: MEMBERS[3], confidence: 'medium' });
+    });
+
+    it('asks the user when two members fit equally well', () => {
+        const result = resolveAssignee('Sam', MEMBERS);
+        expect(result).toMatchObject({ match: null, ambiguous: true, confidence: 'low' });
+        expect(result.candidates.map(candidate => candidate.member)).toEqual([MEMBERS[0], MEMBERS[1]]);
+    });
+
+    it('picks the clear winner over a weaker candidate', () => {
+        const members = [{ full_name: 'Sam Ortiz' }, { full_name: 'Samantha Lee' }];
+        expect(resolveAssignee('Sam', members)).toMatchObject({ match: members[0], ambiguous: false });
+    });
+
+    it('returns no match for unknown names', () => {
+        expect(resolveAssignee('Zed', MEMBERS)).toEqual({ match: null, candidates: [], confidence: 'low', ambiguous: false });
+        expect(rankAssignees('', MEMBERS)).toEqual([]);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+
+const { resolveDueDate, extractDueDate, reconcileDueDate, todayIn, isValidTimeZone } = require('..');
+
+// A Monday
+const MEETING = { meetingDate: '2026-10-19', timeZone: 'UTC' };
+
+describe('resolveDueDate', () => {
+    it.each([
+        ['by tomorrow', '2026-10-20'],
+        ['by EOD', '2026-10-19'],
+        ['by Friday', '2026-10-23'],
+        ['next Monday', '2026-10-26'],
+        ['in 3 business days', '2026-10-22'],
+        ['by end of next week', '2026-10-30'],
+        ['by EOM', '2026-10-30'],
+        ['by March 5', '2027-03-05'],
+    ])('resolves "%s"', (text, date) => {
+        expect(resolveDueDate(text, MEETING)).toMatchObject({ date, deadline: true });
+    });
+
+    it('needs a deadline cue before a weekday', () => {
+        expect(resolveDueDate('Friday was fun', MEETING)).toBeUndefined();
+        expect(resolveDueDate('we shipped on Monday', MEETING)).toMatchObject({ deadline: false });
+    });
+
+    it('does not treat a mentioned date as a deadline', () => {
+        expect(resolveDueDate('the March 5 release', MEETING)).toMatchObject({ date: '2027-03-05', deadline: false });
+    });
+
+    it('rejects days that do not exist', () => {
+        expect(extractDueDate('by Feb 30', MEETING)).toBeUndefined();
+    });
+
+    it('moves deadlines off weekends and holidays', () => {
+        // Saturday rolls forward past Monday's holiday
+        expect(extractDueDate('by tomorrow', { meetingDate: '2026-10-16', holidays: ['2026-10-19'] })).toBe('2026-10-20');
+        // The end of the month is a Saturday, so the Friday before
+        expect(extractDueDate('by EOM', { meetingDate: '2026-10-16' })).toBe('2026-10-30');
+    });
+
+    it('ends the current sprint on its last working day', () => {
+        const sprint = { start: '2026-10-05', weeks: 2 };
+        expect(extractDueDate('by end of sprint', { meetingDate: '2026-10-14', sprint })).toBe('2026-10-16');
+    });
+});
+
+describe('reconcileDueDate', () => {
+    it('prefers a deadline in the quote over the model\'s date', () => {
+        const task = { title: 'Ship it', sourceText: 'Ship it by Friday', dueDate: '2026-10-20' };
+        expect(reconcileDueDate(task, MEETING).dueDate).toBe('2026-10-23');
+    });
+
+    it('keeps the model\'s date when the quote has no deadline', () => {
+        const task = { title: 'Ship it', sourceText: 'we shipped on Monday', dueDate: '2026-10-20' };
+        expect(reconcileDueDate(task, MEETING)).toBe(task);
+        expect(reconcileDueDate({ title: 'Ship it', sourceText: 'we shipped on Monday' }, MEETING).dueDate).toBeUndefined();
+    });
+
+    it('drops dates before the meeting and moves weekend dates back', () => {
+        expect(reconcileDueDate({ title: 'Ship it', dueDate: '2026-10-01' }, MEETING).dueDate).toBeUndefined();
+        expect(reconcileDueDate({ title: 'Ship it', dueDate: '2026-10-24' }, MEETING).dueDate).toBe('2026-10-23');
+    });
+});
+
+describe('time zones', () => {
+    it('reads today in the given zone', () => {
+        const instant = new Date('2026-10-18T20:00:00Z');
+        expect(todayIn('Asia/Kolkata', instant)).toBe('2026-10-19');
+        expect(todayIn('America/Los_Angeles', instant)).toBe('2026-10-18');
+    });
+
+    it('resolves an instant meeting date in the zone', () => {
+        const meetingDate = new Date('2026-10-18T20:00:00Z');
+        expect(extractDueDate('by tomorrow', { meetingDate, timeZone: 'Asia/Kolkata' })).toBe('2026-10-20');
+        expect(extractDueDate('by tomorrow', { meetingDate, timeZone: 'America/Los_Angeles' })).toBe('2026-10-19');
+    });
+
+    it('validates zone names', () => {
+        expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+        expect(isValidTimeZone('Mars/Base')).toBe(false);
+        expect(isValidTimeZone(5)).toBe(false);
+    });
+});
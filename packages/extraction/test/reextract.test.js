@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+
+const { reconcileReextraction, assignTaskKeys } = require('..');
+
+const previous = [
+    { key: 'a', title: 'Fix the login bug', assignee: 'Bob', priority: 'medium', sourceText: 'Bob will fix the login bug' },
+    { key: 'b', title: 'Update the API docs', assignee: 'Ana', priority: 'low', sourceText: 'Ana will update the API docs' },
+    { key: 'c', title: 'Book the offsite venue', priority: 'low', sourceText: 'Someone should book the offsite venue' },
+];
+
+describe('assignTaskKeys', () => {
+    it('keeps existing keys and adds missing ones', () => {
+        const [kept, added] = assignTaskKeys([{ key: 'a', title: 'A' }, { title: 'B' }]);
+        expect(kept.key).toBe('a');
+        expect(added.key).toMatch(/^task-/);
+    });
+});
+
+describe('reconcileReextraction', () => {
+    it('keeps the user\'s edits and takes new values for untouched fields', () => {
+        const reviewed = [{ ...previous[0], assignee: 'Carol' }, previous[1], previous[2]];
+        const next = [
+            { ...previous[0], key: undefined, assignee: 'Dan', priority: 'high' },
+            { ...previous[1], key: undefined },
+            { ...previous[2], key: undefined },
+        ];
+
+        const { tasks, diff } = reconcileReextraction(previous, reviewed, next);
+        expect(tasks[0]).toMatchObject({ key: 'a', assignee: 'Carol', priority: 'high' });
+        expect(diff.changed).toEqual([{ task: tasks[0], fields: ['priority'], kept: ['assignee'] }]);
+        expect(diff.added).toEqual([]);
+        expect(diff.removed).toEqual([]);
+    });
+
+    it('pairs tasks by quote, then by similar title', () => {
+        const next = [
+            { title: 'Fix the login bug on mobile', sourceText: 'Bob will fix the login bug' },
+            { title: 'Update the API docs', assignee: 'Ana', priority: 'low' },
+        ];
+        const { extracted } = reconcileReextraction(previous, previous, next);
+        expect(extracted.map(task => task.key)).toEqual(['a', 'b']);
+    });
+
+    it('drops untouched tasks the notes no longer mention, but keeps edited ones', () => {
+        const reviewed = [previous[0], { ...previous[1], priority: 'high' }, previous[2]];
+        const next = [{ ...previous[0], key: undefined }];
+
+        const { tasks, diff } = reconcileReextraction(previous, reviewed, next);
+        expect(tasks.map(task => task.key)).toEqual(['a', 'b']);
+        expect(diff.removed).toEqual([
+            { task: reviewed[1], kept: true },
+            { task: reviewed[2], kept: false },
+        ]);
+    });
+
+    it('keeps hand-added tasks and leaves removed tasks removed', () => {
+        const manual = { key: 'manual', title: 'Send the recap email' };
+        const reviewed = [previous[0], previous[1], manual];
+        const next = [
+            ...previous.map(task => ({ ...task, key: undefined })),
+            { title: 'Order new laptops', sourceText: 'We need to order new laptops' },
+        ];
+
+        const { tasks, diff } = reconcileReextraction(previous, reviewed, next);
+        expect(tasks.map(task => task.title)).toEqual([
+            'Fix the login bug',
+            'Update the API docs',
+            'Send the recap email',
+            'Order new laptops',
+        ]);
+        expect(diff.added.map(task => task.title)).toEqual(['Order new laptops']);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+
+const { resolveRuleSet, customRuleError, mockExtractTasks, DEFAULT_RULES } = require('..');
+
+describe('resolveRuleSet', () => {
+    it('uses the defaults for a team without settings', () => {
+        for (const config of [undefined, null, {}]) {
+            const { rules, fillerPatterns } = resolveRuleSet(config);
+            expect(rules.map(rule => rule.id)).toEqual(DEFAULT_RULES.map(rule => rule.id));
+            expect(fillerPatterns.length).toBeGreaterThan(0);
+        }
+    });
+
+    it('treats null lists as empty', () => {
+        const { rules } = resolveRuleSet({ disabledRules: null, customRules: null, fillerPhrases: null });
+        expect(rules).toHaveLength(DEFAULT_RULES.length);
+    });
+
+    it('drops disabled rules and appends custom ones', () => {
+        const { rules } = resolveRuleSet({
+            disabledRules: ['will'],
+            customRules: [{ id: 'ship-now', pattern: 'ship (.+) now' }],
+        });
+        const ids = rules.map(rule => rule.id);
+        expect(ids).not.toContain('will');
+        expect(ids[ids.length - 1]).toBe('ship-now');
+    });
+
+    it('skips custom rules that do not compile', () => {
+        const { rules } = resolveRuleSet({ customRules: [{ id: 'broken', pattern: '(' }] });
+        expect(rules.map(rule => rule.id)).not.toContain('broken');
+    });
+
+    it('matches filler phrases literally at the start of a line', () => {
+        const { fillerPatterns } = resolveRuleSet({ fillerPhrases: ['quick note (fyi)', ''] });
+        const custom = fillerPatterns[fillerPatterns.length - 1];
+        expect(custom.test('Quick note (FYI) on the release')).toBe(true);
+        expect(custom.test('A quick note (fyi)')).toBe(false);
+    });
+});
+
+describe('customRuleError', () => {
+    it.each(['(a+)+', '(\\w*\\s)*', '(?:x{2,})+', '((a+))+', '(?<name>a+?)+'])('rejects nested quantifiers in %s', (pattern) => {
+        expect(customRuleError({ pattern })).toMatch(/repeats a group/);
+    });
+
+    it.each(['(a|a)+$', '(a|aa)+$', '(?:x|(y|yy))*', '((a|b)c)+'])('rejects repeated alternation in %s', (pattern) => {
+        expect(customRuleError({ pattern })).toMatch(/repeats a group with alternatives/);
+    });
+
+    it.each(['ship (.+) now', '([A-Z][a-z]+) will (.+)', '(a+b)?', '(a{1})+', '[(+]+', '\\(a+\\)+', '(done|finished) (.+)', '[a|b]+'])('accepts %s', (pattern) => {
+        expect(customRuleError({ pattern })).toBeNull();
+    });
+
+    it('rejects long, empty and invalid patterns', () => {
+        expect(customRuleError({ pattern: 'a'.repeat(201) })).toMatch(/longer than 200/);
+        expect(customRuleError({ pattern: '' })).toMatch(/empty/);
+        expect(customRuleError({ pattern: 'a', flags: 'q' })).toMatch(/Invalid flags/);
+    });
+
+    it('keeps rejected rules out of the rule set', () => {
+        const { rules } = resolveRuleSet({ customRules: [{ id: 'slow', pattern: '(a+)+$' }] });
+        expect(rules.map(rule => rule.id)).not.toContain('slow');
+    });
+});
+
+describe('mockExtractTasks rules', () => {
+    it('builds tasks from custom rule groups', () => {
+        const { tasks } = mockExtractTasks('Please ship the mobile build now', {
+            rules: { customRules: [{ id: 'ship-now', pattern: 'ship (.+) now' }] },
+        });
+        expect(tasks.map(task => task.title)).toEqual(['the mobile build']);
+    });
+
+    it('no longer extracts with a disabled rule', () => {
+        const notes = 'Bob will fix the login bug';
+        expect(mockExtractTasks(notes).tasks[0]).toMatchObject({ assignee: 'Bob', title: 'fix the login bug' });
+        const { tasks } = mockExtractTasks(notes, { rules: { disabledRules: ['will'] } });
+        expect(tasks.map(task => task.title)).not.toContain('fix the login bug');
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+
+const { speakerName, formatTranscript, parseTranscript } = require('..');
+
+describe('speakerName', () => {
+    it.each([
+        ['Sarah Johnson', 'Sarah Johnson'],
+        ['Johnson, Sarah', 'Sarah Johnson'],
+        ['Sarah Johnson (PM)', 'Sarah Johnson'],
+        ['José Álvarez', 'José Álvarez'],
+        ['Ana de la Cruz', 'Ana de la Cruz'],
+        ['SpeakerA', 'SpeakerA'],
+    ])('keeps the full name of %s', (name, expected) => {
+        expect(speakerName(name)).toBe(expected);
+    });
+
+    it('returns null when no name is left', () => {
+        expect(speakerName('(guest)')).toBeNull();
+        expect(speakerName('')).toBeNull();
+    });
+});
+
+describe('formatTranscript', () => {
+    it('writes lines that parse back to the same speakers', () => {
+        const text = formatTranscript([
+            { start: 1, speaker: 'Johnson, Sarah', text: 'I will send the recap.' },
+            { start: 4, speaker: 'Sarah Johnson', text: 'And the slides.' },
+            { start: 9, speaker: 'Ana de la Cruz', text: 'I can review them.' },
+        ]);
+        expect(text).toBe('[00:01] Sarah Johnson: I will send the recap. And the slides.\n[00:09] Ana de la Cruz: I can review them.');
+        expect(parseTranscript(text).speakers).toEqual(['Sarah Johnson', 'Ana de la Cruz']);
+    });
+});
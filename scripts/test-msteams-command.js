@@ -0,0 +1,69 @@
+/**
+ * Sends a signed Microsoft Teams outgoing webhook message to a local MeetingMind server, like Teams would.
+ *
+ *   MSTEAMS_WEBHOOK_SECRET=... node scripts/test-msteams-command.js ["notes"]
+ *
+ * The secret is the base64 security token Teams shows when the outgoing webhook is created;
+ * any base64 string works locally. Run `vercel dev` or `node cliq-extension/server.js` first;
+ * MEETINGMIND_URL overrides http://127.0.0.1:3000.
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+
+const notes = process.argv[2] || 'John to review PR by Friday. Sarah will update the documentation.';
+const secret = process.env.MSTEAMS_WEBHOOK_SECRET || '';
+const url = new URL('/api/msteams/command', process.env.MEETINGMIND_URL || 'http://127.0.0.1:3000');
+
+const data = JSON.stringify({
+    type: 'message',
+    id: '1485983408511',
+    timestamp: new Date().toISOString(),
+    serviceUrl: 'https://smba.trafficmanager.net/amer/',
+    channelId: 'msteams',
+    from: {
+        id: '29:1XJKJMvc5GBtc2JwZq0oj8tHZmzrQgFmB39ATiQWA85gQtHieVkKilBZ9XHoq9j7Zaqt7CZ-NJWi7me2kHTL3Bw',
+        name: 'Test User',
+        aadObjectId: 'c33aafd0-7b56-4f6c-8dc3-4e5b1c0b8a11',
+    },
+    conversation: { id: '19:253b1f341670408fb6fcb3d7ac1b1ecb@thread.skype;messageid=1485983408511' },
+    text: `<at>MeetingMind</at> ${notes.replace(/\n/g, '<br>')}`,
+    textFormat: 'plain',
+    channelData: {
+        teamsChannelId: '19:253b1f341670408fb6fcb3d7ac1b1ecb@thread.skype',
+        teamsTeamId: '19:712c61d0ef384e5fa681ba90ca943398@thread.skype',
+        channel: { id: '19:253b1f341670408fb6fcb3d7ac1b1ecb@thread.skype', name: 'General' },
+    },
+});
+
+// Authorization: HMAC <base64 HMAC-SHA256 of the body, keyed with the base64-decoded token>
+const signature = crypto.createHmac('sha256', Buffer.from(secret, 'base64')).update(data, 'utf8').digest('base64');
+
+const req = http.request(url, {
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(data),
+        Authorization: `HMAC ${signature}`,
+    },
+}, (res) => {
+    let responseData = '';
+    res.on('data', (chunk) => {
+        responseData += chunk;
+    });
+    res.on('end', () => {
+        console.log(`StatusCode: ${res.statusCode}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(responseData), null, 2));
+        } catch (e) {
+            console.log(responseData);
+        }
+    });
+});
+
+req.on('error', (error) => {
+    console.error(error);
+});
+
+req.write(data);
+req.end();
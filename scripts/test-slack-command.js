@@ -0,0 +1,62 @@
+/**
+ * Sends a signed Slack slash command to a local MeetingMind server, like Slack would.
+ *
+ *   SLACK_SIGNING_SECRET=... node scripts/test-slack-command.js ["notes"]
+ *
+ * Run `vercel dev` or `node cliq-extension/server.js` first; MEETINGMIND_URL overrides http://127.0.0.1:3000.
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+
+const notes = process.argv[2] || 'John to review PR by Friday. Sarah will update the documentation.';
+const secret = process.env.SLACK_SIGNING_SECRET || '';
+const url = new URL('/api/slack/command', process.env.MEETINGMIND_URL || 'http://127.0.0.1:3000');
+
+const data = new URLSearchParams({
+    token: 'deprecated-verification-token',
+    team_id: 'T0001',
+    team_domain: 'example',
+    channel_id: 'C2147483705',
+    channel_name: 'general',
+    user_id: 'U2147483697',
+    user_name: 'test.user',
+    command: '/meetingmind',
+    text: notes,
+    response_url: 'https://hooks.slack.com/commands/1234/5678',
+    trigger_id: '13345224609.738474920.8088930838d88f008e0',
+}).toString();
+
+// https://api.slack.com/authentication/verifying-requests-from-slack
+const timestamp = Math.floor(Date.now() / 1000);
+const signature = `v0=${crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${data}`).digest('hex')}`;
+
+const req = http.request(url, {
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Content-Length': Buffer.byteLength(data),
+        'X-Slack-Request-Timestamp': timestamp,
+        'X-Slack-Signature': signature,
+    },
+}, (res) => {
+    let responseData = '';
+    res.on('data', (chunk) => {
+        responseData += chunk;
+    });
+    res.on('end', () => {
+        console.log(`StatusCode: ${res.statusCode}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(responseData), null, 2));
+        } catch (e) {
+            console.log(responseData);
+        }
+    });
+});
+
+req.on('error', (error) => {
+    console.error(error);
+});
+
+req.write(data);
+req.end();
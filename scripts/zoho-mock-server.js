@@ -0,0 +1,252 @@
+/**
+ * Local stand-in for Zoho Accounts + Zoho Projects, for exercising the integration offline.
+ *
+ *   node scripts/zoho-mock-server.js            # listens on :4010 (ZOHO_MOCK_PORT to change)
+ *
+ * Point the API at it with:
+ *   ZOHO_ACCOUNTS_URL=http://localhost:4010
+ *   ZOHO_PROJECTS_API_URL=http://localhost:4010/restapi
+ *   ZOHO_CLIENT_ID=mock ZOHO_CLIENT_SECRET=mock
+ *
+ * The consent page approves immediately, tokens expire after ZOHO_MOCK_TOKEN_TTL seconds,
+ * and created tasks are kept in memory and listed at GET /mock/tasks.
+ *
+ * To act as someone changing a task in Zoho, POST /mock/tasks/:id/status { "status": "Closed" }.
+ * When ZOHO_MOCK_WEBHOOK_URL is set (e.g. http://localhost:3000/api/zoho/webhook?token=...),
+ * the change is delivered there the way a Zoho Projects webhook would.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.ZOHO_MOCK_PORT, 10) || 4010;
+const TOKEN_TTL = parseInt(process.env.ZOHO_MOCK_TOKEN_TTL, 10) || 3600;
+const WEBHOOK_URL = process.env.ZOHO_MOCK_WEBHOOK_URL;
+
+const portals = [{ id: 1001, id_string: '1001', name: 'meetingmind-demo' }];
+const projects = {
+    1001: [
+        { id: 2001, id_string: '2001', name: 'Client Dashboard Upgrade' },
+        { id: 2002, id_string: '2002', name: 'Internal Tools' },
+    ],
+};
+const users = [
+    { id: '3001', name: 'Sarah Johnson', email: 'sarah@example.com' },
+    { id: '3002', name: 'James', email: 'james@example.com' },
+    { id: '3003', name: 'Priya', email: 'priya@example.com' },
+];
+
+const statuses = [
+    { id: '5001', name: 'Open', type: 'open' },
+    { id: '5002', name: 'In Progress', type: 'open' },
+    { id: '5003', name: 'Closed', type: 'closed' },
+];
+
+const codes = new Set();
+const accessTokens = new Map(); // token -> expiry (ms)
+const refreshTokens = new Set();
+const tasks = [];
+
+const randomToken = (prefix) => `${prefix}.${crypto.randomBytes(12).toString('hex')}`;
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+    return new Promise((resolve) => {
+        let data = '';
+        req.on('data', chunk => { data += chunk; });
+        req.on('end', () => {
+            const type = req.headers['content-type'] || '';
+            if (type.includes('application/json')) {
+                try { return resolve(JSON.parse(data || '{}')); } catch { return resolve({}); }
+            }
+            resolve(Object.fromEntries(new URLSearchParams(data)));
+        });
+    });
+}
+
+function issueTokens(includeRefresh) {
+    const accessToken = randomToken('mock-access');
+    accessTokens.set(accessToken, Date.now() + TOKEN_TTL * 1000);
+    const body = { access_token: accessToken, expires_in: TOKEN_TTL, api_domain: `http://localhost:${PORT}`, token_type: 'Bearer' };
+    if (includeRefresh) {
+        body.refresh_token = randomToken('mock-refresh');
+        refreshTokens.add(body.refresh_token);
+    }
+    return body;
+}
+
+function isAuthorized(req) {
+    const match = (req.headers.authorization || '').match(/^Zoho-oauthtoken\s+(.+)$/);
+    const expiry = match && accessTokens.get(match[1]);
+    return Boolean(expiry && expiry > Date.now());
+}
+
+async function handleAccounts(req, res, url) {
+    if (req.method === 'GET' && url.pathname === '/oauth/v2/auth') {
+        const code = randomToken('mock-code');
+        codes.add(code);
+        const redirect = new URL(url.searchParams.get('redirect_uri'));
+        redirect.searchParams.set('code', code);
+        redirect.searchParams.set('state', url.searchParams.get('state') || '');
+        res.writeHead(302, { Location: redirect.toString() });
+        return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/oauth/v2/token') {
+        const body = await readBody(req);
+        if (body.grant_type === 'authorization_code' && codes.delete(body.code)) {
+            return send(res, 200, issueTokens(true));
+        }
+        if (body.grant_type === 'refresh_token' && refreshTokens.has(body.refresh_token)) {
+            return send(res, 200, issueTokens(false));
+        }
+        // Like Zoho: OAuth errors come back as 200 with an error field
+        return send(res, 200, { error: body.grant_type === 'refresh_token' ? 'invalid_token' : 'invalid_code' });
+    }
+
+    return null;
+}
+
+async function handleProjects(req, res, url) {
+    if (!isAuthorized(req)) {
+        return send(res, 401, { error: { code: 6401, message: 'Invalid OAuth access token.' } });
+    }
+
+    const path = url.pathname.replace(/^\/restapi/, '').replace(/\/$/, '');
+    let match;
+
+    if (req.method === 'GET' && path === '/portals') {
+        return send(res, 200, { portals });
+    }
+    if (req.method === 'GET' && (match = path.match(/^\/portal\/(\w+)\/projects$/))) {
+        return send(res, 200, { projects: projects[match[1]] || [] });
+    }
+    if (req.method === 'GET' && (match = path.match(/^\/portal\/(\w+)\/projects\/(\w+)\/users$/))) {
+        return send(res, 200, { users });
+    }
+    if (req.method === 'POST' && (match = path.match(/^\/portal\/(\w+)\/projects\/(\w+)\/tasks$/))) {
+        const body = await readBody(req);
+        if (!body.name) {
+            return send(res, 400, { error: { code: 6831, message: 'Input Parameter Missing: name' } });
+        }
+        const id = String(4000 + tasks.length + 1);
+        const task = {
+            id,
+            id_string: id,
+            name: body.name,
+            description: body.description || '',
+            priority: body.priority || 'None',
+            end_date: body.end_date || '',
+            details: { owners: (body.person_responsible || '').split(',').filter(Boolean).map(ownerId => ({ id: ownerId })) },
+            status: { ...statuses[0] },
+            last_updated_time_long: Date.now(),
+            portal_id: match[1],
+            project_id: match[2],
+            link: {
+                self: { url: `http://localhost:${PORT}/restapi/portal/${match[1]}/projects/${match[2]}/tasks/${id}/` },
+                web: { url: `http://localhost:${PORT}/portal/${match[1]}#taskdetail/${match[2]}/${id}` },
+            },
+        };
+        tasks.push(task);
+        console.log(`[ZohoMock] Created task ${id}: ${task.name}`);
+        return send(res, 201, { tasks: [task] });
+    }
+
+    if (req.method === 'GET' && (match = path.match(/^\/portal\/(\w+)\/projects\/(\w+)\/tasklayouts$/))) {
+        return send(res, 200, { status_details: statuses });
+    }
+    if ((match = path.match(/^\/portal\/(\w+)\/projects\/(\w+)\/tasks\/(\w+)$/))) {
+        const task = tasks.find(t => t.id === match[3] && t.project_id === match[2]);
+        if (!task) {
+            return send(res, 404, { error: { code: 6404, message: 'Task not found' } });
+        }
+        if (req.method === 'GET') {
+            return send(res, 200, { tasks: [task] });
+        }
+        if (req.method === 'POST') {
+            const body = await readBody(req);
+            const status = statuses.find(s => s.id === body.custom_status);
+            if (body.custom_status && !status) {
+                return send(res, 400, { error: { code: 6832, message: 'Invalid custom_status' } });
+            }
+            if (status) setTaskStatus(task, status);
+            return send(res, 200, { tasks: [task] });
+        }
+    }
+
+    return send(res, 404, { error: { code: 6404, message: `No mock for ${req.method} ${url.pathname}` } });
+}
+
+function setTaskStatus(task, status) {
+    task.status = { ...status };
+    task.last_updated_time_long = Date.now();
+    console.log(`[ZohoMock] Task ${task.id} is now ${status.name}`);
+}
+
+// A status change made "in Zoho", delivered to the webhook like Zoho Projects would
+async function handleMockStatusChange(req, res, taskId) {
+    const task = tasks.find(t => t.id === taskId);
+    const body = await readBody(req);
+    const status = statuses.find(s => s.name.toLowerCase() === String(body.status || '').toLowerCase());
+    if (!task || !status) {
+        return send(res, 400, { error: `Unknown task or status; statuses are ${statuses.map(s => s.name).join(', ')}` });
+    }
+
+    setTaskStatus(task, status);
+
+    let webhook = null;
+    if (WEBHOOK_URL) {
+        const response = await fetch(WEBHOOK_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                event: 'task_updated',
+                portal_id: task.portal_id,
+                project_id: task.project_id,
+                task_id: task.id,
+                status: task.status.name,
+                status_type: task.status.type,
+                last_updated_time_long: task.last_updated_time_long,
+            }),
+        });
+        webhook = { status: response.status, body: await response.json().catch(() => null) };
+    }
+    return send(res, 200, { task, webhook });
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+
+    try {
+        if (req.method === 'GET' && url.pathname === '/mock/tasks') {
+            return send(res, 200, { tasks });
+        }
+        const statusChange = req.method === 'POST' && url.pathname.match(/^\/mock\/tasks\/(\w+)\/status$/);
+        if (statusChange) {
+            return await handleMockStatusChange(req, res, statusChange[1]);
+        }
+        if (url.pathname.startsWith('/oauth/')) {
+            const handled = await handleAccounts(req, res, url);
+            if (handled !== null) return handled;
+        }
+        if (url.pathname.startsWith('/restapi/')) {
+            return await handleProjects(req, res, url);
+        }
+        send(res, 404, { error: 'Not found' });
+    } catch (error) {
+        console.error('[ZohoMock] Error:', error);
+        send(res, 500, { error: error.message });
+    }
+});
+
+if (require.main === module) {
+    server.listen(PORT, () => {
+        console.log(`Zoho mock server listening on http://localhost:${PORT}`);
+    });
+}
+
+module.exports = { server, tasks };
@@ -0,0 +1,8 @@
+-- Per-team extraction settings (provider, model, ...)
+-- Read by /api/extract with the caller's JWT, so the existing teams RLS policies apply.
+
+alter table public.teams
+    add column if not exists extraction_settings jsonb not null default '{}'::jsonb;
+
+comment on column public.teams.extraction_settings is
+    'Extraction configuration, e.g. {"provider": "gemini", "model": "gemini-2.5-flash"}';
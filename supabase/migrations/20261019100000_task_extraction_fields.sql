@@ -0,0 +1,19 @@
+-- Keep what extraction produced on each task instead of flattening it into description.
+
+alter table public.tasks
+    add column if not exists title text,
+    add column if not exists due_date date,
+    add column if not exists confidence text check (confidence in ('high', 'medium', 'low')),
+    add column if not exists inferred boolean not null default false,
+    add column if not exists optional boolean not null default false,
+    add column if not exists source_text text;
+
+comment on column public.tasks.inferred is
+    'True when the task was implied by the discussion rather than stated outright';
+comment on column public.tasks.source_text is
+    'Transcript quote the task was extracted from';
+
+-- Older rows stored the title in description
+update public.tasks set title = description where title is null;
+
+create index if not exists tasks_due_date_idx on public.tasks (due_date) where due_date is not null;
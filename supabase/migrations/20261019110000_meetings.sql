@@ -0,0 +1,45 @@
+-- Meetings keep the transcript and extraction run that produced a batch of tasks,
+-- so every task can be traced back to the meeting it came from.
+
+create table if not exists public.meetings (
+    id uuid primary key default gen_random_uuid(),
+    team_id uuid not null references public.teams(id) on delete cascade,
+    title text not null,
+    meeting_date date not null default current_date,
+    attendees text[] not null default '{}',
+    transcript text not null,
+    -- Extraction run metadata: provider, model, processedAt, chunks, validationErrors
+    extraction jsonb not null default '{}'::jsonb,
+    created_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists meetings_team_date_idx on public.meetings (team_id, meeting_date desc);
+
+alter table public.tasks
+    add column if not exists meeting_id uuid references public.meetings(id) on delete set null;
+
+create index if not exists tasks_meeting_id_idx on public.tasks (meeting_id);
+
+alter table public.meetings enable row level security;
+
+-- Team owners and members can see their team's meetings
+create policy "Team members can view meetings" on public.meetings
+    for select using (
+        exists (select 1 from public.teams t where t.id = meetings.team_id and t.created_by = auth.uid())
+        or exists (select 1 from public.team_members m where m.team_id = meetings.team_id and m.user_id = auth.uid())
+    );
+
+create policy "Team members can record meetings" on public.meetings
+    for insert with check (
+        created_by = auth.uid()
+        and (
+            exists (select 1 from public.teams t where t.id = meetings.team_id and t.created_by = auth.uid())
+            or exists (select 1 from public.team_members m where m.team_id = meetings.team_id and m.user_id = auth.uid())
+        )
+    );
+
+create policy "Team owners can delete meetings" on public.meetings
+    for delete using (
+        exists (select 1 from public.teams t where t.id = meetings.team_id and t.created_by = auth.uid())
+    );
@@ -0,0 +1,27 @@
+-- Zoho Projects integration: per-team OAuth connection and task links.
+
+create table if not exists public.zoho_connections (
+    team_id uuid primary key references public.teams(id) on delete cascade,
+    access_token text,
+    refresh_token text not null,
+    expires_at timestamptz,
+    api_domain text,
+    -- Portal and project that the team's tasks are pushed to
+    portal_id text,
+    portal_name text,
+    project_id text,
+    project_name text,
+    connected_by uuid references auth.users(id) on delete set null,
+    connected_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- Tokens are only ever read by the API with the service role key: RLS on, no policies.
+alter table public.zoho_connections enable row level security;
+
+alter table public.tasks
+    add column if not exists zoho_task_id text,
+    add column if not exists zoho_task_url text,
+    add column if not exists zoho_project_id text;
+
+create unique index if not exists tasks_zoho_task_id_idx on public.tasks (zoho_task_id) where zoho_task_id is not null;
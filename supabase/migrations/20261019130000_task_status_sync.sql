@@ -0,0 +1,60 @@
+-- Two-way status sync with Zoho Projects: conflicts resolve by last-writer-wins,
+-- which needs the time each task's status last changed, and every resolution is audited.
+
+alter table public.tasks
+    add column if not exists status_updated_at timestamptz;
+
+update public.tasks
+set status_updated_at = coalesce(updated_at, created_at, now())
+where status_updated_at is null;
+
+alter table public.tasks
+    alter column status_updated_at set default now(),
+    alter column status_updated_at set not null;
+
+-- Stamp local status changes. Updates that set status_updated_at themselves
+-- (the Zoho webhook applying a remote change) keep the remote timestamp.
+create or replace function public.touch_task_status_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+    if new.status is distinct from old.status
+        and new.status_updated_at is not distinct from old.status_updated_at then
+        new.status_updated_at := now();
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists tasks_status_updated_at on public.tasks;
+create trigger tasks_status_updated_at
+    before update on public.tasks
+    for each row execute function public.touch_task_status_updated_at();
+
+create table if not exists public.task_sync_audit (
+    id uuid primary key default gen_random_uuid(),
+    task_id uuid not null references public.tasks(id) on delete cascade,
+    team_id uuid not null references public.teams(id) on delete cascade,
+    -- Where the change that triggered the sync came from
+    source text not null check (source in ('meetingmind', 'zoho')),
+    -- Whose status was kept
+    winner text not null check (winner in ('meetingmind', 'zoho')),
+    local_status text,
+    remote_status text,
+    resolved_status text not null,
+    local_updated_at timestamptz,
+    remote_updated_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists task_sync_audit_task_idx on public.task_sync_audit (task_id, created_at desc);
+
+-- Written only by the API with the service role; team members can read their team's entries
+alter table public.task_sync_audit enable row level security;
+
+create policy "Team members can view task sync audit" on public.task_sync_audit
+    for select using (
+        exists (select 1 from public.teams t where t.id = task_sync_audit.team_id and t.created_by = auth.uid())
+        or exists (select 1 from public.team_members m where m.team_id = task_sync_audit.team_id and m.user_id = auth.uid())
+    );
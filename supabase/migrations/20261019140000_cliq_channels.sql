@@ -0,0 +1,47 @@
+-- Zoho Cliq: channels linked to a team, and the extractions posted there as interactive cards.
+
+create table if not exists public.cliq_channel_links (
+    -- Cliq chat ID of the channel (e.g. CT_1234567890_123456789)
+    chat_id text primary key,
+    channel_name text,
+    team_id uuid not null references public.teams(id) on delete cascade,
+    -- Team owner who linked the channel
+    linked_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists cliq_channel_links_team_idx on public.cliq_channel_links (team_id);
+
+alter table public.cliq_channel_links enable row level security;
+
+create policy "Team members can view linked Cliq channels" on public.cliq_channel_links
+    for select using (
+        exists (select 1 from public.teams t where t.id = cliq_channel_links.team_id and t.created_by = auth.uid())
+        or exists (select 1 from public.team_members m where m.team_id = cliq_channel_links.team_id and m.user_id = auth.uid())
+    );
+
+create policy "Team owners can link Cliq channels" on public.cliq_channel_links
+    for insert with check (
+        linked_by = auth.uid()
+        and exists (select 1 from public.teams t where t.id = cliq_channel_links.team_id and t.created_by = auth.uid())
+    );
+
+create policy "Team owners can unlink Cliq channels" on public.cliq_channel_links
+    for delete using (
+        exists (select 1 from public.teams t where t.id = cliq_channel_links.team_id and t.created_by = auth.uid())
+    );
+
+-- Tasks extracted by /meetingmind, awaiting confirmation from the card buttons.
+-- Each item keeps the extracted task plus its card state: status (pending/created/discarded) and taskId once created.
+create table if not exists public.cliq_extractions (
+    id uuid primary key default gen_random_uuid(),
+    chat_id text not null,
+    team_id uuid not null references public.teams(id) on delete cascade,
+    cliq_user jsonb not null default '{}'::jsonb,
+    notes text not null,
+    tasks jsonb not null default '[]'::jsonb,
+    created_at timestamptz not null default now()
+);
+
+-- Only the API (service role) reads and writes these: RLS on, no policies.
+alter table public.cliq_extractions enable row level security;
@@ -0,0 +1,39 @@
+-- Link Zoho Cliq users to MeetingMind users so chat commands act as a real user.
+-- A signed-in user creates a short-lived code in Account Settings and sends `/meetingmind link <code>` from Cliq.
+
+create table if not exists public.cliq_link_codes (
+    code text primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    expires_at timestamptz not null default (now() + interval '10 minutes'),
+    created_at timestamptz not null default now()
+);
+
+alter table public.cliq_link_codes enable row level security;
+
+create policy "Users can view their Cliq link codes" on public.cliq_link_codes
+    for select using (user_id = auth.uid());
+
+create policy "Users can create their Cliq link codes" on public.cliq_link_codes
+    for insert with check (user_id = auth.uid() and expires_at <= now() + interval '10 minutes');
+
+create policy "Users can delete their Cliq link codes" on public.cliq_link_codes
+    for delete using (user_id = auth.uid());
+
+create table if not exists public.cliq_user_links (
+    cliq_user_id text primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    cliq_user_name text,
+    cliq_user_email text,
+    linked_at timestamptz not null default now()
+);
+
+create index if not exists cliq_user_links_user_idx on public.cliq_user_links (user_id);
+
+-- Links are created by the API (service role) when a code is redeemed; users can see and remove their own
+alter table public.cliq_user_links enable row level security;
+
+create policy "Users can view their Cliq links" on public.cliq_user_links
+    for select using (user_id = auth.uid());
+
+create policy "Users can remove their Cliq links" on public.cliq_user_links
+    for delete using (user_id = auth.uid());
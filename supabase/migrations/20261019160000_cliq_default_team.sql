@@ -0,0 +1,4 @@
+-- `/meetingmind team <name>` picks the team that Cliq commands default to for a linked user.
+
+alter table public.cliq_user_links
+    add column if not exists default_team_id uuid references public.teams(id) on delete set null;
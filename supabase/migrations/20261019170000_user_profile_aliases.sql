@@ -0,0 +1,5 @@
+-- Nicknames and other names a user goes by in meetings ("Sam", "SJ"), set in Profile Settings.
+-- Extracted assignee names are matched against them as well as the full name and username.
+
+alter table public.user_profiles
+    add column if not exists aliases text[] not null default '{}';
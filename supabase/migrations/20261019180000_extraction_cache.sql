@@ -0,0 +1,29 @@
+-- Cached extraction results, so running extraction again on the same notes under the same
+-- settings returns the stored tasks instead of calling the model again.
+-- Rows are keyed by a SHA-256 of the notes and every setting that shapes the result, hold the
+-- result only (never the notes), belong to the user who extracted them and expire after 7 days.
+
+create table if not exists public.extraction_cache (
+    user_id uuid not null references auth.users(id) on delete cascade,
+    input_hash text not null,
+    -- { tasks, metadata } exactly as the extraction endpoint returned them
+    result jsonb not null,
+    created_at timestamptz not null default now(),
+    primary key (user_id, input_hash)
+);
+
+create index if not exists extraction_cache_created_idx on public.extraction_cache (user_id, created_at);
+
+alter table public.extraction_cache enable row level security;
+
+create policy "Users can view their cached extractions" on public.extraction_cache
+    for select using (user_id = auth.uid());
+
+create policy "Users can cache their extractions" on public.extraction_cache
+    for insert with check (user_id = auth.uid());
+
+create policy "Users can refresh their cached extractions" on public.extraction_cache
+    for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users can delete their cached extractions" on public.extraction_cache
+    for delete using (user_id = auth.uid());
@@ -0,0 +1,107 @@
+-- Extraction drafts keep a review in progress (notes, extracted and edited tasks, meeting details)
+-- on the server, so it survives reloads and other officials on the team can open, edit and
+-- publish it from /drafts/:id. Publishing creates the meeting and its tasks.
+
+create table if not exists public.extraction_drafts (
+    id uuid primary key default gen_random_uuid(),
+    -- Null for extractions without a team; those drafts stay private to their creator
+    team_id uuid references public.teams(id) on delete cascade,
+    status text not null default 'draft' check (status in ('draft', 'reviewed', 'published')),
+    notes text not null default '',
+    -- The reviewed task list, and the last extraction as returned (with task keys) that a
+    -- re-extraction is reconciled against
+    tasks jsonb not null default '[]'::jsonb,
+    baseline jsonb not null default '[]'::jsonb,
+    -- What the last re-extraction changed, until someone dismisses it
+    diff jsonb,
+    -- Extraction run metadata and validation warnings, as on meetings.extraction
+    extraction jsonb not null default '{}'::jsonb,
+    warnings jsonb not null default '[]'::jsonb,
+    -- Meeting details; null until someone edits them
+    title text,
+    meeting_date date,
+    attendees text[],
+    meeting_id uuid references public.meetings(id) on delete set null,
+    -- Bumped on every save; a save against an older revision is rejected as a conflict
+    revision integer not null default 0,
+    created_by uuid references auth.users(id) on delete set null,
+    updated_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists extraction_drafts_team_updated_idx on public.extraction_drafts (team_id, updated_at desc);
+
+create or replace function public.touch_extraction_draft_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.updated_at := now();
+    return new;
+end;
+$$;
+
+drop trigger if exists extraction_drafts_updated_at on public.extraction_drafts;
+create trigger extraction_drafts_updated_at
+    before update on public.extraction_drafts
+    for each row execute function public.touch_extraction_draft_updated_at();
+
+-- The team's owner, or an accepted member with an official role (the roles that can extract tasks)
+create or replace function public.is_team_official(team uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from public.teams t where t.id = team and t.created_by = auth.uid())
+        or exists (
+            select 1
+            from public.team_members m
+            join public.user_profiles p on p.id = m.user_id
+            where m.team_id = team
+                and m.user_id = auth.uid()
+                and m.status = 'accepted'
+                and p.role in ('ceo', 'cto', 'vp_engineering', 'director', 'engineering_manager',
+                               'product_manager', 'team_lead', 'hr_manager')
+        );
+$$;
+
+alter table public.extraction_drafts enable row level security;
+
+create policy "Team officials can view extraction drafts" on public.extraction_drafts
+    for select using (
+        created_by = auth.uid() or public.is_team_official(team_id)
+    );
+
+create policy "Team officials can start extraction drafts" on public.extraction_drafts
+    for insert with check (
+        created_by = auth.uid()
+        and (team_id is null or public.is_team_official(team_id))
+    );
+
+-- Publishing claims the draft first (status 'published'), then links the meeting it created;
+-- from then on the draft is read-only
+create policy "Team officials can edit extraction drafts" on public.extraction_drafts
+    for update using (
+        meeting_id is null
+        and (created_by = auth.uid() or public.is_team_official(team_id))
+    ) with check (
+        updated_by = auth.uid()
+        and (created_by = auth.uid() or public.is_team_official(team_id))
+    );
+
+create policy "Creators and team owners can delete extraction drafts" on public.extraction_drafts
+    for delete using (
+        created_by = auth.uid()
+        or exists (select 1 from public.teams t where t.id = extraction_drafts.team_id and t.created_by = auth.uid())
+    );
+
+-- Publishing deletes the meeting it just recorded when creating the tasks fails, so retries
+-- leave no empty meetings behind
+create policy "Creators can delete their meetings without tasks" on public.meetings
+    for delete using (
+        created_by = auth.uid()
+        and not exists (select 1 from public.tasks t where t.meeting_id = meetings.id)
+    );
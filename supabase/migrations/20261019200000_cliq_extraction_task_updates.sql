@@ -0,0 +1,25 @@
+-- Card actions update one task of a Cliq extraction in a single statement, and only while the
+-- task still has the status the action expects. Two clicks on Create can then not both create
+-- the task, and edits to different tasks of the same card no longer overwrite each other.
+-- Returns the updated extraction, or no row when the task was already handled.
+
+create or replace function public.update_cliq_extraction_task(
+    extraction_id uuid,
+    task_index integer,
+    changes jsonb,
+    expected_status text default 'pending'
+)
+returns setof public.cliq_extractions
+language sql
+as $$
+    update public.cliq_extractions
+    set tasks = jsonb_set(tasks, array[task_index::text], (tasks -> task_index) || changes)
+    where id = extraction_id
+        and task_index >= 0
+        and task_index < jsonb_array_length(tasks)
+        and tasks -> task_index ->> 'status' = expected_status
+    returning *;
+$$;
+
+-- Only the API (service role) calls it, like the table itself
+revoke execute on function public.update_cliq_extraction_task(uuid, integer, jsonb, text) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Publishing a draft takes several requests (meeting, tasks, Zoho Projects), so it is claimed
+-- as 'publishing' first and only becomes 'published' once its tasks exist. A draft left
+-- 'publishing' by a closed tab or a dropped connection is settled by the next person to open it.
+
+alter table public.extraction_drafts drop constraint if exists extraction_drafts_status_check;
+alter table public.extraction_drafts add constraint extraction_drafts_status_check
+    check (status in ('draft', 'reviewed', 'publishing', 'published'));
+
+-- The meeting is linked while publishing, so an interrupted publish can be finished or undone;
+-- the draft becomes read-only once it is published
+drop policy if exists "Team officials can edit extraction drafts" on public.extraction_drafts;
+create policy "Team officials can edit extraction drafts" on public.extraction_drafts
+    for update using (
+        status <> 'published'
+        and (created_by = auth.uid() or public.is_team_official(team_id))
+    ) with check (
+        updated_by = auth.uid()
+        and (created_by = auth.uid() or public.is_team_official(team_id))
+    );